@@ -1,8 +1,14 @@
+import { FeeRules } from '../modules/fee/fee.interface';
+
 export interface Config {
   nest: NestConfig;
   cors: CorsConfig;
   swagger: SwaggerConfig;
   security: SecurityConfig;
+  subscribers: SubscriberConfig;
+  reconciliation: ReconciliationConfig;
+  // expected DANA fees per pay method, merchants may override single rules
+  fees: FeeRules;
   logger: any;
 }
 
@@ -38,3 +44,21 @@ export interface Token {
   expiresIn: number;
   bcryptSaltOrRound: string | number;
 }
+
+export interface SubscriberConfig {
+  pollIntervalMs: number;
+  batchSize: number;
+  timeoutMs: number;
+  maxAttempts: number;
+  baseDelaySeconds: number;
+  maxDelaySeconds: number;
+}
+
+export interface ReconciliationConfig {
+  intervalMs: number;
+  // orders older than this are asked about, each at most once per period
+  pendingAfterMinutes: number;
+  batchSize: number;
+  // longest a pass may hold the reconciliation lock
+  runTimeoutMs: number;
+}
@@ -28,6 +28,26 @@ export const GLOBAL_CONFIG: Config = {
       bcryptSaltOrRound: 10,
     },
   },
+  subscribers: {
+    pollIntervalMs: 5000,
+    batchSize: 20,
+    timeoutMs: 10000,
+    maxAttempts: 8, // dead-lettered after this many failed deliveries
+    baseDelaySeconds: 30,
+    maxDelaySeconds: 3600 * 6,
+  },
+  reconciliation: {
+    intervalMs: 60000,
+    pendingAfterMinutes: 5,
+    batchSize: 50,
+    runTimeoutMs: 10 * 60 * 1000,
+  },
+  fees: {
+    QRIS: { percent: '0.7' }, // MDR
+    NETWORK_PAY_PG_OVO: { percent: '1.5' },
+    BALANCE: { percent: '1.5' },
+    DEFAULT: { percent: '1.5' },
+  },
   logger: {
     transports: [
       // file on daily rotation (error only)
@@ -0,0 +1,14 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+
+import {
+  MerchantContext,
+  MerchantRequest,
+} from '../modules/merchant/merchant.interface';
+
+/**
+ * Tenant resolved by MerchantGuard for the current request
+ */
+export const CurrentMerchant = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): MerchantContext =>
+    context.switchToHttp().getRequest<MerchantRequest>().merchant,
+);
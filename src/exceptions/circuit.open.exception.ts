@@ -0,0 +1,26 @@
+import { HttpStatus } from '@nestjs/common';
+
+import { DanaApiException } from './dana.api.exception';
+
+/**
+ * DANA kept failing, calls are refused locally until the circuit's reset
+ * time instead of piling up behind timeouts
+ */
+export class CircuitOpenException extends DanaApiException {
+  constructor(
+    endpoint: string,
+    private readonly retryAt: Date,
+  ) {
+    super(
+      endpoint,
+      HttpStatus.SERVICE_UNAVAILABLE,
+      undefined,
+      `DANA ${endpoint} is unavailable, retry after ${retryAt.toISOString()}`,
+      'DANA_UNAVAILABLE',
+    );
+  }
+
+  getRetryAt(): Date {
+    return this.retryAt;
+  }
+}
@@ -0,0 +1,6 @@
+import { DanaApiException } from './dana.api.exception';
+
+/**
+ * DANA no longer accepts the customer token of a bound account
+ */
+export class CustomerTokenExpiredException extends DanaApiException {}
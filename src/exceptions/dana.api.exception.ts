@@ -0,0 +1,41 @@
+import { HttpException } from '@nestjs/common';
+
+/**
+ * A DANA call that did not succeed. Without a DANA response the call timed
+ * out or never arrived, so the transaction may still exist on DANA's side.
+ * The code is the stable error code our API answers with, see
+ * dana.response.codes.ts.
+ */
+export class DanaApiException extends HttpException {
+  constructor(
+    private readonly endpoint: string,
+    status: number,
+    private readonly danaResponse?: Record<string, any>,
+    message?: string,
+    private readonly code: string = 'DANA_ERROR',
+  ) {
+    const text =
+      message || danaResponse?.responseMessage || `DANA ${endpoint} failed`;
+    super(
+      { code, message: text, danaCode: danaResponse?.responseCode },
+      status,
+    );
+    this.message = text;
+  }
+
+  getEndpoint(): string {
+    return this.endpoint;
+  }
+
+  getErrorCode(): string {
+    return this.code;
+  }
+
+  getDanaResponse(): Record<string, any> | undefined {
+    return this.danaResponse;
+  }
+
+  getResponseCode(): string | undefined {
+    return this.danaResponse?.responseCode;
+  }
+}
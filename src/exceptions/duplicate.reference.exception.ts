@@ -0,0 +1,6 @@
+import { DanaApiException } from './dana.api.exception';
+
+/**
+ * DANA already has a transaction with this partner reference number
+ */
+export class DuplicateReferenceException extends DanaApiException {}
@@ -0,0 +1,6 @@
+import { DanaApiException } from './dana.api.exception';
+
+/**
+ * The customer's DANA balance cannot cover the payment
+ */
+export class InsufficientBalanceException extends DanaApiException {}
@@ -0,0 +1,19 @@
+import { ConflictException } from '@nestjs/common';
+import { OrderStatus } from '@prisma/client';
+
+export class InvalidOrderTransitionException extends ConflictException {
+  constructor(
+    private readonly from: OrderStatus,
+    private readonly to: OrderStatus,
+  ) {
+    super(`Order cannot move from ${from} to ${to}`);
+  }
+
+  getFromStatus(): OrderStatus {
+    return this.from;
+  }
+
+  getToStatus(): OrderStatus {
+    return this.to;
+  }
+}
@@ -0,0 +1,23 @@
+import { HttpStatus } from '@nestjs/common';
+
+import { DanaApiException } from './dana.api.exception';
+
+/**
+ * DANA accepted the order but the QR code it returned cannot be shown: it is
+ * malformed, fails its CRC or asks for another amount
+ */
+export class InvalidQrisException extends DanaApiException {
+  constructor(
+    endpoint: string,
+    danaResponse: Record<string, any>,
+    reason: string,
+  ) {
+    super(
+      endpoint,
+      HttpStatus.BAD_GATEWAY,
+      danaResponse,
+      `DANA ${endpoint} returned an invalid QR code: ${reason}`,
+      'DANA_INVALID_QR',
+    );
+  }
+}
@@ -0,0 +1,6 @@
+import { DanaApiException } from './dana.api.exception';
+
+/**
+ * DANA rejected our request signature, check the merchant key pair
+ */
+export class InvalidSignatureException extends DanaApiException {}
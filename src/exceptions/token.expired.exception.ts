@@ -0,0 +1,6 @@
+import { DanaApiException } from './dana.api.exception';
+
+/**
+ * DANA no longer accepts our access token
+ */
+export class TokenExpiredException extends DanaApiException {}
@@ -6,8 +6,26 @@ import {
   HttpStatus,
 } from '@nestjs/common';
 import { HttpAdapterHost } from '@nestjs/core';
+import { Response } from 'express';
 
 import { MyLogger } from '../modules/logger/logger.service';
+import { DanaApiException } from '../exceptions/dana.api.exception';
+import {
+  TRACE_ID_HEADER,
+  TracedRequest,
+  traceIdOf,
+} from '../middlewares/trace.id.middleware';
+
+/**
+ * Every error leaves as { code, message, danaCode, traceId }. code is stable
+ * for clients to branch on, danaCode is the SNAP responseCode behind it.
+ */
+export interface ErrorBody {
+  code: string;
+  message: string;
+  danaCode: string | null;
+  traceId: string;
+}
 
 @Catch()
 export class AllExceptionsFilter implements ExceptionFilter {
@@ -16,16 +34,56 @@ export class AllExceptionsFilter implements ExceptionFilter {
   catch(exception: unknown, host: ArgumentsHost): void {
     const { httpAdapter } = this.httpAdapterHost;
     const ctx = host.switchToHttp();
+    const response = ctx.getResponse<Response>();
+    const traceId = traceIdOf(ctx.getRequest<TracedRequest>());
 
     const logger = new MyLogger();
     logger.setContext(exception['name']);
-    logger.error(exception['message']);
+    logger.error(`[${traceId}] ${exception['message']}`);
 
     const httpStatus =
       exception instanceof HttpException
         ? exception.getStatus()
         : HttpStatus.INTERNAL_SERVER_ERROR;
 
-    httpAdapter.reply(ctx.getResponse(), exception['response'], httpStatus);
+    if (!response.headersSent) {
+      response.setHeader(TRACE_ID_HEADER, traceId);
+    }
+    httpAdapter.reply(
+      response,
+      { ...this.describe(exception, httpStatus), traceId },
+      httpStatus,
+    );
+  }
+
+  private describe(
+    exception: unknown,
+    status: number,
+  ): Omit<ErrorBody, 'traceId'> {
+    if (exception instanceof DanaApiException) {
+      return {
+        code: exception.getErrorCode(),
+        message: exception.message,
+        danaCode: exception.getResponseCode() || null,
+      };
+    }
+    if (exception instanceof HttpException) {
+      const response = exception.getResponse();
+      const message =
+        typeof response === 'object' && response['message']
+          ? response['message']
+          : exception.message;
+      return {
+        code: HttpStatus[status] || 'ERROR',
+        message: Array.isArray(message) ? message.join(', ') : message,
+        danaCode: null,
+      };
+    }
+    // internals stay in the log
+    return {
+      code: HttpStatus[HttpStatus.INTERNAL_SERVER_ERROR],
+      message: 'Internal server error',
+      danaCode: null,
+    };
   }
 }
@@ -2,6 +2,7 @@ import { ArgumentsHost, Catch, ExceptionFilter } from '@nestjs/common';
 import { Response } from 'express';
 
 import { InvalidFormException } from '../exceptions/invalid.form.exception';
+import { TracedRequest, traceIdOf } from '../middlewares/trace.id.middleware';
 
 @Catch(InvalidFormException)
 export class InvalidFormExceptionFilter implements ExceptionFilter {
@@ -12,6 +13,10 @@ export class InvalidFormExceptionFilter implements ExceptionFilter {
 
     response.status(status).json({
       statusCode: status,
+      code: 'VALIDATION_FAILED',
+      message: exception.message,
+      danaCode: null,
+      traceId: traceIdOf(ctx.getRequest<TracedRequest>()),
       errors: exception.getFieldErrors(),
     });
   }
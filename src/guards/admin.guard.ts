@@ -0,0 +1,36 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import * as crypto from 'crypto';
+
+import { ADMIN_API_KEY } from '../shared/constants/global.constants';
+
+/**
+ * Guards operational endpoints with the X-ADMIN-KEY header. With no
+ * ADMIN_API_KEY configured every request is refused.
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+    const key = request.headers['x-admin-key'];
+
+    if (!ADMIN_API_KEY || typeof key !== 'string' || !this.matches(key)) {
+      throw new UnauthorizedException('Invalid admin key');
+    }
+    return true;
+  }
+
+  private matches(key: string): boolean {
+    const expected = Buffer.from(ADMIN_API_KEY);
+    const actual = Buffer.from(key);
+    return (
+      expected.length === actual.length &&
+      crypto.timingSafeEqual(expected, actual)
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+
+import { MerchantService } from '../modules/merchant/merchant.service';
+import { MerchantRequest } from '../modules/merchant/merchant.interface';
+import { ALLOW_ANONYMOUS_MERCHANT } from '../shared/constants/global.constants';
+
+/**
+ * Resolves the tenant of a request from its X-API-KEY header. Requests
+ * without one are refused, unless ALLOW_ANONYMOUS_MERCHANT lets them act as
+ * the default merchant configured through DANA_*.
+ */
+@Injectable()
+export class MerchantGuard implements CanActivate {
+  constructor(private readonly merchantService: MerchantService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<MerchantRequest>();
+    const apiKey = request.headers['x-api-key'];
+
+    if (typeof apiKey === 'string' && apiKey) {
+      request.merchant = await this.merchantService.resolveApiKey(apiKey);
+    } else if (ALLOW_ANONYMOUS_MERCHANT) {
+      request.merchant = await this.merchantService.getDefault();
+    } else {
+      throw new UnauthorizedException('An X-API-KEY is required');
+    }
+    return true;
+  }
+}
@@ -11,12 +11,15 @@ import { GLOBAL_CONFIG } from './configs/global.config';
 import { MyLogger } from './modules/logger/logger.service';
 import { InvalidFormExceptionFilter } from './filters/invalid.form.exception.filter';
 import { AllExceptionsFilter } from './filters/all.exceptions.filter';
+import { validationExceptionFactory } from './shared/utils/validation';
 import { WinstonModule } from 'nest-winston';
 import 'winston-daily-rotate-file';
 
 async function bootstrap() {
   const app = await NestFactory.create(DanaModule, {
     logger: WinstonModule.createLogger(GLOBAL_CONFIG.logger),
+    // DANA signs the exact request body, webhooks need it unparsed
+    rawBody: true,
   });
 
   app.setGlobalPrefix(API_PREFIX);
@@ -26,7 +29,9 @@ async function bootstrap() {
     new InvalidFormExceptionFilter(),
   );
 
-  app.useGlobalPipes(new ValidationPipe());
+  app.useGlobalPipes(
+    new ValidationPipe({ exceptionFactory: validationExceptionFactory }),
+  );
 
   const configService = app.get<ConfigService>(ConfigService);
   const swaggerConfig = configService.get<SwaggerConfig>('swagger');
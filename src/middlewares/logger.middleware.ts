@@ -1,15 +1,19 @@
 import { Injectable, Logger, NestMiddleware } from '@nestjs/common';
-import { Request, Response, NextFunction } from 'express';
+import { Response, NextFunction } from 'express';
+
+import { TracedRequest } from './trace.id.middleware';
 
 @Injectable()
 export class LoggerMiddleware implements NestMiddleware {
   private readonly logger = new Logger();
 
-  use(req: Request, res: Response, next: NextFunction) {
+  use(req: TracedRequest, res: Response, next: NextFunction) {
     res.on('finish', () => {
       const statusCode = res.statusCode;
       if (statusCode === 401 || statusCode === 404 || statusCode === 405) {
-        this.logger.warn(`[${req.method}] ${req.url} - ${statusCode}`);
+        this.logger.warn(
+          `[${req.method}] ${req.url} - ${statusCode} (${req.traceId})`,
+        );
       }
     });
 
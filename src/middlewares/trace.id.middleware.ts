@@ -0,0 +1,34 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import * as crypto from 'crypto';
+
+export const TRACE_ID_HEADER = 'X-Request-Id';
+
+// printable and short enough to log, otherwise we issue our own
+const TRACE_ID_REGEX = /^[\w.:-]{1,128}$/;
+
+export interface TracedRequest extends Request {
+  traceId?: string;
+}
+
+/**
+ * Trace id of a request, taken from X-Request-Id when the caller sent a
+ * usable one
+ */
+export function traceIdOf(req: TracedRequest): string {
+  if (!req.traceId) {
+    const header = req.get?.(TRACE_ID_HEADER);
+    req.traceId = TRACE_ID_REGEX.test(header || '')
+      ? header
+      : crypto.randomUUID();
+  }
+  return req.traceId;
+}
+
+@Injectable()
+export class TraceIdMiddleware implements NestMiddleware {
+  use(req: TracedRequest, res: Response, next: NextFunction) {
+    res.setHeader(TRACE_ID_HEADER, traceIdOf(req));
+    next();
+  }
+}
@@ -8,6 +8,7 @@ import { LoggerModule } from '../logger/logger.module';
 import { AppService } from './app.service';
 import { AppController } from './app.controller';
 import { LoggerMiddleware } from '../../middlewares/logger.middleware';
+import { TraceIdMiddleware } from '../../middlewares/trace.id.middleware';
 
 @Module({
   imports: [
@@ -21,6 +22,6 @@ import { LoggerMiddleware } from '../../middlewares/logger.middleware';
 })
 export class AppModule {
   configure(consumer: MiddlewareConsumer) {
-    consumer.apply(LoggerMiddleware).forRoutes('*');
+    consumer.apply(TraceIdMiddleware, LoggerMiddleware).forRoutes('*');
   }
 }
@@ -0,0 +1,296 @@
+import { ConfigType } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { of, throwError } from 'rxjs';
+import * as crypto from 'crypto';
+
+import { MerchantContext } from '../merchant/merchant.interface';
+import { DanaApiException } from '../../exceptions/dana.api.exception';
+import { InsufficientBalanceException } from '../../exceptions/insufficient.balance.exception';
+import { DanaApiClient } from './dana.api.client';
+import { danaConfig } from './dana.config';
+import { DANA_ENDPOINTS, DanaEndpoint } from './dana.endpoints';
+import {
+  BalanceInquiryRequest,
+  DebitPaymentRequest,
+  QrisGenerateRequest,
+  RefundRequest,
+  SnapResponse,
+  TransactionQueryRequest,
+} from './dana.interface';
+import { DanaSignatureService } from './dana.signature';
+import { DanaTokenProvider } from './dana.token.provider';
+import { DanaResilience } from './dana.resilience';
+
+describe('DanaApiClient', () => {
+  const keys = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'der' },
+    publicKeyEncoding: { type: 'spki', format: 'der' },
+  });
+  const merchant = {
+    id: 'merchant-1',
+    code: 'brand-a',
+    merchantId: '216620000000000000000',
+    clientId: 'client-a',
+    privateKey: keys.privateKey.toString('base64'),
+    channelId: '11111',
+  } as MerchantContext;
+  const body = {
+    originalPartnerReferenceNo: 'order-1',
+    originalReferenceNo: '',
+    merchantId: merchant.merchantId,
+    reason: '',
+  };
+  const amount = { value: '10000.00', currency: 'IDR' };
+  const qrisRequest = {
+    merchantId: merchant.merchantId,
+    partnerReferenceNo: 'order-1',
+    amount,
+  } as Partial<QrisGenerateRequest> as QrisGenerateRequest;
+  const paymentRequest = {
+    merchantId: merchant.merchantId,
+    partnerReferenceNo: 'order-1',
+    amount,
+    urlParams: [],
+  } as Partial<DebitPaymentRequest> as DebitPaymentRequest;
+  const queryRequest: TransactionQueryRequest = {
+    originalPartnerReferenceNo: 'order-1',
+    originalReferenceNo: '',
+    merchantId: merchant.merchantId,
+    serviceCode: '54',
+  };
+  const refundRequest: RefundRequest = {
+    originalPartnerReferenceNo: 'order-1',
+    originalReferenceNo: '',
+    partnerRefundNo: 'r-1',
+    merchantId: merchant.merchantId,
+    refundAmount: amount,
+    reason: '',
+  };
+  const balanceRequest: BalanceInquiryRequest = {
+    partnerReferenceNo: 'balance-1',
+    balanceTypes: ['BALANCE'],
+    additionalInfo: {},
+  };
+
+  let post: jest.Mock;
+  let getToken: jest.Mock;
+  let invalidate: jest.Mock;
+  let client: DanaApiClient;
+
+  beforeEach(() => {
+    post = jest.fn();
+    getToken = jest.fn().mockResolvedValue({ accessToken: 'b2b-token' });
+    invalidate = jest.fn();
+    const config = {
+      baseUrl: 'https://dana.test',
+      retryAttempts: 3,
+      retryBaseDelayMs: 1,
+      circuitFailureThreshold: 5,
+      circuitResetSeconds: 30,
+    } as ConfigType<typeof danaConfig>;
+    client = new DanaApiClient(
+      config,
+      { post } as Partial<HttpService> as HttpService,
+      {
+        getToken,
+        invalidate,
+      } as Partial<DanaTokenProvider> as DanaTokenProvider,
+      new DanaResilience(config),
+    );
+  });
+
+  it('should sign the request and send the SNAP headers', async () => {
+    post.mockReturnValue(
+      of({ data: { responseCode: '2005700', responseMessage: 'Successful' } }),
+    );
+
+    await client.call(merchant, DANA_ENDPOINTS.debitCancel, body, {
+      externalId: 'order-1',
+    });
+
+    const [url, sent, { headers }] = post.mock.calls[0];
+    expect(url).toBe('https://dana.test/payment-gateway/v1.0/debit/cancel.htm');
+    expect(headers).toMatchObject({
+      'X-PARTNER-ID': 'client-a',
+      'X-EXTERNAL-ID': 'order-1',
+      'CHANNEL-ID': '11111',
+    });
+    expect(headers.Authorization).toBeUndefined();
+
+    const signatureService = new DanaSignatureService();
+    const stringToSign = signatureService.prepareSignatureData(
+      'POST',
+      '/payment-gateway/v1.0/debit/cancel.htm',
+      JSON.stringify(sent),
+      headers['X-TIMESTAMP'],
+    );
+    expect(
+      signatureService.verifySignature(
+        stringToSign,
+        keys.publicKey.toString('base64'),
+        headers['X-SIGNATURE'],
+      ),
+    ).toBe(true);
+  });
+
+  it('should add the access token where the endpoint wants it', async () => {
+    post.mockReturnValue(
+      of({ data: { responseCode: '2004700', responseMessage: 'Successful' } }),
+    );
+
+    await client.call(merchant, DANA_ENDPOINTS.qrisGenerate, qrisRequest);
+
+    expect(post.mock.calls[0][2].headers['Authorization']).toBe(
+      'Bearer b2b-token',
+    );
+    expect(post.mock.calls[0][2].headers['Authorization-Customer']).toBe(
+      undefined,
+    );
+  });
+
+  it.each<[string, DanaEndpoint<unknown, SnapResponse>]>([
+    ['query', DANA_ENDPOINTS.qrisQuery],
+    ['cancel', DANA_ENDPOINTS.qrisCancel],
+    ['refund', DANA_ENDPOINTS.qrisRefund],
+  ])('should send the access token to QRIS %s', async (_, endpoint) => {
+    post.mockReturnValue(
+      of({
+        data: {
+          responseCode: endpoint.successCodes[0],
+          responseMessage: 'Successful',
+        },
+      }),
+    );
+
+    await client.call(merchant, endpoint, {});
+
+    expect(post.mock.calls[0][2].headers['Authorization']).toBe(
+      'Bearer b2b-token',
+    );
+  });
+
+  it('should send a customer token next to the access token', async () => {
+    post.mockReturnValue(
+      of({ data: { responseCode: '2001100', responseMessage: 'Successful' } }),
+    );
+
+    await client.call(merchant, DANA_ENDPOINTS.balanceInquiry, balanceRequest, {
+      customerToken: 'customer-token',
+    });
+
+    const headers = post.mock.calls[0][2].headers;
+    expect(headers['Authorization']).toBe('Bearer b2b-token');
+    expect(headers['Authorization-Customer']).toBe('Bearer customer-token');
+  });
+
+  it('should accept every success code of the endpoint', async () => {
+    post.mockReturnValue(
+      of({ data: { responseCode: '2025800', responseMessage: 'Accepted' } }),
+    );
+
+    await expect(
+      client.call(merchant, DANA_ENDPOINTS.debitRefund, refundRequest),
+    ).resolves.toMatchObject({ responseCode: '2025800' });
+  });
+
+  it('should throw other response codes with their HTTP status', async () => {
+    const answer = { responseCode: '4035705', responseMessage: 'Do Not Honor' };
+    post.mockReturnValue(of({ data: answer }));
+
+    const error = await client
+      .call(merchant, DANA_ENDPOINTS.debitCancel, body)
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(DanaApiException);
+    expect(error.getStatus()).toBe(403);
+    expect(error.getDanaResponse()).toEqual(answer);
+  });
+
+  it('should type known response codes', async () => {
+    post.mockReturnValue(
+      of({
+        data: {
+          responseCode: '4035414',
+          responseMessage: 'Insufficient Funds',
+        },
+      }),
+    );
+
+    const error = await client
+      .call(merchant, DANA_ENDPOINTS.debitPayment, paymentRequest)
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(InsufficientBalanceException);
+    expect(error.getErrorCode()).toBe('DANA_INSUFFICIENT_BALANCE');
+  });
+
+  it('should keep the DANA body of an HTTP error', async () => {
+    const answer = { responseCode: '4015700', responseMessage: 'Unauthorized' };
+    post.mockReturnValue(
+      throwError(() => ({ response: { status: 401, data: answer } })),
+    );
+
+    const error = await client
+      .call(merchant, DANA_ENDPOINTS.debitCancel, body)
+      .catch((e) => e);
+
+    expect(error.getStatus()).toBe(401);
+    expect(error.getResponseCode()).toBe('4015700');
+  });
+
+  it('should report a timeout without a DANA response', async () => {
+    post.mockReturnValue(
+      throwError(() => ({ code: 'ECONNABORTED', message: 'timeout' })),
+    );
+
+    const error = await client
+      .call(merchant, DANA_ENDPOINTS.debitCancel, body)
+      .catch((e) => e);
+
+    expect(error.getStatus()).toBe(504);
+    expect(error.getDanaResponse()).toBeUndefined();
+  });
+
+  it('should retry an idempotent call after a network error', async () => {
+    post
+      .mockReturnValueOnce(throwError(() => ({ code: 'ECONNRESET' })))
+      .mockReturnValueOnce(
+        of({ data: { responseCode: '2005500', responseMessage: 'Success' } }),
+      );
+
+    await expect(
+      client.call(merchant, DANA_ENDPOINTS.debitStatus, queryRequest),
+    ).resolves.toMatchObject({ responseCode: '2005500' });
+    expect(post).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry a payment after a network error', async () => {
+    post.mockReturnValue(throwError(() => ({ code: 'ECONNRESET' })));
+
+    await expect(
+      client.call(merchant, DANA_ENDPOINTS.debitPayment, paymentRequest),
+    ).rejects.toThrow(DanaApiException);
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+
+  it('should renew a rejected token and retry once', async () => {
+    getToken
+      .mockResolvedValueOnce({ accessToken: 'stale' })
+      .mockResolvedValueOnce({ accessToken: 'fresh' });
+    post
+      .mockReturnValueOnce(
+        of({
+          data: { responseCode: '4014701', responseMessage: 'Invalid Token' },
+        }),
+      )
+      .mockReturnValueOnce(
+        of({ data: { responseCode: '2004700', responseMessage: 'Success' } }),
+      );
+
+    await client.call(merchant, DANA_ENDPOINTS.qrisGenerate, qrisRequest);
+
+    expect(invalidate).toHaveBeenCalledWith(merchant);
+    expect(post.mock.calls[1][2].headers['Authorization']).toBe('Bearer fresh');
+  });
+});
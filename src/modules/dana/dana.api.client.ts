@@ -0,0 +1,150 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigType } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+import * as crypto from 'crypto';
+
+import { MerchantContext } from '../merchant/merchant.interface';
+import { TokenExpiredException } from '../../exceptions/token.expired.exception';
+import { danaConfig } from './dana.config';
+import { DanaEndpoint } from './dana.endpoints';
+import { fromHttpError, toDanaException } from './dana.response.codes';
+import { DanaResilience } from './dana.resilience';
+import { SnapResponse } from './dana.interface';
+import { DanaSignatureService } from './dana.signature';
+import { DanaTokenProvider } from './dana.token.provider';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+export interface DanaCallOptions {
+  // X-EXTERNAL-ID, DANA uses it to spot duplicate requests
+  externalId?: string;
+  // Authorization-Customer of calls on behalf of a bound account
+  customerToken?: string;
+}
+
+/**
+ * Signs, sends and decodes SNAP calls for a merchant. Anything but one of the
+ * endpoint's success codes is thrown as a DanaApiException, typed after the
+ * response code catalog. Calls run under DanaResilience, idempotent endpoints
+ * are retried, and a rejected access token is renewed once.
+ */
+@Injectable()
+export class DanaApiClient {
+  private readonly logger = new Logger(DanaApiClient.name);
+  private signatureService = new DanaSignatureService();
+
+  constructor(
+    @Inject(danaConfig.KEY)
+    private readonly config: ConfigType<typeof danaConfig>,
+    private readonly httpService: HttpService,
+    private readonly tokenProvider: DanaTokenProvider,
+    private readonly resilience: DanaResilience,
+  ) {}
+
+  async call<TRequest, TResponse extends SnapResponse>(
+    merchant: MerchantContext,
+    endpoint: DanaEndpoint<TRequest, TResponse>,
+    body: TRequest,
+    options: DanaCallOptions = {},
+  ): Promise<TResponse> {
+    const send = () =>
+      this.resilience.execute(
+        endpoint.name,
+        () => this.send(merchant, endpoint, body, options),
+        { retry: endpoint.idempotent },
+      );
+
+    try {
+      return await send();
+    } catch (error) {
+      // DANA refused the token before doing anything, a fresh one is safe
+      if (!(error instanceof TokenExpiredException) || !endpoint.bearer) {
+        throw error;
+      }
+      this.logger.warn(
+        `${endpoint.name} for ${merchant.code}: token rejected, refreshing`,
+      );
+      await this.tokenProvider.invalidate(merchant);
+      return send();
+    }
+  }
+
+  private async send<TRequest, TResponse extends SnapResponse>(
+    merchant: MerchantContext,
+    endpoint: DanaEndpoint<TRequest, TResponse>,
+    body: TRequest,
+    options: DanaCallOptions,
+  ): Promise<TResponse> {
+    const headers = await this.headers(merchant, endpoint, body, options);
+
+    let data: TResponse;
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post<TResponse>(
+          `${this.config.baseUrl}${endpoint.path}`,
+          body,
+          { headers, timeout: endpoint.timeoutMs || DEFAULT_TIMEOUT_MS },
+        ),
+      );
+      data = response.data;
+    } catch (error) {
+      if (error.response) {
+        this.logger.warn(
+          `${endpoint.name} answered ${error.response.status}: ${JSON.stringify(error.response.data)}`,
+        );
+      } else {
+        this.logger.error(`${endpoint.name} failed: ${error.message}`);
+      }
+      throw fromHttpError(endpoint.name, error);
+    }
+
+    this.logger.log(
+      `${endpoint.name} for ${merchant.code}: ${data?.responseCode} ${data?.responseMessage}`,
+    );
+    if (!endpoint.successCodes.includes(data?.responseCode)) {
+      throw toDanaException(
+        endpoint.name,
+        data || undefined,
+        undefined,
+        'Empty DANA response',
+      );
+    }
+    return data;
+  }
+
+  private async headers<TRequest, TResponse extends SnapResponse>(
+    merchant: MerchantContext,
+    endpoint: DanaEndpoint<TRequest, TResponse>,
+    body: TRequest,
+    options: DanaCallOptions,
+  ): Promise<Record<string, string>> {
+    const timestamp = this.signatureService.getTimestamp();
+    const signature = this.signatureService.generateSignature(
+      this.signatureService.prepareSignatureData(
+        'POST',
+        endpoint.path,
+        JSON.stringify(body),
+        timestamp,
+      ),
+      merchant.privateKey,
+    );
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-TIMESTAMP': timestamp,
+      'X-SIGNATURE': signature,
+      'X-PARTNER-ID': merchant.clientId,
+      'X-EXTERNAL-ID': options.externalId || crypto.randomUUID(),
+      'CHANNEL-ID': merchant.channelId,
+    };
+    if (endpoint.bearer) {
+      const token = await this.tokenProvider.getToken(merchant);
+      headers[endpoint.bearer] = `Bearer ${token.accessToken}`;
+    }
+    if (options.customerToken) {
+      headers['Authorization-Customer'] = `Bearer ${options.customerToken}`;
+    }
+    return headers;
+  }
+}
@@ -0,0 +1,53 @@
+import { Controller, Get, HttpStatus, Query, Res } from '@nestjs/common';
+import { CustomerBindingStatus } from '@prisma/client';
+import { Response } from 'express';
+
+import { BindingCallbackQueryDto, BindingResultDto } from './dana.dto';
+import { DanaBindingService } from './dana.binding.service';
+
+const OUTCOMES: Partial<Record<CustomerBindingStatus, string>> = {
+  [CustomerBindingStatus.BOUND]: 'DANA account linked',
+};
+
+/**
+ * Where DANA's OAuth page sends buyers back to. Browsers carry no API key,
+ * the single-use state ties them to the binding.
+ */
+@Controller('dana/bindings')
+export class DanaBindingCallbackController {
+  constructor(private readonly bindingService: DanaBindingService) {}
+
+  /**
+   * Exchange the auth code, then redirect to the binding's redirectUrl with
+   * customerId and status appended, or show the outcome
+   */
+  @Get('callback')
+  async callback(
+    @Query() query: BindingCallbackQueryDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const result = await this.bindingService.completeBinding(query);
+    res.set('Cache-Control', 'no-store');
+    if (result.redirectUrl) {
+      const url = new URL(result.redirectUrl);
+      url.searchParams.set('customerId', result.customerId);
+      url.searchParams.set('status', result.status);
+      res.redirect(HttpStatus.SEE_OTHER, url.toString());
+      return;
+    }
+    res.type('html').send(this.page(result));
+  }
+
+  private page(result: BindingResultDto): string {
+    const outcome = OUTCOMES[result.status] || 'DANA account was not linked';
+    return [
+      '<!DOCTYPE html>',
+      '<html><head><meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      `<title>${outcome}</title></head>`,
+      `<body><h1>${outcome}</h1>`,
+      '<p>You can close this page.</p>',
+      '</body></html>',
+    ].join('\n');
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+
+import { MerchantGuard } from '../../guards/merchant.guard';
+import { CurrentMerchant } from '../../decorators/current.merchant.decorator';
+import { MerchantContext } from '../merchant/merchant.interface';
+import { DanaBindingService } from './dana.binding.service';
+import {
+  BalanceResponseDto,
+  BindingUrlDto,
+  CustomerBindingDto,
+  StartBindingDto,
+} from './dana.dto';
+
+/**
+ * DANA accounts of a merchant's buyers, keyed by the merchant's customer id
+ */
+@Controller('dana/customers')
+@UseGuards(MerchantGuard)
+export class DanaBindingController {
+  constructor(private readonly bindingService: DanaBindingService) {}
+
+  /**
+   * Start binding, the buyer opens authUrl and agrees on DANA's page
+   */
+  @Post(':customerId/binding')
+  async startBinding(
+    @Param('customerId') customerId: string,
+    @Body() payload: StartBindingDto,
+    @CurrentMerchant() merchant: MerchantContext,
+  ): Promise<BindingUrlDto> {
+    return await this.bindingService.startBinding(
+      merchant,
+      customerId,
+      payload,
+    );
+  }
+
+  @Get(':customerId/binding')
+  async getBinding(
+    @Param('customerId') customerId: string,
+    @CurrentMerchant() merchant: MerchantContext,
+  ): Promise<CustomerBindingDto> {
+    return await this.bindingService.getBinding(merchant, customerId);
+  }
+
+  /**
+   * Unbind at DANA and drop the stored customer tokens
+   */
+  @Delete(':customerId/binding')
+  async unbind(
+    @Param('customerId') customerId: string,
+    @CurrentMerchant() merchant: MerchantContext,
+  ): Promise<CustomerBindingDto> {
+    return await this.bindingService.unbind(merchant, customerId);
+  }
+
+  /**
+   * Live DANA balance of a bound account
+   */
+  @Get(':customerId/balance')
+  async getBalance(
+    @Param('customerId') customerId: string,
+    @CurrentMerchant() merchant: MerchantContext,
+  ): Promise<BalanceResponseDto> {
+    return await this.bindingService.getBalance(merchant, customerId);
+  }
+}
@@ -0,0 +1,407 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { CustomerBindingStatus } from '@prisma/client';
+import { of, throwError } from 'rxjs';
+import * as crypto from 'crypto';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { MerchantContext } from '../merchant/merchant.interface';
+import { MerchantService } from '../merchant/merchant.service';
+import { CustomerTokenExpiredException } from '../../exceptions/customer.token.expired.exception';
+import { danaConfig } from './dana.config';
+import { DanaApiClient } from './dana.api.client';
+import { DanaBindingService } from './dana.binding.service';
+import { DanaResilience } from './dana.resilience';
+
+jest.mock('../../shared/utils/encryption', () => ({
+  encrypt: (value: string) => `enc:${value}`,
+  decrypt: (value: string) => value.replace(/^enc:/, ''),
+}));
+
+describe('DanaBindingService', () => {
+  const { privateKey } = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'der' },
+    publicKeyEncoding: { type: 'spki', format: 'der' },
+  });
+  const merchant = {
+    id: 'merchant-1',
+    merchantId: '216620000000000000000',
+    clientId: 'client-a',
+    channelId: '11111',
+    tokenChannelId: '95221',
+    privateKey: privateKey.toString('base64'),
+  } as MerchantContext;
+  const config = {
+    baseUrl: 'https://dana.test',
+    oauthUrl: 'https://m.dana.test',
+    oauthScopes: ['CASHIER', 'QUERY_BALANCE'],
+    publicUrl: 'https://pay.example.com',
+    tokenRefreshAheadSeconds: 60,
+    retryAttempts: 1,
+    circuitFailureThreshold: 5,
+    circuitResetSeconds: 30,
+  } as ConfigType<typeof danaConfig>;
+  const now = new Date('2026-01-01T00:00:00Z');
+  const hash = (value: string) =>
+    crypto.createHash('sha256').update(value).digest('hex');
+
+  let bindings: Record<string, jest.Mock>;
+  let post: jest.Mock;
+  let call: jest.Mock;
+  let service: DanaBindingService;
+
+  const pending = (state: string, overrides = {}) => ({
+    id: 'binding-1',
+    merchantId: merchant.id,
+    customerId: 'user-42',
+    status: CustomerBindingStatus.PENDING,
+    stateHash: hash(state),
+    stateExpiresAt: new Date(now.getTime() + 60000),
+    nonceHash: hash('nonce-1'),
+    redirectUrl: 'https://app.example.com/linked',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    bindings = {
+      findUnique: jest.fn().mockResolvedValue(null),
+      upsert: jest.fn().mockResolvedValue({}),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      update: jest
+        .fn()
+        .mockImplementation(({ data }) => Promise.resolve({ ...data })),
+    };
+    post = jest.fn();
+    call = jest.fn().mockResolvedValue({ responseCode: '2000900' });
+    service = new DanaBindingService(
+      config,
+      { post } as unknown as HttpService,
+      {
+        customerBinding: bindings,
+        $transaction: (run: (tx: any) => Promise<unknown>) =>
+          run({ customerBinding: bindings, $executeRaw: jest.fn() }),
+      } as unknown as PrismaService,
+      new DanaResilience(config),
+      { call } as unknown as DanaApiClient,
+      {
+        getContext: jest.fn().mockResolvedValue(merchant),
+      } as unknown as MerchantService,
+    );
+  });
+
+  describe('startBinding', () => {
+    it('should build the OAuth page and store only a hash of the state', async () => {
+      const result = await service.startBinding(
+        merchant,
+        'user-42',
+        {
+          redirectUrl: 'https://app.example.com/linked',
+          mobileNumber: '0811234567',
+        },
+        now,
+      );
+
+      const url = new URL(result.authUrl);
+      expect(url.origin + url.pathname).toBe(
+        'https://m.dana.test/v1.0/get-auth-code',
+      );
+      expect(url.searchParams.get('partnerId')).toBe('client-a');
+      expect(url.searchParams.get('scopes')).toBe('CASHIER,QUERY_BALANCE');
+      const nonce = url.searchParams.get('nonce');
+      expect(url.searchParams.get('redirectUrl')).toBe(
+        `https://pay.example.com/api/v1/dana/bindings/callback?nonce=${nonce}`,
+      );
+      expect(url.searchParams.get('seamlessData')).toBe(
+        '{"mobileNumber":"0811234567"}',
+      );
+      expect(url.searchParams.get('seamlessSign')).toBeTruthy();
+      expect(result.expiresAt).toEqual(new Date('2026-01-01T00:10:00Z'));
+
+      const stored = bindings.upsert.mock.calls[0][0].create;
+      expect(stored.stateHash).toBe(hash(url.searchParams.get('state')));
+      expect(stored.nonceHash).toBe(hash(nonce));
+      expect(nonce).not.toBe(url.searchParams.get('state'));
+      expect(stored.status).toBe(CustomerBindingStatus.PENDING);
+    });
+
+    it('should refuse a customer that is already bound', async () => {
+      bindings.findUnique.mockResolvedValue({
+        status: CustomerBindingStatus.BOUND,
+      });
+      await expect(
+        service.startBinding(merchant, 'user-42', {}, now),
+      ).rejects.toBeInstanceOf(ConflictException);
+    });
+  });
+
+  describe('completeBinding', () => {
+    it('should exchange the auth code and store encrypted tokens', async () => {
+      bindings.findUnique.mockResolvedValue(pending('state-1'));
+      post.mockReturnValue(
+        of({
+          data: {
+            responseCode: '2007400',
+            accessToken: 'customer-access',
+            accessTokenExpiryTime: '2026-01-02T00:00:00+07:00',
+            refreshToken: 'customer-refresh',
+            refreshTokenExpiryTime: '2026-02-01T00:00:00+07:00',
+          },
+        }),
+      );
+
+      const result = await service.completeBinding(
+        { authCode: 'code-1', state: 'state-1', nonce: 'nonce-1' },
+        now,
+      );
+
+      expect(result).toEqual({
+        customerId: 'user-42',
+        status: CustomerBindingStatus.BOUND,
+        redirectUrl: 'https://app.example.com/linked',
+      });
+      expect(post.mock.calls[0][1]).toEqual({
+        grantType: 'AUTHORIZATION_CODE',
+        authCode: 'code-1',
+        additionalInfo: {},
+      });
+      const { data } = bindings.update.mock.calls[0][0];
+      expect(data.accessToken).toBe('enc:customer-access');
+      expect(data.refreshToken).toBe('enc:customer-refresh');
+      expect(data.accessTokenExpiresAt).toEqual(
+        new Date('2026-01-01T17:00:00Z'),
+      );
+    });
+
+    it('should refuse a state that is unknown or already used', async () => {
+      await expect(
+        service.completeBinding({ authCode: 'code-1', state: 'forged' }, now),
+      ).rejects.toBeInstanceOf(NotFoundException);
+
+      bindings.findUnique.mockResolvedValue(pending('state-1'));
+      bindings.updateMany.mockResolvedValue({ count: 0 });
+      await expect(
+        service.completeBinding(
+          { authCode: 'code-1', state: 'state-1', nonce: 'nonce-1' },
+          now,
+        ),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(post).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['another', 'nonce-2'],
+      ['no', undefined],
+    ])(
+      'should use up the state of a callback with %s nonce without exchanging the code',
+      async (_, nonce) => {
+        bindings.findUnique.mockResolvedValue(pending('state-1'));
+
+        const result = await service.completeBinding(
+          { authCode: 'code-1', state: 'state-1', nonce },
+          now,
+        );
+
+        expect(result.status).toBe(CustomerBindingStatus.FAILED);
+        expect(bindings.updateMany).toHaveBeenCalledWith({
+          where: { id: 'binding-1', stateHash: hash('state-1') },
+          data: { stateHash: null, stateExpiresAt: null, nonceHash: null },
+        });
+        expect(post).not.toHaveBeenCalled();
+      },
+    );
+
+    it('should fail an expired state without exchanging the code', async () => {
+      bindings.findUnique.mockResolvedValue(
+        pending('state-1', { stateExpiresAt: now }),
+      );
+
+      const result = await service.completeBinding(
+        { authCode: 'code-1', state: 'state-1', nonce: 'nonce-1' },
+        now,
+      );
+
+      expect(result.status).toBe(CustomerBindingStatus.FAILED);
+      expect(post).not.toHaveBeenCalled();
+    });
+
+    it('should fail the binding when DANA refuses the auth code', async () => {
+      bindings.findUnique.mockResolvedValue(pending('state-1'));
+      post.mockReturnValue(
+        throwError(() => ({
+          response: {
+            status: 401,
+            data: { responseCode: '4017400', responseMessage: 'Unauthorized' },
+          },
+        })),
+      );
+
+      const result = await service.completeBinding(
+        { authCode: 'code-1', state: 'state-1', nonce: 'nonce-1' },
+        now,
+      );
+
+      expect(result.status).toBe(CustomerBindingStatus.FAILED);
+      expect(bindings.update.mock.calls[0][0].data).toEqual({
+        status: CustomerBindingStatus.FAILED,
+      });
+    });
+  });
+
+  describe('customer tokens', () => {
+    const bound = (overrides = {}) => ({
+      id: 'binding-1',
+      customerId: 'user-42',
+      status: CustomerBindingStatus.BOUND,
+      accessToken: 'enc:customer-access',
+      accessTokenExpiresAt: new Date(Date.now() + 3600000),
+      refreshToken: 'enc:customer-refresh',
+      refreshTokenExpiresAt: new Date(Date.now() + 86400000),
+      ...overrides,
+    });
+    const refreshed = of({
+      data: {
+        responseCode: '2007400',
+        accessToken: 'customer-access-2',
+        accessTokenExpiryTime: new Date(Date.now() + 3600000).toISOString(),
+        refreshToken: 'customer-refresh-2',
+      },
+    });
+
+    it('should use a fresh customer token as it is', async () => {
+      bindings.findUnique.mockResolvedValue(bound());
+      const run = jest.fn().mockResolvedValue('done');
+
+      await service.withCustomerToken(merchant, 'user-42', run);
+
+      expect(run).toHaveBeenCalledWith('customer-access');
+      expect(post).not.toHaveBeenCalled();
+    });
+
+    it('should refresh a token about to expire', async () => {
+      bindings.findUnique.mockResolvedValue(
+        bound({ accessTokenExpiresAt: new Date(Date.now() + 30000) }),
+      );
+      post.mockReturnValue(refreshed);
+      const run = jest.fn().mockResolvedValue('done');
+
+      await service.withCustomerToken(merchant, 'user-42', run);
+
+      expect(post.mock.calls[0][1]).toEqual({
+        grantType: 'REFRESH_TOKEN',
+        refreshToken: 'customer-refresh',
+        additionalInfo: {},
+      });
+      expect(bindings.update.mock.calls[0][0].data).toMatchObject({
+        accessToken: 'enc:customer-access-2',
+        refreshToken: 'enc:customer-refresh-2',
+      });
+      expect(run).toHaveBeenCalledWith('customer-access-2');
+    });
+
+    it('should refresh and retry once when DANA refuses the token', async () => {
+      bindings.findUnique.mockResolvedValue(bound());
+      post.mockReturnValue(refreshed);
+      const run = jest
+        .fn()
+        .mockRejectedValueOnce(
+          new CustomerTokenExpiredException('balance inquiry', 401),
+        )
+        .mockResolvedValueOnce('done');
+
+      await expect(
+        service.withCustomerToken(merchant, 'user-42', run),
+      ).resolves.toBe('done');
+      expect(run.mock.calls.map(([token]) => token)).toEqual([
+        'customer-access',
+        'customer-access-2',
+      ]);
+    });
+
+    it('should end the binding when DANA refuses the refresh token', async () => {
+      bindings.findUnique.mockResolvedValue(
+        bound({ accessTokenExpiresAt: new Date(0) }),
+      );
+      post.mockReturnValue(
+        throwError(() => ({
+          response: {
+            status: 401,
+            data: { responseCode: '4017400', responseMessage: 'Unauthorized' },
+          },
+        })),
+      );
+
+      await expect(
+        service.withCustomerToken(merchant, 'user-42', jest.fn()),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(bindings.update.mock.calls[0][0].data).toMatchObject({
+        status: CustomerBindingStatus.UNBOUND,
+        accessToken: null,
+        refreshToken: null,
+      });
+    });
+
+    it('should refuse customers without a bound account', async () => {
+      bindings.findUnique.mockResolvedValue(
+        bound({ status: CustomerBindingStatus.UNBOUND }),
+      );
+      await expect(
+        service.withCustomerToken(merchant, 'user-42', jest.fn()),
+      ).rejects.toBeInstanceOf(ConflictException);
+    });
+
+    it('should answer the balance of a bound account', async () => {
+      bindings.findUnique.mockResolvedValue(bound());
+      call.mockResolvedValue({
+        responseCode: '2001100',
+        accountInfos: [
+          {
+            balanceType: 'BALANCE',
+            amount: { value: '150000.00', currency: 'IDR' },
+            availableBalance: { value: '125000.00', currency: 'IDR' },
+          },
+        ],
+      });
+
+      const balance = await service.getBalance(merchant, 'user-42');
+
+      expect(call.mock.calls[0][3]).toEqual({
+        customerToken: 'customer-access',
+      });
+      expect(balance).toMatchObject({
+        customerId: 'user-42',
+        balance: '150000.00',
+        availableBalance: '125000.00',
+        currency: 'IDR',
+      });
+    });
+
+    it('should unbind at DANA with the customer token and drop it', async () => {
+      bindings.findUnique.mockResolvedValue(bound());
+
+      const result = await service.unbind(merchant, 'user-42', now);
+
+      expect(call.mock.calls[0][3]).toEqual({
+        customerToken: 'customer-access',
+      });
+      expect(result.status).toBe(CustomerBindingStatus.UNBOUND);
+      expect(bindings.update.mock.calls[0][0].data).toMatchObject({
+        accessToken: null,
+        refreshToken: null,
+        unboundAt: now,
+      });
+    });
+
+    it('should unbind locally when DANA no longer knows the account', async () => {
+      bindings.findUnique.mockResolvedValue(bound({ refreshToken: null }));
+      call.mockRejectedValue(
+        new CustomerTokenExpiredException('account unbinding', 401),
+      );
+
+      const result = await service.unbind(merchant, 'user-42', now);
+
+      expect(result.status).toBe(CustomerBindingStatus.UNBOUND);
+    });
+  });
+});
@@ -0,0 +1,645 @@
+import {
+  ConflictException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigType } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+import { CustomerBinding, CustomerBindingStatus } from '@prisma/client';
+import * as crypto from 'crypto';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { MerchantContext } from '../merchant/merchant.interface';
+import { MerchantService } from '../merchant/merchant.service';
+import { InvalidFormException } from '../../exceptions/invalid.form.exception';
+import { CustomerTokenExpiredException } from '../../exceptions/customer.token.expired.exception';
+import { DanaApiException } from '../../exceptions/dana.api.exception';
+import { decrypt, encrypt } from '../../shared/utils/encryption';
+import { API_PREFIX } from '../../shared/constants/global.constants';
+import { danaConfig } from './dana.config';
+import {
+  BalanceResponseDto,
+  BindingCallbackQueryDto,
+  BindingResultDto,
+  BindingUrlDto,
+  CUSTOMER_ID_REGEX,
+  CustomerBindingDto,
+  StartBindingDto,
+} from './dana.dto';
+import { CustomerTokenRequest, CustomerTokenResponse } from './dana.interface';
+import { DanaApiClient } from './dana.api.client';
+import { DANA_ENDPOINTS } from './dana.endpoints';
+import { DanaResilience } from './dana.resilience';
+import { DanaSignatureService } from './dana.signature';
+import { fromHttpError, toDanaException } from './dana.response.codes';
+
+export interface DanaCustomerToken {
+  accessToken: string;
+  accessTokenExpiresAt: Date;
+  refreshToken: string | null;
+  refreshTokenExpiresAt: Date | null;
+}
+
+export const BINDING_CALLBACK_PATH = '/dana/bindings/callback';
+
+const BINDING_STATE_MINUTES = 10;
+const CUSTOMER_TOKEN_PATH = '/v1.0/access-token/b2b2c.htm';
+const CUSTOMER_TOKEN_ENDPOINT = 'customer token';
+const CUSTOMER_TOKEN_TIMEOUT_MS = 10000;
+
+/**
+ * Links buyers' DANA accounts to a merchant. The buyer agrees on DANA's OAuth
+ * page, DANA sends the browser back with an auth code and our single-use
+ * state and nonce, and the code is exchanged for customer tokens stored encrypted per
+ * merchant and customerId. Customer tokens are refreshed like B2B tokens,
+ * tokenRefreshAheadSeconds ahead and once more when DANA refuses one; an
+ * advisory lock keeps instances from spending a refresh token twice.
+ */
+@Injectable()
+export class DanaBindingService {
+  private readonly logger = new Logger(DanaBindingService.name);
+  private signatureService = new DanaSignatureService();
+  private readonly refreshes = new Map<string, Promise<string>>();
+
+  constructor(
+    @Inject(danaConfig.KEY)
+    private readonly config: ConfigType<typeof danaConfig>,
+    private readonly httpService: HttpService,
+    private readonly prisma: PrismaService,
+    private readonly resilience: DanaResilience,
+    private readonly danaApiClient: DanaApiClient,
+    private readonly merchantService: MerchantService,
+  ) {}
+
+  /**
+   * Open a binding and build the DANA page the buyer agrees on. Asking
+   * again before the callback replaces the previous state and nonce.
+   */
+  async startBinding(
+    merchant: MerchantContext,
+    customerId: string,
+    payload: StartBindingDto,
+    now: Date = new Date(),
+  ): Promise<BindingUrlDto> {
+    this.assertCustomerId(customerId);
+    const callbackUrl = this.callbackUrl();
+    const existing = await this.find(merchant, customerId);
+    if (existing?.status === CustomerBindingStatus.BOUND) {
+      throw new ConflictException(
+        `Customer ${customerId} is already bound, unbind first`,
+      );
+    }
+
+    const state = crypto.randomBytes(32).toString('base64url');
+    const nonce = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(
+      now.getTime() + BINDING_STATE_MINUTES * 60 * 1000,
+    );
+    const data = {
+      status: CustomerBindingStatus.PENDING,
+      stateHash: this.hash(state),
+      stateExpiresAt: expiresAt,
+      nonceHash: this.hash(nonce),
+      redirectUrl: payload.redirectUrl || null,
+      ...this.withoutTokens(),
+    };
+    await this.prisma.customerBinding.upsert({
+      where: { merchantId_customerId: { merchantId: merchant.id, customerId } },
+      create: { ...data, merchantId: merchant.id, customerId },
+      update: data,
+    });
+
+    return {
+      customerId,
+      status: CustomerBindingStatus.PENDING,
+      authUrl: this.authUrl(
+        merchant,
+        callbackUrl,
+        state,
+        nonce,
+        payload.mobileNumber,
+        now,
+      ),
+      expiresAt,
+    };
+  }
+
+  /**
+   * Where DANA sends the buyer back to. The state is used up before the auth
+   * code is exchanged; a nonce other than the one of the auth URL, or a
+   * refused or failed exchange, leaves the binding FAILED.
+   */
+  async completeBinding(
+    query: BindingCallbackQueryDto,
+    now: Date = new Date(),
+  ): Promise<BindingResultDto> {
+    const stateHash = this.hash(query.state || '');
+    const binding = await this.prisma.customerBinding.findUnique({
+      where: { stateHash },
+    });
+    const claimed =
+      binding?.status === CustomerBindingStatus.PENDING &&
+      (
+        await this.prisma.customerBinding.updateMany({
+          where: { id: binding.id, stateHash },
+          data: { stateHash: null, stateExpiresAt: null, nonceHash: null },
+        })
+      ).count === 1;
+    if (!claimed) {
+      throw new NotFoundException('Unknown or already used binding state');
+    }
+
+    const result = (status: CustomerBindingStatus): BindingResultDto => ({
+      customerId: binding.customerId,
+      status,
+      redirectUrl: binding.redirectUrl,
+    });
+    const fail = async (reason: string) => {
+      this.logger.warn(`Binding of ${binding.customerId} failed: ${reason}`);
+      await this.prisma.customerBinding.update({
+        where: { id: binding.id },
+        data: { status: CustomerBindingStatus.FAILED },
+      });
+      return result(CustomerBindingStatus.FAILED);
+    };
+
+    if (
+      !binding.nonceHash ||
+      binding.nonceHash !== this.hash(query.nonce || '')
+    ) {
+      return fail('nonce mismatch');
+    }
+    if (binding.stateExpiresAt.getTime() <= now.getTime()) {
+      return fail('state expired');
+    }
+    if (!query.authCode) {
+      return fail('no auth code, the buyer did not agree');
+    }
+
+    let token: DanaCustomerToken;
+    try {
+      const merchant = await this.merchantService.getContext(
+        binding.merchantId,
+      );
+      token = await this.requestCustomerToken(merchant, {
+        grantType: 'AUTHORIZATION_CODE',
+        authCode: query.authCode,
+        additionalInfo: {},
+      });
+    } catch (error) {
+      return fail(error.message);
+    }
+
+    await this.prisma.customerBinding.update({
+      where: { id: binding.id },
+      data: {
+        status: CustomerBindingStatus.BOUND,
+        ...this.encryptTokens(token),
+        boundAt: now,
+        unboundAt: null,
+      },
+    });
+    this.logger.log(`Bound DANA account of customer ${binding.customerId}`);
+    return result(CustomerBindingStatus.BOUND);
+  }
+
+  async getBinding(
+    merchant: MerchantContext,
+    customerId: string,
+  ): Promise<CustomerBindingDto> {
+    const binding = await this.find(merchant, customerId);
+    if (!binding) {
+      throw new NotFoundException(`No binding for customer ${customerId}`);
+    }
+    return this.toDto(binding);
+  }
+
+  /**
+   * Unbind the account at DANA and forget its tokens. A customer token DANA
+   * no longer accepts means the account is unbound there already.
+   */
+  async unbind(
+    merchant: MerchantContext,
+    customerId: string,
+    now: Date = new Date(),
+  ): Promise<CustomerBindingDto> {
+    const binding = await this.find(merchant, customerId);
+    if (!binding) {
+      throw new NotFoundException(`No binding for customer ${customerId}`);
+    }
+    if (binding.status === CustomerBindingStatus.UNBOUND) {
+      return this.toDto(binding);
+    }
+
+    if (binding.status === CustomerBindingStatus.BOUND) {
+      try {
+        await this.withCustomerToken(merchant, customerId, (customerToken) =>
+          this.danaApiClient.call(
+            merchant,
+            DANA_ENDPOINTS.accountUnbinding,
+            { merchantId: merchant.merchantId, additionalInfo: {} },
+            { customerToken },
+          ),
+        );
+      } catch (error) {
+        // refused or unrefreshable tokens, DANA dropped the account already
+        if (
+          !(error instanceof CustomerTokenExpiredException) &&
+          !(error instanceof ConflictException)
+        ) {
+          throw error;
+        }
+      }
+    }
+
+    const unbound = await this.prisma.customerBinding.update({
+      where: { id: binding.id },
+      data: {
+        status: CustomerBindingStatus.UNBOUND,
+        stateHash: null,
+        stateExpiresAt: null,
+        nonceHash: null,
+        ...this.withoutTokens(),
+        unboundAt: now,
+      },
+    });
+    this.logger.log(`Unbound DANA account of customer ${customerId}`);
+    return this.toDto(unbound);
+  }
+
+  /**
+   * DANA balance of a bound account, asked for on every call
+   */
+  async getBalance(
+    merchant: MerchantContext,
+    customerId: string,
+  ): Promise<BalanceResponseDto> {
+    const response = await this.withCustomerToken(
+      merchant,
+      customerId,
+      (customerToken) =>
+        this.danaApiClient.call(
+          merchant,
+          DANA_ENDPOINTS.balanceInquiry,
+          {
+            partnerReferenceNo: crypto.randomUUID(),
+            balanceTypes: ['BALANCE'],
+            additionalInfo: {},
+          },
+          { customerToken },
+        ),
+    );
+    const account =
+      response.accountInfos?.find((info) => info.balanceType === 'BALANCE') ||
+      response.accountInfos?.[0];
+    if (!account?.amount) {
+      throw new DanaApiException(
+        DANA_ENDPOINTS.balanceInquiry.name,
+        HttpStatus.BAD_GATEWAY,
+        response,
+        'DANA balance inquiry returned no balance',
+      );
+    }
+    return {
+      customerId,
+      balance: account.amount.value,
+      availableBalance: (account.availableBalance || account.amount).value,
+      currency: account.amount.currency,
+      fetchedAt: new Date(),
+    };
+  }
+
+  /**
+   * Fail before an order is created for a customer we cannot charge
+   */
+  async assertBound(
+    merchant: MerchantContext,
+    customerId: string,
+  ): Promise<void> {
+    await this.findBound(merchant, customerId);
+  }
+
+  /**
+   * Run a DANA call with the customer token of a bound account. DANA refusing
+   * the token means it did nothing, so the call is repeated once with a
+   * refreshed one.
+   */
+  async withCustomerToken<T>(
+    merchant: MerchantContext,
+    customerId: string,
+    call: (customerToken: string) => Promise<T>,
+    now: number = Date.now(),
+  ): Promise<T> {
+    const binding = await this.findBound(merchant, customerId);
+    let token = this.isFresh(binding, now)
+      ? decrypt(binding.accessToken)
+      : await this.refresh(merchant, binding);
+    try {
+      return await call(token);
+    } catch (error) {
+      if (!(error instanceof CustomerTokenExpiredException)) {
+        throw error;
+      }
+      this.logger.warn(`Customer token of ${customerId} rejected, refreshing`);
+      token = await this.refresh(merchant, binding, token);
+      return call(token);
+    }
+  }
+
+  private refresh(
+    merchant: MerchantContext,
+    binding: CustomerBinding,
+    rejected?: string,
+  ): Promise<string> {
+    let pending = this.refreshes.get(binding.id);
+    if (!pending) {
+      pending = this.loadCustomerToken(merchant, binding, rejected).finally(
+        () => this.refreshes.delete(binding.id),
+      );
+      this.refreshes.set(binding.id, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Refresh under a lock, reusing a token another instance just stored. A
+   * refresh token DANA refuses, or one that expired, ends the binding.
+   */
+  private async loadCustomerToken(
+    merchant: MerchantContext,
+    binding: CustomerBinding,
+    rejected?: string,
+  ): Promise<string> {
+    let revoked: string | null = null;
+    try {
+      return await this.prisma.$transaction(
+        async (tx) => {
+          await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`dana-customer-token:${binding.id}`}))`;
+          const stored = await tx.customerBinding.findUnique({
+            where: { id: binding.id },
+          });
+          if (stored?.status !== CustomerBindingStatus.BOUND) {
+            throw this.notBound(binding.customerId);
+          }
+          const current = decrypt(stored.accessToken);
+          if (this.isFresh(stored) && current !== rejected) {
+            return current;
+          }
+          if (
+            !stored.refreshToken ||
+            stored.refreshTokenExpiresAt?.getTime() <= Date.now()
+          ) {
+            revoked = 'refresh token expired';
+            throw this.notBound(binding.customerId);
+          }
+
+          let token: DanaCustomerToken;
+          try {
+            token = await this.requestCustomerToken(merchant, {
+              grantType: 'REFRESH_TOKEN',
+              refreshToken: decrypt(stored.refreshToken),
+              additionalInfo: {},
+            });
+          } catch (error) {
+            if (
+              error instanceof DanaApiException &&
+              error.getDanaResponse() &&
+              error.getStatus() < HttpStatus.INTERNAL_SERVER_ERROR
+            ) {
+              revoked = error.message;
+            }
+            throw error;
+          }
+          await tx.customerBinding.update({
+            where: { id: binding.id },
+            data: this.encryptTokens(token),
+          });
+          this.logger.log(`Refreshed customer token of ${binding.customerId}`);
+          return token.accessToken;
+        },
+        {
+          maxWait: CUSTOMER_TOKEN_TIMEOUT_MS,
+          timeout: CUSTOMER_TOKEN_TIMEOUT_MS + 5000,
+        },
+      );
+    } catch (error) {
+      if (revoked === null) {
+        throw error;
+      }
+      this.logger.warn(
+        `DANA account of ${binding.customerId} is no longer usable: ${revoked}`,
+      );
+      await this.prisma.customerBinding.update({
+        where: { id: binding.id },
+        data: {
+          status: CustomerBindingStatus.UNBOUND,
+          ...this.withoutTokens(),
+          unboundAt: new Date(),
+        },
+      });
+      throw this.notBound(binding.customerId);
+    }
+  }
+
+  private async findBound(
+    merchant: MerchantContext,
+    customerId: string,
+  ): Promise<CustomerBinding> {
+    const binding = await this.find(merchant, customerId);
+    if (!binding) {
+      throw new NotFoundException(`No binding for customer ${customerId}`);
+    }
+    if (binding.status !== CustomerBindingStatus.BOUND) {
+      throw this.notBound(customerId);
+    }
+    return binding;
+  }
+
+  private notBound(customerId: string): ConflictException {
+    return new ConflictException(
+      `Customer ${customerId} has no bound DANA account, bind it first`,
+    );
+  }
+
+  private isFresh(binding: CustomerBinding, now: number = Date.now()): boolean {
+    const refreshAheadMs = this.config.tokenRefreshAheadSeconds * 1000;
+    return binding.accessTokenExpiresAt?.getTime() - now > refreshAheadMs;
+  }
+
+  private find(
+    merchant: MerchantContext,
+    customerId: string,
+  ): Promise<CustomerBinding | null> {
+    this.assertCustomerId(customerId);
+    return this.prisma.customerBinding.findUnique({
+      where: { merchantId_customerId: { merchantId: merchant.id, customerId } },
+    });
+  }
+
+  /**
+   * DANA's OAuth page, signed like SNAP calls. A mobile number is passed as
+   * seamlessData so the buyer does not have to type it. DANA hands back the
+   * state but not the nonce, so the nonce also rides on the callback URL.
+   */
+  private authUrl(
+    merchant: MerchantContext,
+    callbackUrl: string,
+    state: string,
+    nonce: string,
+    mobileNumber: string | undefined,
+    now: Date,
+  ): string {
+    const url = new URL(`${this.config.oauthUrl}/v1.0/get-auth-code`);
+    url.searchParams.set('partnerId', merchant.clientId);
+    url.searchParams.set('timestamp', this.signatureService.getTimestamp(now));
+    url.searchParams.set('externalId', crypto.randomUUID());
+    url.searchParams.set('channelId', merchant.channelId);
+    url.searchParams.set('scopes', this.config.oauthScopes.join(','));
+    const redirectUrl = new URL(callbackUrl);
+    redirectUrl.searchParams.set('nonce', nonce);
+    url.searchParams.set('redirectUrl', redirectUrl.toString());
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    if (mobileNumber) {
+      const seamlessData = JSON.stringify({ mobileNumber });
+      url.searchParams.set('seamlessData', seamlessData);
+      url.searchParams.set(
+        'seamlessSign',
+        this.signatureService.generateSignature(
+          seamlessData,
+          merchant.privateKey,
+        ),
+      );
+    }
+    return url.toString();
+  }
+
+  private callbackUrl(): string {
+    if (!this.config.publicUrl) {
+      throw new ServiceUnavailableException(
+        'Account binding needs DANA_PUBLIC_URL',
+      );
+    }
+    return `${this.config.publicUrl}${API_PREFIX}${BINDING_CALLBACK_PATH}`;
+  }
+
+  // auth codes are single use, a retry could only be refused
+  private requestCustomerToken(
+    merchant: MerchantContext,
+    body: CustomerTokenRequest,
+  ): Promise<DanaCustomerToken> {
+    return this.resilience.execute(CUSTOMER_TOKEN_ENDPOINT, () =>
+      this.fetchCustomerToken(merchant, body),
+    );
+  }
+
+  private async fetchCustomerToken(
+    merchant: MerchantContext,
+    body: CustomerTokenRequest,
+  ): Promise<DanaCustomerToken> {
+    const timestamp = this.signatureService.getTimestamp();
+    const signature = this.signatureService.generateSignature(
+      `${merchant.clientId}|${timestamp}`,
+      merchant.privateKey,
+    );
+
+    let data: CustomerTokenResponse;
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post<CustomerTokenResponse>(
+          `${this.config.baseUrl}${CUSTOMER_TOKEN_PATH}`,
+          body,
+          {
+            headers: {
+              'Content-Type': 'application/json',
+              'X-CLIENT-KEY': merchant.clientId,
+              'X-SIGNATURE': signature,
+              'X-TIMESTAMP': timestamp,
+              'X-EXTERNAL-ID': crypto.randomUUID(),
+              'CHANNEL-ID': merchant.tokenChannelId,
+            },
+            timeout: CUSTOMER_TOKEN_TIMEOUT_MS,
+          },
+        ),
+      );
+      data = response.data;
+    } catch (error) {
+      throw fromHttpError(CUSTOMER_TOKEN_ENDPOINT, error);
+    }
+
+    const accessTokenExpiresAt = this.expiry(data?.accessTokenExpiryTime);
+    if (
+      !data?.accessToken ||
+      !accessTokenExpiresAt ||
+      (data.responseCode && !data.responseCode.startsWith('200'))
+    ) {
+      throw toDanaException(
+        CUSTOMER_TOKEN_ENDPOINT,
+        data && typeof data === 'object' ? data : undefined,
+        undefined,
+        `Invalid DANA customer token response: ${JSON.stringify(data)}`,
+      );
+    }
+    return {
+      accessToken: data.accessToken,
+      accessTokenExpiresAt,
+      refreshToken: data.refreshToken || null,
+      refreshTokenExpiresAt: this.expiry(data.refreshTokenExpiryTime),
+    };
+  }
+
+  private expiry(value?: string): Date | null {
+    const date = value ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? date : null;
+  }
+
+  private encryptTokens(token: DanaCustomerToken) {
+    return {
+      accessToken: encrypt(token.accessToken),
+      accessTokenExpiresAt: token.accessTokenExpiresAt,
+      refreshToken: token.refreshToken && encrypt(token.refreshToken),
+      refreshTokenExpiresAt: token.refreshTokenExpiresAt,
+    };
+  }
+
+  private withoutTokens() {
+    return {
+      accessToken: null,
+      accessTokenExpiresAt: null,
+      refreshToken: null,
+      refreshTokenExpiresAt: null,
+    };
+  }
+
+  private assertCustomerId(customerId: string) {
+    if (!CUSTOMER_ID_REGEX.test(customerId)) {
+      throw new InvalidFormException(
+        {
+          customerId:
+            'customerId must be 1-64 letters, digits or one of _ . @ + -',
+        },
+        'Invalid customer',
+      );
+    }
+  }
+
+  private hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+
+  private toDto(binding: CustomerBinding): CustomerBindingDto {
+    return {
+      customerId: binding.customerId,
+      status: binding.status,
+      boundAt: binding.boundAt,
+      unboundAt: binding.unboundAt,
+      accessTokenExpiresAt: binding.accessTokenExpiresAt,
+      refreshTokenExpiresAt: binding.refreshTokenExpiresAt,
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import { Controller, Get, HttpStatus, Param, Res } from '@nestjs/common';
+import { OrderStatus } from '@prisma/client';
+import { Response } from 'express';
+
+import { CheckoutResultDto } from './dana.dto';
+import { DanaService } from './dana.service';
+
+const OUTCOMES: Partial<Record<OrderStatus, string>> = {
+  [OrderStatus.PAID]: 'Payment received',
+  [OrderStatus.INIT]: 'Payment is being processed',
+  [OrderStatus.PENDING]: 'Payment is being processed',
+};
+
+/**
+ * Where DANA's cashier sends buyers back to. Browsers carry no API key, the
+ * order reference is all they have.
+ */
+@Controller('dana/checkout')
+export class DanaCheckoutController {
+  constructor(private readonly danaService: DanaService) {}
+
+  /**
+   * Verify the order with DANA, then redirect to its returnUrl with
+   * partnerReferenceNo and status appended, or show the outcome
+   */
+  @Get('return/:partnerReferenceNo')
+  async checkoutReturn(
+    @Param('partnerReferenceNo') partnerReferenceNo: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    const result = await this.danaService.checkoutReturn(partnerReferenceNo);
+    res.set('Cache-Control', 'no-store');
+    if (result.returnUrl) {
+      const url = new URL(result.returnUrl);
+      url.searchParams.set('partnerReferenceNo', result.partnerReferenceNo);
+      url.searchParams.set('status', result.status);
+      res.redirect(HttpStatus.SEE_OTHER, url.toString());
+      return;
+    }
+    res.type('html').send(this.page(result));
+  }
+
+  private page(result: CheckoutResultDto): string {
+    const outcome = OUTCOMES[result.status] || 'Payment was not completed';
+    return [
+      '<!DOCTYPE html>',
+      '<html><head><meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      `<title>${outcome}</title></head>`,
+      `<body><h1>${outcome}</h1>`,
+      `<p>Order ${this.escape(result.partnerReferenceNo)}: ${result.status}</p>`,
+      '</body></html>',
+    ].join('\n');
+  }
+
+  private escape(value: string): string {
+    return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+  }
+}
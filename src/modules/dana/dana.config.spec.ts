@@ -0,0 +1,173 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { DANA_BASE_URLS } from '../../shared/constants/dana.constants';
+import { danaConfig } from './dana.config';
+
+describe('danaConfig', () => {
+  const keyPair = () =>
+    crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const ours = keyPair();
+  const dana = keyPair();
+  const base64 = (key: crypto.KeyObject) =>
+    key
+      .export(
+        key.type === 'private'
+          ? { format: 'der', type: 'pkcs8' }
+          : { format: 'der', type: 'spki' },
+      )
+      .toString('base64');
+  const saved = process.env;
+
+  const load = () => danaConfig();
+  const errorOf = () => {
+    try {
+      load();
+    } catch (error) {
+      return error.message as string;
+    }
+    throw new Error('configuration was accepted');
+  };
+
+  beforeEach(() => {
+    process.env = {
+      DANA_MERCHANT_ID: '216620000000000000000',
+      DANA_CLIENT_ID: 'client-a',
+      DANA_CLIENT_SECRET: 'secret-a',
+      DANA_PRIVATE_KEY: base64(ours.privateKey),
+      DANA_MERCHANT_PUBLIC_KEY: base64(ours.publicKey),
+      DANA_PUBLIC_KEY: base64(dana.publicKey),
+    };
+  });
+
+  afterAll(() => {
+    process.env = saved;
+  });
+
+  it('should fill in the defaults', () => {
+    expect(load()).toMatchObject({
+      environment: 'sandbox',
+      baseUrl: DANA_BASE_URLS.sandbox,
+      channelId: '11111',
+      tokenChannelId: '95221',
+      tokenStore: 'memory',
+      retryAttempts: 3,
+      orderValidityMinutes: 30,
+      webhookToleranceSeconds: 300,
+      publicUrl: undefined,
+    });
+  });
+
+  it('should read keys given as PEM or as a PEM file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dana-config-'));
+    const file = path.join(dir, 'private.pem');
+    fs.writeFileSync(
+      file,
+      ours.privateKey.export({ format: 'pem', type: 'pkcs1' }),
+    );
+    delete process.env.DANA_PRIVATE_KEY;
+    process.env.DANA_PRIVATE_KEY_FILE = file;
+    process.env.DANA_PUBLIC_KEY = dana.publicKey
+      .export({ format: 'pem', type: 'spki' })
+      .toString();
+
+    try {
+      expect(load()).toMatchObject({
+        privateKey: base64(ours.privateKey),
+        danaPublickKey: base64(dana.publicKey),
+      });
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+
+  it('should strip trailing slashes from URLs and split the scopes', () => {
+    process.env.DANA_PUBLIC_URL = 'https://pay.example.com/';
+    process.env.DANA_OAUTH_SCOPES = 'QUERY_BALANCE, ,DEFAULT_BASIC_PROFILE';
+
+    expect(load()).toMatchObject({
+      publicUrl: 'https://pay.example.com',
+      oauthScopes: ['QUERY_BALANCE', 'DEFAULT_BASIC_PROFILE'],
+    });
+  });
+
+  it('should list every missing value at once', () => {
+    process.env = {};
+
+    const message = errorOf();
+
+    [
+      'DANA_MERCHANT_ID is required',
+      'DANA_CLIENT_ID is required',
+      'DANA_CLIENT_SECRET is required',
+      'DANA_PRIVATE_KEY or DANA_PRIVATE_KEY_FILE is required',
+      'DANA_MERCHANT_PUBLIC_KEY or DANA_MERCHANT_PUBLIC_KEY_FILE is required',
+      'DANA_PUBLIC_KEY or DANA_PUBLIC_KEY_FILE is required',
+    ].forEach((error) => expect(message).toContain(error));
+  });
+
+  it.each([
+    ['DANA_ENV', 'staging', 'DANA_ENV must be one of sandbox,production'],
+    ['DANA_MERCHANT_ID', 'M-1', 'DANA_MERCHANT_ID must be numeric'],
+    [
+      'DANA_TOKEN_STORE',
+      'redis',
+      'DANA_TOKEN_STORE must be memory or postgres',
+    ],
+    [
+      'DANA_RETRY_ATTEMPTS',
+      '0',
+      'DANA_RETRY_ATTEMPTS must be a positive integer',
+    ],
+    [
+      'DANA_ORDER_VALIDITY_MINUTES',
+      '1.5',
+      'DANA_ORDER_VALIDITY_MINUTES must be a positive integer',
+    ],
+    [
+      'DANA_PUBLIC_URL',
+      'ftp://example.com',
+      'DANA_PUBLIC_URL must be an http(s) URL',
+    ],
+    [
+      'DANA_PAY_RETURN_URL',
+      'not a url',
+      'DANA_PAY_RETURN_URL must be an http(s) URL',
+    ],
+    [
+      'DANA_OAUTH_SCOPES',
+      ' , ',
+      'DANA_OAUTH_SCOPES must name at least one scope',
+    ],
+  ])('should reject %s=%s', (name, value, error) => {
+    process.env[name] = value;
+
+    expect(errorOf()).toContain(error);
+  });
+
+  it.each([
+    ['DANA_PRIVATE_KEY', 'private'],
+    ['DANA_PUBLIC_KEY', 'public'],
+  ])('should reject a malformed %s', (name, type) => {
+    process.env[name] = Buffer.from('not a key').toString('base64');
+
+    expect(errorOf()).toContain(`${name} is not a valid RSA ${type} key`);
+  });
+
+  it('should reject a key file it cannot read', () => {
+    delete process.env.DANA_PUBLIC_KEY;
+    process.env.DANA_PUBLIC_KEY_FILE = '/nonexistent/dana.pem';
+
+    expect(errorOf()).toContain('DANA_PUBLIC_KEY_FILE could not be read');
+  });
+
+  it('should reject a merchant public key that does not match the private key', () => {
+    process.env.DANA_MERCHANT_PUBLIC_KEY = base64(dana.publicKey);
+
+    expect(errorOf()).toContain(
+      'DANA_MERCHANT_PUBLIC_KEY does not match DANA_PRIVATE_KEY',
+    );
+  });
+});
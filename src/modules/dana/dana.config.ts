@@ -1,23 +1,184 @@
+import { registerAs } from '@nestjs/config';
+import * as fs from 'fs';
+
+import {
+  DANA_BASE_URLS,
+  DANA_DEFAULT_OAUTH_SCOPES,
+  DANA_OAUTH_URLS,
+} from '../../shared/constants/dana.constants';
+import {
+  isKeyPair,
+  normalizePrivateKey,
+  normalizePublicKey,
+} from './dana.keys';
+
 export interface DanaConfig {
+  environment: 'sandbox' | 'production';
   baseUrl: string;
   merchantId: string;
   clientId: string;
   clientSecret: string;
+  // our key pair, as base64 DER (spki / pkcs8)
   publicKey: string;
   privateKey: string;
+  // DANA's public key, verifies its notifications
   danaPublickKey: string;
+  // CHANNEL-ID header of SNAP calls and of the B2B token call
+  channelId: string;
+  tokenChannelId: string;
+  // memory keeps B2B tokens per instance, postgres shares them
+  tokenStore: 'memory' | 'postgres';
+  // renew a token this long before DANA expires it
+  tokenRefreshAheadSeconds: number;
+  // idempotent calls are tried this often, backing off from the base delay
+  retryAttempts: number;
+  retryBaseDelayMs: number;
+  // consecutive outages that open a circuit, and how long it stays open
+  circuitFailureThreshold: number;
+  circuitResetSeconds: number;
+  // default lifetime of orders and QR codes, overridable per request
+  orderValidityMinutes: number;
+  maxOrderValidityMinutes: number;
+  // consult-pay results are reused this long per merchant and amount
+  payMethodCacheSeconds: number;
+  // where browsers and DANA reach this service, enables the checkout landing
+  publicUrl?: string;
+  // PAY_RETURN and NOTIFICATION defaults of orders that do not send their own
+  payReturnUrl?: string;
+  notificationUrl?: string;
+  // DANA page buyers bind their account on, and the scopes they grant
+  oauthUrl: string;
+  oauthScopes: string[];
+  // how far X-TIMESTAMP of a DANA notification may drift from our clock
+  webhookToleranceSeconds: number;
 }
 
-export const danaConfig: DanaConfig = {
-  baseUrl: 'https://api.sandbox.dana.id',
-  // baseUrl: 'https://api.saas.dana.id',
-  merchantId: '216620050020037252184',
-  clientId: '2025052317421522687713',
-  clientSecret:
-    '29528c5e1171c0ea4f55b65fefd71951e187d79b3f2ae2188449eb7136b4c7f0',
-  publicKey:
-    'MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEAtU537T1teBY6fcQJmJ5Y0lnDNLHKB5AKypCFjiEitMDN3RrYaWTW2iUUMjN2GFW1MBbcKtb8wkhj6zCZGo/2gO4iJk1ox92clzioWqom64MflCOmyrvV7YWNBVCAF0amC+J9HJ6FnDJdyti2f/Ia2hP9NF++YYV5fwRWmYK5wBSzLFJyObNsVoMadNON/ZPIej132Z2/moTzAGv21/4PKmnIWUaKJ+SWEzPg+MfvG9Eq17ec/7KJGPYi4AbDIY5EgSM0JHzi+nOYOianfVJVYJi8lEjVNo8ugzFbLeeQ/lg55jUZHWZneT+qwedXOSSIPr/AdAZQRi3dbovf7ZjSKwIDAQAB',
-  privateKey:
-    'MIIEvQIBADANBgkqhkiG9w0BAQEFAASCBKcwggSjAgEAAoIBAQC1TnftPW14Fjp9xAmYnljSWcM0scoHkArKkIWOISK0wM3dGthpZNbaJRQyM3YYVbUwFtwq1vzCSGPrMJkaj/aA7iImTWjH3ZyXOKhaqibrgx+UI6bKu9XthY0FUIAXRqYL4n0cnoWcMl3K2LZ/8hraE/00X75hhXl/BFaZgrnAFLMsUnI5s2xWgxp00439k8h6PXfZnb+ahPMAa/bX/g8qachZRoon5JYTM+D4x+8b0SrXt5z/sokY9iLgBsMhjkSBIzQkfOL6c5g6Jqd9UlVgmLyUSNU2jy6DMVst55D+WDnmNRkdZmd5P6rB51c5JIg+v8B0BlBGLd1ui9/tmNIrAgMBAAECggEADRNkLc101CjSPhjB0mp1IHKN1AKQffwi8xn6L9Zu8NdI4Y3alrtJjYEIFFjGxxmDUD0N0t8faoma/y7Jk/NXBVRnTRjfGi7+6J8S8Tr9RJX31JC/qjZixtcPZRc5rbQQLKJAgKxkGXA+eG8ptk+JJTo01C6lhdYA/aqb7kVRzSrxzT4zenwqWu9q+nQHplLGPBm0lewsUjLZp8bH6Xpq2EOowxVA1YWWEtjByFfgXcUb0B48haOcmUDTstgHUqGG0/k+cY9kTYR1c5eyhsPHmvx+7X9xPxZyaZC9YMDR9rhazvjHYPm5EhfT/tkl9ygBGg3AAP69Wx2yhUvCH1iOzQKBgQDERSGDTr4y2/9TvPXt8j783NWyYRUUSccYYsdlWOCdqRxTWr+ujiuCdSZ9An/yhHG3D+R+Fsf5Zn93lm8Myxr3K8QrTMhYmem9b2PhiO1qYjke3iiinxEzhMhIC8R9qx0xkRe1dgWksu/O5kM7kq+k4s0Bv5WsX/uVbi+KvKX1jwKBgQDse5HYbiHWDrdYBEMDHaRwP8nSpwus8n0+6xJmbFRtmHT3nx5NHFBEQlZCZx7dqA5rneZsEkMhrEQVb+aCjKzoBaq7PPG5h9iwrYFBzLsEPwLd+c8hQhEq5mh7ZZzuCCvB0nFLnm+EhkwQCMAzktnxFhYcLSfMqhmaTU+OB4EjpQKBgCgiHrUz786Ej9Q2qm8qftjD62qbUW0hnPWOlUlTADMc9m7Q+qsd5SW7ANDFJxaXII2XUVi7Hc8Qt3Xjq/eIvI3YRDe6bqk3Z8VVtq3SiwGa7iUytkpyjljjiPS6e0ZbLBALpDZ12LeR41mCWjMfTo0/1z3JSDjEM7SdoFkVNDZfAoGBAN2vSR1WwKllykHcXOWC2C/R3GR4690IxJhCzVDupIbIsH2g0EsBC82xUiOVf73SWRJRRzxwMjZSwtBFwhUHwt8O0OoNS5zc2ClnvQ/t2DM2zn1APQe0Y1uP+soSi3YoeryLhmGY+HmHW658RZETTPNP/RIU0oZtvuqDJtzB9DFxAoGAGSBHPTH4gUtVHdE7qoU3cHm/UWeZPuVKR3vedmNn0J1wKN/HaxCljcWHAmBZ555Lm+2G5ulkU9VIQCAq95g9yKtHsTNHB0sLBk61u+dNBKRlzfbcXHK1N08V1SCwu4IM4QEkqewImO2WA7K4ub4EB+34uzMvTfc0LfM6DGRD7ug=',
-  danaPublickKey: `MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEAtU537T1teBY6fcQJmJ5Y0lnDNLHKB5AKypCFjiEitMDN3RrYaWTW2iUUMjN2GFW1MBbcKtb8wkhj6zCZGo/2gO4iJk1ox92clzioWqom64MflCOmyrvV7YWNBVCAF0amC+J9HJ6FnDJdyti2f/Ia2hP9NF++YYV5fwRWmYK5wBSzLFJyObNsVoMadNON/ZPIej132Z2/moTzAGv21/4PKmnIWUaKJ+SWEzPg+MfvG9Eq17ec/7KJGPYi4AbDIY5EgSM0JHzi+nOYOianfVJVYJi8lEjVNo8ugzFbLeeQ/lg55jUZHWZneT+qwedXOSSIPr/AdAZQRi3dbovf7ZjSKwIDAQAB`,
-};
+/**
+ * DANA credentials from the environment. Keys may be given inline (base64 DER
+ * or PEM) or as a path to a PEM file through the matching *_FILE variable.
+ * Anything missing or unparseable fails the boot.
+ */
+export const danaConfig = registerAs('dana', (): DanaConfig => {
+  const errors: string[] = [];
+  const environment = (process.env.DANA_ENV || 'sandbox') as
+    | 'sandbox'
+    | 'production';
+  if (!DANA_BASE_URLS[environment]) {
+    errors.push(`DANA_ENV must be one of ${Object.keys(DANA_BASE_URLS)}`);
+  }
+
+  const required = (name: string): string => {
+    const value = process.env[name]?.trim();
+    if (!value) {
+      errors.push(`${name} is required`);
+    }
+    return value;
+  };
+  const url = (name: string): string | undefined => {
+    const value = process.env[name]?.trim();
+    if (!value) {
+      return undefined;
+    }
+    if (!URL.canParse(value) || !/^https?:$/.test(new URL(value).protocol)) {
+      errors.push(`${name} must be an http(s) URL`);
+    }
+    return value.replace(/\/+$/, '');
+  };
+  const integer = (name: string, fallback: number): number => {
+    const value = process.env[name] ? Number(process.env[name]) : fallback;
+    if (!Number.isInteger(value) || value <= 0) {
+      errors.push(`${name} must be a positive integer`);
+    }
+    return value;
+  };
+
+  const config: DanaConfig = {
+    environment,
+    baseUrl: process.env.DANA_BASE_URL || DANA_BASE_URLS[environment],
+    merchantId: required('DANA_MERCHANT_ID'),
+    clientId: required('DANA_CLIENT_ID'),
+    clientSecret: required('DANA_CLIENT_SECRET'),
+    privateKey: readKey('DANA_PRIVATE_KEY', 'private', errors),
+    publicKey: readKey('DANA_MERCHANT_PUBLIC_KEY', 'public', errors),
+    danaPublickKey: readKey('DANA_PUBLIC_KEY', 'public', errors),
+    channelId: process.env.DANA_CHANNEL_ID || '11111',
+    tokenChannelId: process.env.DANA_TOKEN_CHANNEL_ID || '95221',
+    tokenStore: (process.env.DANA_TOKEN_STORE || 'memory') as
+      | 'memory'
+      | 'postgres',
+    tokenRefreshAheadSeconds: integer('DANA_TOKEN_REFRESH_AHEAD_SECONDS', 60),
+    retryAttempts: integer('DANA_RETRY_ATTEMPTS', 3),
+    retryBaseDelayMs: integer('DANA_RETRY_BASE_DELAY_MS', 200),
+    circuitFailureThreshold: integer('DANA_CIRCUIT_FAILURE_THRESHOLD', 5),
+    circuitResetSeconds: integer('DANA_CIRCUIT_RESET_SECONDS', 30),
+    orderValidityMinutes: integer('DANA_ORDER_VALIDITY_MINUTES', 30),
+    maxOrderValidityMinutes: integer('DANA_MAX_ORDER_VALIDITY_MINUTES', 1440),
+    payMethodCacheSeconds: integer('DANA_PAY_METHOD_CACHE_SECONDS', 300),
+    publicUrl: url('DANA_PUBLIC_URL'),
+    payReturnUrl: url('DANA_PAY_RETURN_URL'),
+    notificationUrl: url('DANA_NOTIFICATION_URL'),
+    oauthUrl: url('DANA_OAUTH_URL') || DANA_OAUTH_URLS[environment],
+    oauthScopes: process.env.DANA_OAUTH_SCOPES
+      ? process.env.DANA_OAUTH_SCOPES.split(',')
+          .map((scope) => scope.trim())
+          .filter(Boolean)
+      : DANA_DEFAULT_OAUTH_SCOPES,
+    webhookToleranceSeconds: integer('DANA_WEBHOOK_TOLERANCE_SECONDS', 300),
+  };
+
+  if (!['memory', 'postgres'].includes(config.tokenStore)) {
+    errors.push('DANA_TOKEN_STORE must be memory or postgres');
+  }
+  if (!config.oauthScopes.length) {
+    errors.push('DANA_OAUTH_SCOPES must name at least one scope');
+  }
+  if (config.merchantId && !/^\d+$/.test(config.merchantId)) {
+    errors.push('DANA_MERCHANT_ID must be numeric');
+  }
+  if (
+    config.privateKey &&
+    config.publicKey &&
+    !isKeyPair(config.privateKey, config.publicKey)
+  ) {
+    errors.push('DANA_MERCHANT_PUBLIC_KEY does not match DANA_PRIVATE_KEY');
+  }
+
+  if (errors.length) {
+    throw new Error(`Invalid DANA configuration:\n - ${errors.join('\n - ')}`);
+  }
+  return config;
+});
+
+/**
+ * Read a key from NAME or the PEM file at NAME_FILE and normalize it to the
+ * base64 DER form DanaSignatureService expects
+ */
+function readKey(
+  name: string,
+  type: 'private' | 'public',
+  errors: string[],
+): string {
+  let value = process.env[name]?.trim();
+  const file = process.env[`${name}_FILE`];
+  if (!value && file) {
+    try {
+      value = fs.readFileSync(file, 'utf8').trim();
+    } catch (error) {
+      errors.push(`${name}_FILE could not be read: ${error.message}`);
+      return undefined;
+    }
+  }
+  if (!value) {
+    errors.push(`${name} or ${name}_FILE is required`);
+    return undefined;
+  }
+
+  try {
+    return type === 'private'
+      ? normalizePrivateKey(value)
+      : normalizePublicKey(value);
+  } catch (error) {
+    errors.push(`${name} is not a valid RSA ${type} key: ${error.message}`);
+    return undefined;
+  }
+}
@@ -1,113 +1,180 @@
 import {
   Controller,
+  DefaultValuePipe,
+  Get,
+  Param,
+  ParseIntPipe,
   Post,
   Body,
   Headers,
-  RawBody,
-  HttpException,
-  HttpStatus,
   Logger,
+  Query,
+  Res,
+  StreamableFile,
+  UseGuards,
 } from '@nestjs/common';
-import { DanaSignatureService } from './dana.signature';
+import { Response } from 'express';
 import { DanaService } from './dana.service';
-import { AuthResponseDto, QrisPaymentDto } from './dana.dto';
+import {
+  AuthResponseDto,
+  CancelOrderDto,
+  ConsultPayDto,
+  CreateOrderDto,
+  DanaClientHeaders,
+  GenerateQrisDto,
+  PayMethodCatalogDto,
+  PayMethodsQueryDto,
+  PaymentStatusDto,
+  QrisPaymentDto,
+  RefundPaymentDto,
+  RefundResponseDto,
+} from './dana.dto';
+import { MerchantGuard } from '../../guards/merchant.guard';
+import { CurrentMerchant } from '../../decorators/current.merchant.decorator';
+import { MerchantContext } from '../merchant/merchant.interface';
+import { ConsultPayResponse } from './dana.interface';
+import {
+  QRIS_IMAGE_SIZES,
+  renderQrisPng,
+  renderQrisSvg,
+} from '../qris/qris.renderer';
 
 @Controller('dana')
+@UseGuards(MerchantGuard)
 export class DanaController {
   private readonly logger = new Logger(DanaController.name);
-  private readonly danaService = new DanaService();
-  private signatureService = new DanaSignatureService();
-  @Post('sign')
-  async signSignature(
-    @Body() data: { signature: string; privateKey: string },
-  ): Promise<string> {
-    console.log(data);
-    const signature = data.signature;
-    const privateKey = data.privateKey;
-    return await this.signatureService.generateSignature(signature, privateKey);
-  }
+
+  constructor(private readonly danaService: DanaService) {}
+
   /**
    * Authenticate and get access token
    */
   @Post('auth')
-  async authenticate(): Promise<AuthResponseDto> {
-    return await this.danaService.authenticate();
-  }
-  @Post('token')
-  async applyToken(): Promise<AuthResponseDto> {
-    return await this.danaService.applyToken();
+  async authenticate(
+    @CurrentMerchant() merchant: MerchantContext,
+  ): Promise<AuthResponseDto> {
+    return await this.danaService.authenticate(merchant);
   }
   @Post('qris-payment')
   async generateQris(
-    @Body() payload: any,
-    @Headers() header: any,
+    @Body() payload: GenerateQrisDto,
+    @Headers() header: DanaClientHeaders,
+    @CurrentMerchant() merchant: MerchantContext,
   ): Promise<QrisPaymentDto> {
-    return await this.danaService.getQrisPayment(header, payload);
+    return await this.danaService.getQrisPayment(merchant, header, payload);
   }
 
   @Post('create-order')
   async createOrder(
-    @Body() payload: any,
-    @Headers() header: any,
+    @Body() payload: CreateOrderDto,
+    @Headers() header: DanaClientHeaders,
+    @CurrentMerchant() merchant: MerchantContext,
   ): Promise<QrisPaymentDto> {
-    return await this.danaService.createOrder(header, payload);
+    return await this.danaService.createOrder(merchant, header, payload);
   }
 
   @Post('consult-pay')
   async consultPay(
-    @Body() payload: any,
-    @Headers() header: any,
-  ): Promise<QrisPaymentDto> {
-    return await this.danaService.consultPay(header, payload);
+    @Body() payload: ConsultPayDto,
+    @Headers() header: DanaClientHeaders,
+    @CurrentMerchant() merchant: MerchantContext,
+  ): Promise<ConsultPayResponse> {
+    return await this.danaService.consultPay(merchant, header, payload);
+  }
+
+  /**
+   * Pay methods and options create-order accepts for an amount
+   */
+  @Get('pay-methods')
+  async getPayMethods(
+    @Query() query: PayMethodsQueryDto,
+    @Headers() header: DanaClientHeaders,
+    @CurrentMerchant() merchant: MerchantContext,
+  ): Promise<PayMethodCatalogDto> {
+    return await this.danaService.getPayMethods(merchant, header, query);
   }
   /**
-   * Handle webhook notifications from Dana
+   * Ask DANA for the latest status of an order and sync our record
    */
-  @Post('webhook')
-  async handleWebhook(
-    @Body() payload: any,
-    @Headers('X-SIGNATURE') signature: string,
-    @RawBody() rawBody: Buffer,
-  ): Promise<{ status: string }> {
-    try {
-      const payloadString = rawBody.toString();
+  @Get('orders/:partnerReferenceNo/status')
+  async queryPayment(
+    @Param('partnerReferenceNo') partnerReferenceNo: string,
+    @CurrentMerchant() merchant: MerchantContext,
+  ): Promise<PaymentStatusDto> {
+    return await this.danaService.queryPayment(merchant, partnerReferenceNo);
+  }
 
-      // Verify webhook signature
-      const isValid = this.danaService.verifyWebhookSignature(
-        payloadString,
-        signature,
-      );
+  /**
+   * Refund a paid order, partial refunds may be repeated up to the paid amount
+   */
+  @Post('orders/:partnerReferenceNo/refunds')
+  async refundPayment(
+    @Param('partnerReferenceNo') partnerReferenceNo: string,
+    @Body() payload: RefundPaymentDto,
+    @CurrentMerchant() merchant: MerchantContext,
+  ): Promise<RefundResponseDto> {
+    return await this.danaService.refundPayment(
+      merchant,
+      partnerReferenceNo,
+      payload,
+    );
+  }
 
-      if (!isValid) {
-        this.logger.error('Invalid webhook signature');
-        throw new HttpException('Invalid signature', HttpStatus.UNAUTHORIZED);
-      }
+  /**
+   * Cancel an unpaid order or an unused QR code
+   */
+  @Post('orders/:partnerReferenceNo/cancel')
+  async cancelOrder(
+    @Param('partnerReferenceNo') partnerReferenceNo: string,
+    @Body() payload: CancelOrderDto,
+    @CurrentMerchant() merchant: MerchantContext,
+  ): Promise<PaymentStatusDto> {
+    return await this.danaService.cancelOrder(
+      merchant,
+      partnerReferenceNo,
+      payload,
+    );
+  }
 
-      this.logger.log('Webhook received:', payload);
+  /**
+   * QR code of an open order as an image, for screens without a QR library
+   */
+  @Get('orders/:partnerReferenceNo/qr.png')
+  async qrPng(
+    @Param('partnerReferenceNo') partnerReferenceNo: string,
+    @Query('size', new DefaultValuePipe(QRIS_IMAGE_SIZES.default), ParseIntPipe)
+    size: number,
+    @CurrentMerchant() merchant: MerchantContext,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile> {
+    const content = await this.danaService.getQrContent(
+      merchant,
+      partnerReferenceNo,
+    );
+    res.set('Cache-Control', 'no-store');
+    return new StreamableFile(
+      await renderQrisPng(content, this.imageSize(size)),
+      { type: 'image/png' },
+    );
+  }
 
-      // Process webhook payload here
-      // You can add your business logic to handle different webhook events
-      switch (payload.eventType) {
-        case 'PAYMENT_SUCCESS':
-          this.logger.log(`Payment successful: ${payload.merchantTradeNo}`);
-          break;
-        case 'PAYMENT_FAILED':
-          this.logger.log(`Payment failed: ${payload.merchantTradeNo}`);
-          break;
-        case 'REFUND_SUCCESS':
-          this.logger.log(`Refund successful: ${payload.merchantRefundNo}`);
-          break;
-        default:
-          this.logger.log(`Unknown event type: ${payload.eventType}`);
-      }
+  @Get('orders/:partnerReferenceNo/qr.svg')
+  async qrSvg(
+    @Param('partnerReferenceNo') partnerReferenceNo: string,
+    @Query('size', new DefaultValuePipe(QRIS_IMAGE_SIZES.default), ParseIntPipe)
+    size: number,
+    @CurrentMerchant() merchant: MerchantContext,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<string> {
+    const content = await this.danaService.getQrContent(
+      merchant,
+      partnerReferenceNo,
+    );
+    res.set({ 'Content-Type': 'image/svg+xml', 'Cache-Control': 'no-store' });
+    return await renderQrisSvg(content, this.imageSize(size));
+  }
 
-      return { status: 'success' };
-    } catch (error) {
-      this.logger.error('Webhook processing failed:', error);
-      throw new HttpException(
-        'Webhook processing failed',
-        HttpStatus.INTERNAL_SERVER_ERROR,
-      );
-    }
+  private imageSize(size: number): number {
+    return Math.min(Math.max(size, QRIS_IMAGE_SIZES.min), QRIS_IMAGE_SIZES.max);
   }
 }
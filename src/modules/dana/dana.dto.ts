@@ -1,3 +1,33 @@
+import {
+  CustomerBindingStatus,
+  OrderStatus,
+  RefundStatus,
+} from '@prisma/client';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+import { AMOUNT_REGEX } from '../../shared/constants/global.constants';
+
+const PAY_METHOD_REGEX = /^[A-Z0-9_]{1,64}$/;
+// the merchant's own id of a buyer with a bound DANA account
+export const CUSTOMER_ID_REGEX = /^[\w.@+-]{1,64}$/;
+const CHECKOUT_MODES = ['API', 'REDIRECT'] as const;
+
+export type CheckoutMode = (typeof CHECKOUT_MODES)[number];
+
 // dto/auth.dto.ts
 export class AuthResponseDto {
   access_token: string;
@@ -24,6 +54,8 @@ export class QrisPaymentDto {
   qrUrl?: string;
   qrImage?: string;
   redirectUrl?: string;
+  // DANA cashier of a REDIRECT checkout
+  webRedirectUrl?: string;
   merchantName?: string;
   storeId?: string;
   terminalId?: string;
@@ -32,10 +64,13 @@ export class QrisPaymentDto {
 
 // dto/balance.dto.ts
 export class BalanceResponseDto {
-  accountNumber: string;
-  balance: number;
+  customerId: string;
+  // decimal strings, e.g. "150000.00"
+  balance: string;
+  // what the buyer can spend right now, holds excluded
+  availableBalance: string;
   currency: string;
-  status: string;
+  fetchedAt: Date;
 }
 
 // dto/transaction.dto.ts
@@ -91,11 +126,171 @@ export class PaymentResponseDto {
   payUrl?: string;
 }
 
+// headers DANA's envInfo is built from
+export interface DanaClientHeaders {
+  'user-agent'?: string;
+  'x-client-ip'?: string;
+  'x-language'?: string;
+  // makes create-order and qris-payment safe to repeat
+  'idempotency-key'?: string;
+}
+
+export class BuyerDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  externalUserId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(32)
+  externalUserType?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  nickname?: string;
+}
+
+export class OrderItemDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  sku: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(256)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  category?: string;
+
+  // unit price
+  @Matches(AMOUNT_REGEX, {
+    message: 'price must be a positive amount with max 2 decimals',
+  })
+  price: string;
+
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class ConsultPayDto {
+  @Matches(AMOUNT_REGEX, {
+    message: 'amount must be a positive amount with max 2 decimals',
+  })
+  amount: string;
+
+  @IsOptional()
+  @IsIn(['IDR'])
+  currency?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BuyerDto)
+  buyer?: BuyerDto;
+}
+
+export class GenerateQrisDto {
+  // our reference for the order, generated when absent; repeating a request
+  // with the same one returns the first response
+  @IsOptional()
+  @Matches(/^[\w-]{1,64}$/, {
+    message:
+      'partnerReferenceNo must be 1-64 letters, digits, dashes or underscores',
+  })
+  partnerReferenceNo?: string;
+
+  @Matches(AMOUNT_REGEX, {
+    message: 'amount must be a positive amount with max 2 decimals',
+  })
+  amount: string;
+
+  @IsOptional()
+  @IsIn(['IDR'])
+  currency?: string;
+
+  // minutes until the QR code expires, capped by DANA_MAX_ORDER_VALIDITY_MINUTES
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  validityPeriod?: number;
+}
+
+export class CreateOrderDto extends GenerateQrisDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  title?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BuyerDto)
+  buyer?: BuyerDto;
+
+  // when given, the item totals must add up to amount
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => OrderItemDto)
+  items?: OrderItemDto[];
+
+  // API pays host-to-host with the chosen pay method, REDIRECT answers with
+  // webRedirectUrl, DANA's hosted cashier
+  @IsOptional()
+  @IsIn(CHECKOUT_MODES)
+  mode?: CheckoutMode;
+
+  // where the buyer ends up after paying, through the checkout landing when
+  // DANA_PUBLIC_URL is set
+  @IsOptional()
+  @IsUrl({ require_tld: false, require_protocol: true })
+  returnUrl?: string;
+
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  notifyUrl?: string;
+
+  // one of GET /dana/pay-methods for this amount; API orders without one pay
+  // through OVO, REDIRECT orders let the buyer choose in the cashier
+  @IsOptional()
+  @Matches(PAY_METHOD_REGEX, { message: 'payMethod must be a DANA pay method' })
+  payMethod?: string;
+
+  @IsOptional()
+  @Matches(PAY_METHOD_REGEX, { message: 'payOption must be a DANA pay option' })
+  payOption?: string;
+
+  // charge this customer's bound DANA account, BALANCE unless payMethod says
+  // otherwise; API mode only
+  @IsOptional()
+  @Matches(CUSTOMER_ID_REGEX, {
+    message: 'customerId must be 1-64 letters, digits or one of _ . @ + -',
+  })
+  customerId?: string;
+}
+
 export class RefundPaymentDto {
-  danaTradeNo: string;
-  refundAmount: number;
+  @Matches(AMOUNT_REGEX, {
+    message: 'refundAmount must be a positive amount with max 2 decimals',
+  })
+  refundAmount: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(256)
   refundReason?: string;
-  merchantRefundNo: string;
+
+  // optional client supplied refund number, generated when omitted
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  merchantRefundNo?: string;
 }
 
 export class RefundResponseDto {
@@ -103,6 +298,117 @@ export class RefundResponseDto {
   resultMessage: string;
   danaTradeNo: string;
   merchantRefundNo: string;
-  refundAmount: number;
-  refundStatus: string;
+  danaRefundNo?: string;
+  refundAmount: string;
+  refundStatus: RefundStatus;
+  refundableAmount: string;
+}
+
+export class PaymentStatusDto {
+  partnerReferenceNo: string;
+  referenceNo?: string;
+  status: OrderStatus;
+  danaStatus: string;
+  danaStatusDesc?: string;
+  amount?: { value: string; currency: string };
+  paidTime?: string;
+}
+
+export class PayMethodsQueryDto {
+  @Matches(AMOUNT_REGEX, {
+    message: 'amount must be a positive amount with max 2 decimals',
+  })
+  amount: string;
+
+  @IsOptional()
+  @IsIn(['IDR'])
+  currency?: string;
+}
+
+export class PayOptionDto {
+  payOption: string;
+  label: string;
+}
+
+export class PayMethodDto {
+  payMethod: string;
+  label: string;
+  // empty when the method needs no option, e.g. BALANCE
+  options: PayOptionDto[];
+}
+
+export class PayMethodCatalogDto {
+  amount: string;
+  currency: string;
+  methods: PayMethodDto[];
+  fetchedAt: Date;
+  expiresAt: Date;
+}
+
+export class CheckoutResultDto {
+  partnerReferenceNo: string;
+  status: OrderStatus;
+  // storefront page to continue on, none when the order did not name one
+  returnUrl: string | null;
+}
+
+export class StartBindingDto {
+  // page the buyer continues on, with customerId and status appended
+  @IsOptional()
+  @IsUrl({ require_tld: false, require_protocol: true })
+  redirectUrl?: string;
+
+  // prefills DANA's login page, e.g. 0811234567
+  @IsOptional()
+  @Matches(/^(\+?62|0)8\d{7,12}$/, {
+    message: 'mobileNumber must be an Indonesian mobile number',
+  })
+  mobileNumber?: string;
+}
+
+export class BindingUrlDto {
+  customerId: string;
+  status: CustomerBindingStatus;
+  // DANA page to send the buyer to, valid until expiresAt
+  authUrl: string;
+  expiresAt: Date;
+}
+
+export class BindingCallbackQueryDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(512)
+  authCode?: string;
+
+  @IsString()
+  @MaxLength(128)
+  state: string;
+
+  // missing on a callback that did not come from our auth URL
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  nonce?: string;
+}
+
+export class BindingResultDto {
+  customerId: string;
+  status: CustomerBindingStatus;
+  redirectUrl: string | null;
+}
+
+export class CustomerBindingDto {
+  customerId: string;
+  status: CustomerBindingStatus;
+  boundAt: Date | null;
+  unboundAt: Date | null;
+  accessTokenExpiresAt: Date | null;
+  refreshTokenExpiresAt: Date | null;
+}
+
+export class CancelOrderDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(256)
+  reason?: string;
 }
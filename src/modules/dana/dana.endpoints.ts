@@ -0,0 +1,119 @@
+import {
+  AccountUnbindingRequest,
+  AccountUnbindingResponse,
+  BalanceInquiryRequest,
+  BalanceInquiryResponse,
+  CancelRequest,
+  CancelResponse,
+  ConsultPayRequest,
+  ConsultPayResponse,
+  DebitPaymentRequest,
+  DebitPaymentResponse,
+  QrisGenerateRequest,
+  QrisGenerateResponse,
+  RefundRequest,
+  RefundResponse,
+  SnapResponse,
+  TransactionQueryRequest,
+  TransactionQueryResponse,
+} from './dana.interface';
+
+/**
+ * A SNAP API as DanaApiClient sees it. The type parameters only tie the
+ * request and response shapes to the endpoint.
+ */
+export interface DanaEndpoint<TRequest, TResponse extends SnapResponse> {
+  name: string;
+  path: string;
+  // responseCodes that mean DANA accepted the call
+  successCodes: string[];
+  // header carrying our B2B access token, sent without one when unset;
+  // customer tokens go in Authorization-Customer, see DanaCallOptions
+  bearer?: 'Authorization';
+  timeoutMs?: number;
+  // safe to repeat, DanaResilience retries it on outages
+  idempotent?: boolean;
+  readonly types?: { request: TRequest; response: TResponse };
+}
+
+function endpoint<TRequest, TResponse extends SnapResponse>(
+  descriptor: DanaEndpoint<TRequest, TResponse>,
+): DanaEndpoint<TRequest, TResponse> {
+  return descriptor;
+}
+
+export const DANA_ENDPOINTS = {
+  qrisGenerate: endpoint<QrisGenerateRequest, QrisGenerateResponse>({
+    name: 'QRIS generate',
+    path: '/v1.0/qr/qr-mpm-generate.htm',
+    successCodes: ['2004700'],
+    bearer: 'Authorization',
+  }),
+  qrisQuery: endpoint<TransactionQueryRequest, TransactionQueryResponse>({
+    name: 'QRIS query',
+    path: '/v1.0/qr/qr-mpm-query.htm',
+    successCodes: ['2005100'],
+    bearer: 'Authorization',
+    timeoutMs: 10000,
+    idempotent: true,
+  }),
+  qrisCancel: endpoint<CancelRequest, CancelResponse>({
+    name: 'QRIS cancel',
+    path: '/v1.0/qr/qr-mpm-cancel.htm',
+    successCodes: ['2007700'],
+    bearer: 'Authorization',
+  }),
+  // 202 means DANA accepted the refund and notifies the result later
+  qrisRefund: endpoint<RefundRequest, RefundResponse>({
+    name: 'QRIS refund',
+    path: '/v1.0/qr/qr-mpm-refund.htm',
+    successCodes: ['2007800', '2027800'],
+    bearer: 'Authorization',
+  }),
+  debitPayment: endpoint<DebitPaymentRequest, DebitPaymentResponse>({
+    name: 'debit payment',
+    path: '/payment-gateway/v1.0/debit/payment-host-to-host.htm',
+    successCodes: ['2005400'],
+  }),
+  debitStatus: endpoint<TransactionQueryRequest, TransactionQueryResponse>({
+    name: 'debit status',
+    path: '/payment-gateway/v1.0/debit/status.htm',
+    successCodes: ['2005500'],
+    timeoutMs: 10000,
+    idempotent: true,
+  }),
+  debitCancel: endpoint<CancelRequest, CancelResponse>({
+    name: 'debit cancel',
+    path: '/payment-gateway/v1.0/debit/cancel.htm',
+    successCodes: ['2005700'],
+  }),
+  debitRefund: endpoint<RefundRequest, RefundResponse>({
+    name: 'debit refund',
+    path: '/payment-gateway/v1.0/debit/refund.htm',
+    successCodes: ['2005800', '2025800'],
+  }),
+  consultPay: endpoint<ConsultPayRequest, ConsultPayResponse>({
+    name: 'consult pay',
+    path: '/v1.0/payment-gateway/consult-pay.htm',
+    successCodes: ['2000000'],
+    timeoutMs: 10000,
+    idempotent: true,
+  }),
+  // these need the bound account's customer token
+  balanceInquiry: endpoint<BalanceInquiryRequest, BalanceInquiryResponse>({
+    name: 'balance inquiry',
+    path: '/v1.0/balance-inquiry.htm',
+    successCodes: ['2001100'],
+    bearer: 'Authorization',
+    timeoutMs: 10000,
+    idempotent: true,
+  }),
+  accountUnbinding: endpoint<AccountUnbindingRequest, AccountUnbindingResponse>(
+    {
+      name: 'account unbinding',
+      path: '/v1.0/registration-account-unbinding.htm',
+      successCodes: ['2000900'],
+      bearer: 'Authorization',
+    },
+  ),
+};
@@ -0,0 +1,30 @@
+import { Controller, Get, UseGuards } from '@nestjs/common';
+
+import { AdminGuard } from '../../guards/admin.guard';
+import { CircuitSnapshot, DanaResilience } from './dana.resilience';
+
+export interface DanaHealth {
+  // DEGRADED while any DANA circuit is not closed
+  status: 'UP' | 'DEGRADED';
+  circuits: CircuitSnapshot[];
+}
+
+@Controller('dana/health')
+@UseGuards(AdminGuard)
+export class DanaHealthController {
+  constructor(private readonly resilience: DanaResilience) {}
+
+  /**
+   * Circuit breaker state per DANA API (admin only)
+   */
+  @Get()
+  health(): DanaHealth {
+    const circuits = this.resilience.snapshot();
+    return {
+      status: circuits.every((circuit) => circuit.state === 'CLOSED')
+        ? 'UP'
+        : 'DEGRADED',
+      circuits,
+    };
+  }
+}
@@ -0,0 +1,193 @@
+export interface SnapAmount {
+  value: string;
+  currency: string;
+}
+
+// every SNAP answer carries these two
+export interface SnapResponse {
+  responseCode: string;
+  responseMessage: string;
+}
+
+export interface DanaEnvInfo {
+  sourcePlatform: string;
+  terminalType: string;
+  orderTerminalType: string;
+  clientIp: string;
+  osType: string;
+  appVersion: string;
+  sdkVersion: string;
+  websiteLanguage: string;
+  orderOsType: string;
+  merchantAppVersion: string;
+}
+
+export interface DanaBuyer {
+  externalUserType: string;
+  nickname: string;
+  externalUserId: string;
+  userId: string;
+}
+
+export interface DanaUrlParam {
+  url: string;
+  type: 'PAY_RETURN' | 'NOTIFICATION';
+  isDeeplink: 'Y' | 'N';
+}
+
+export interface DanaGoods {
+  merchantGoodsId: string;
+  description: string;
+  category: string;
+  price: SnapAmount;
+  unit: string;
+  quantity: string;
+}
+
+export interface QrisGenerateRequest {
+  merchantId: string;
+  partnerReferenceNo: string;
+  amount: SnapAmount;
+  validityPeriod: string;
+  additionalInfo: { envInfo: DanaEnvInfo };
+}
+
+export interface QrisGenerateResponse extends SnapResponse {
+  referenceNo?: string;
+  partnerReferenceNo?: string;
+  qrContent?: string;
+  qrUrl?: string;
+  qrImage?: string;
+  redirectUrl?: string;
+  merchantName?: string;
+  storeId?: string;
+  terminalId?: string;
+  additionalInfo?: string;
+}
+
+export interface DebitPaymentRequest {
+  partnerReferenceNo: string;
+  merchantId: string;
+  amount: SnapAmount;
+  urlParams: DanaUrlParam[];
+  validityPeriod: string;
+  // left out by REDIRECT orders, the buyer picks a method in the cashier
+  payOptionDetails?: {
+    payMethod: string;
+    payOption?: string;
+    amount: SnapAmount;
+  };
+  additionalInfo: {
+    order: {
+      orderTitle: string;
+      // API or REDIRECT
+      scenario: string;
+      merchantTransType: string;
+      buyer: DanaBuyer;
+      goods?: DanaGoods[];
+    };
+    mcc: string;
+    envInfo: DanaEnvInfo;
+  };
+}
+
+export interface DebitPaymentResponse extends QrisGenerateResponse {
+  webRedirectUrl?: string;
+}
+
+export interface ConsultPayRequest {
+  merchantId: string;
+  amount: SnapAmount;
+  additionalInfo: { buyer: DanaBuyer; envInfo: DanaEnvInfo };
+}
+
+export interface ConsultPayResponse extends SnapResponse {
+  paymentInfos?: { payMethod: string; payOption?: string }[];
+}
+
+export interface TransactionQueryRequest {
+  originalPartnerReferenceNo: string;
+  originalReferenceNo: string;
+  merchantId: string;
+  serviceCode: string;
+}
+
+export interface TransactionQueryResponse extends SnapResponse {
+  originalPartnerReferenceNo?: string;
+  originalReferenceNo?: string;
+  latestTransactionStatus: string;
+  transactionStatusDesc?: string;
+  transAmount?: SnapAmount;
+  paidTime?: string;
+}
+
+export interface RefundRequest {
+  originalPartnerReferenceNo: string;
+  originalReferenceNo: string;
+  partnerRefundNo: string;
+  merchantId: string;
+  refundAmount: SnapAmount;
+  reason: string;
+}
+
+export interface RefundResponse extends SnapResponse {
+  originalReferenceNo?: string;
+  refundNo?: string;
+  partnerRefundNo?: string;
+  refundAmount?: SnapAmount;
+  refundTime?: string;
+}
+
+export interface CancelRequest {
+  originalPartnerReferenceNo: string;
+  originalReferenceNo: string;
+  merchantId: string;
+  reason: string;
+}
+
+export interface CancelResponse extends SnapResponse {
+  originalReferenceNo?: string;
+  cancelTime?: string;
+}
+
+// B2B2C token of a bound account, by auth code or refresh token
+export interface CustomerTokenRequest {
+  grantType: 'AUTHORIZATION_CODE' | 'REFRESH_TOKEN';
+  authCode?: string;
+  refreshToken?: string;
+  additionalInfo: Record<string, unknown>;
+}
+
+export interface CustomerTokenResponse extends Partial<SnapResponse> {
+  accessToken?: string;
+  tokenType?: string;
+  accessTokenExpiryTime?: string;
+  refreshToken?: string;
+  refreshTokenExpiryTime?: string;
+}
+
+export interface AccountUnbindingRequest {
+  merchantId: string;
+  additionalInfo: Record<string, unknown>;
+}
+
+export interface AccountUnbindingResponse extends SnapResponse {
+  merchantId?: string;
+}
+
+export interface BalanceInquiryRequest {
+  partnerReferenceNo: string;
+  balanceTypes: string[];
+  additionalInfo: Record<string, unknown>;
+}
+
+export interface BalanceInquiryResponse extends SnapResponse {
+  referenceNo?: string;
+  partnerReferenceNo?: string;
+  accountInfos?: {
+    balanceType: string;
+    amount: SnapAmount;
+    availableBalance?: SnapAmount;
+    status?: string;
+  }[];
+}
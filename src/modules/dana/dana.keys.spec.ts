@@ -0,0 +1,79 @@
+import * as crypto from 'crypto';
+
+import {
+  isKeyPair,
+  normalizePrivateKey,
+  normalizePublicKey,
+} from './dana.keys';
+
+describe('dana.keys', () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+  const privateDer = privateKey
+    .export({ format: 'der', type: 'pkcs8' })
+    .toString('base64');
+  const publicDer = publicKey
+    .export({ format: 'der', type: 'spki' })
+    .toString('base64');
+
+  describe('normalizePrivateKey', () => {
+    it('should keep a base64 pkcs8 key as it is', () => {
+      expect(normalizePrivateKey(privateDer)).toBe(privateDer);
+    });
+
+    it.each([
+      ['pkcs8', privateKey.export({ format: 'pem', type: 'pkcs8' })],
+      ['pkcs1', privateKey.export({ format: 'pem', type: 'pkcs1' })],
+    ])('should convert a %s PEM', (_, pem) => {
+      expect(normalizePrivateKey(pem.toString())).toBe(privateDer);
+    });
+
+    it.each([
+      ['base64 that is no key', Buffer.from('not a key').toString('base64')],
+      ['a public key', publicDer],
+      [
+        'a truncated PEM',
+        privateKey
+          .export({ format: 'pem', type: 'pkcs8' })
+          .toString()
+          .slice(0, 200),
+      ],
+    ])('should throw on %s', (_, value) => {
+      expect(() => normalizePrivateKey(value)).toThrow();
+    });
+  });
+
+  describe('normalizePublicKey', () => {
+    it('should keep a base64 spki key and convert a PEM', () => {
+      expect(normalizePublicKey(publicDer)).toBe(publicDer);
+      expect(
+        normalizePublicKey(
+          publicKey.export({ format: 'pem', type: 'spki' }).toString(),
+        ),
+      ).toBe(publicDer);
+    });
+
+    it.each([
+      ['garbage', '%%%not-base64%%%'],
+      [
+        'a PEM without its body',
+        '-----BEGIN PUBLIC KEY-----\n-----END PUBLIC KEY-----',
+      ],
+    ])('should throw on %s', (_, value) => {
+      expect(() => normalizePublicKey(value)).toThrow();
+    });
+  });
+
+  describe('isKeyPair', () => {
+    it('should tell matching halves from unrelated ones', () => {
+      const other = crypto
+        .generateKeyPairSync('rsa', { modulusLength: 2048 })
+        .publicKey.export({ format: 'der', type: 'spki' })
+        .toString('base64');
+
+      expect(isKeyPair(privateDer, publicDer)).toBe(true);
+      expect(isKeyPair(privateDer, other)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import * as crypto from 'crypto';
+
+/**
+ * Normalize an RSA private key given as PEM or base64 DER to the base64
+ * pkcs8 DER form DanaSignatureService expects. Throws if it does not parse.
+ */
+export function normalizePrivateKey(value: string): string {
+  const key = value.includes('-----BEGIN')
+    ? crypto.createPrivateKey(value)
+    : crypto.createPrivateKey({
+        key: Buffer.from(value, 'base64'),
+        format: 'der',
+        type: 'pkcs8',
+      });
+  return key.export({ format: 'der', type: 'pkcs8' }).toString('base64');
+}
+
+/**
+ * Same as normalizePrivateKey for public keys, as base64 spki DER
+ */
+export function normalizePublicKey(value: string): string {
+  const key = value.includes('-----BEGIN')
+    ? crypto.createPublicKey(value)
+    : crypto.createPublicKey({
+        key: Buffer.from(value, 'base64'),
+        format: 'der',
+        type: 'spki',
+      });
+  return key.export({ format: 'der', type: 'spki' }).toString('base64');
+}
+
+export function isKeyPair(privateKey: string, publicKey: string): boolean {
+  const probe = Buffer.from('dana-config-probe');
+  const signature = crypto.sign(
+    'sha256',
+    probe,
+    crypto.createPrivateKey({
+      key: Buffer.from(privateKey, 'base64'),
+      format: 'der',
+      type: 'pkcs8',
+    }),
+  );
+  return crypto.verify(
+    'sha256',
+    probe,
+    crypto.createPublicKey({
+      key: Buffer.from(publicKey, 'base64'),
+      format: 'der',
+      type: 'spki',
+    }),
+    signature,
+  );
+}
@@ -1,25 +1,74 @@
 import { Module } from '@nestjs/common';
 import { MiddlewareConsumer } from '@nestjs/common';
 import { LoggerMiddleware } from '../../middlewares/logger.middleware';
+import { TraceIdMiddleware } from '../../middlewares/trace.id.middleware';
 import { ConfigModule } from '@nestjs/config';
 import { HttpModule } from '@nestjs/axios';
+import { ScheduleModule } from '@nestjs/schedule';
 import { DanaService } from './dana.service';
 import { DanaController } from './dana.controller';
+import { DanaCheckoutController } from './dana.checkout.controller';
+import { DanaBindingController } from './dana.binding.controller';
+import { DanaBindingCallbackController } from './dana.binding.callback.controller';
+import { DanaBindingService } from './dana.binding.service';
+import { DanaHealthController } from './dana.health.controller';
+import { DanaReconciliationController } from './dana.reconciliation.controller';
+import { DanaReconciler } from './dana.reconciler';
+import { DanaTokenProvider } from './dana.token.provider';
+import { DanaApiClient } from './dana.api.client';
+import { DanaResilience } from './dana.resilience';
+import { DanaPayMethods } from './dana.pay.methods';
 import { LoggerModule } from '../logger/logger.module';
 import { GLOBAL_CONFIG } from '../../configs/global.config';
+import { danaConfig } from './dana.config';
+import { PrismaModule } from '../prisma/prisma.module';
+import { OrderModule } from '../order/order.module';
+import { RefundModule } from '../refund/refund.module';
+import { WebhookModule } from '../webhook/webhook.module';
+import { MerchantModule } from '../merchant/merchant.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { SettlementModule } from '../settlement/settlement.module';
+import { SimulatorModule } from '../simulator/simulator.module';
 
 @Module({
   imports: [
     HttpModule,
     LoggerModule,
-    ConfigModule.forRoot({ isGlobal: true, load: [() => GLOBAL_CONFIG] }),
+    PrismaModule,
+    MerchantModule,
+    OrderModule,
+    RefundModule,
+    IdempotencyModule,
+    SettlementModule,
+    WebhookModule,
+    ...(process.env.DANA_SIMULATOR === 'true' ? [SimulatorModule] : []),
+    ConfigModule.forRoot({
+      isGlobal: true,
+      load: [() => GLOBAL_CONFIG, danaConfig],
+    }),
+    ScheduleModule.forRoot(),
+  ],
+  providers: [
+    DanaService,
+    DanaTokenProvider,
+    DanaApiClient,
+    DanaResilience,
+    DanaReconciler,
+    DanaPayMethods,
+    DanaBindingService,
+  ],
+  controllers: [
+    DanaController,
+    DanaCheckoutController,
+    DanaBindingController,
+    DanaBindingCallbackController,
+    DanaHealthController,
+    DanaReconciliationController,
   ],
-  providers: [DanaService],
-  controllers: [DanaController],
   exports: [DanaService],
 })
 export class DanaModule {
   configure(consumer: MiddlewareConsumer) {
-    consumer.apply(LoggerMiddleware).forRoutes('*');
+    consumer.apply(TraceIdMiddleware, LoggerMiddleware).forRoutes('*');
   }
 }
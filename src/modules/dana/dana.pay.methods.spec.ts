@@ -0,0 +1,132 @@
+import { ConfigType } from '@nestjs/config';
+
+import { InvalidFormException } from '../../exceptions/invalid.form.exception';
+import { MerchantContext } from '../merchant/merchant.interface';
+import { danaConfig } from './dana.config';
+import { ConsultPayResponse } from './dana.interface';
+import {
+  DanaPayMethods,
+  assertPayMethod,
+  toPayMethodCatalog,
+} from './dana.pay.methods';
+
+describe('DanaPayMethods', () => {
+  const merchant = { id: 'merchant-1' } as MerchantContext;
+  const response: ConsultPayResponse = {
+    responseCode: '2000000',
+    responseMessage: 'Successful',
+    paymentInfos: [
+      { payMethod: 'BALANCE' },
+      { payMethod: 'NETWORK_PAY', payOption: 'NETWORK_PAY_PG_OVO' },
+      { payMethod: 'VIRTUAL_ACCOUNT', payOption: 'VIRTUAL_ACCOUNT_BCA' },
+      { payMethod: 'NETWORK_PAY', payOption: 'NETWORK_PAY_PG_GOPAY' },
+      { payMethod: 'NETWORK_PAY', payOption: 'NETWORK_PAY_PG_OVO' },
+      { payMethod: 'NEW_METHOD', payOption: 'NEW_OPTION' },
+    ],
+  };
+  const catalog = toPayMethodCatalog(
+    response,
+    '10000.00',
+    'IDR',
+    new Date(0),
+    new Date(300000),
+  );
+
+  let payMethods: DanaPayMethods;
+  let consult: jest.Mock;
+
+  beforeEach(() => {
+    payMethods = new DanaPayMethods({
+      payMethodCacheSeconds: 300,
+    } as ConfigType<typeof danaConfig>);
+    consult = jest.fn().mockResolvedValue(response);
+  });
+
+  it('should group options under their pay method', () => {
+    expect(catalog.methods).toEqual([
+      { payMethod: 'BALANCE', label: 'DANA balance', options: [] },
+      {
+        payMethod: 'NETWORK_PAY',
+        label: 'E-wallet',
+        options: [
+          { payOption: 'NETWORK_PAY_PG_OVO', label: 'OVO' },
+          { payOption: 'NETWORK_PAY_PG_GOPAY', label: 'GoPay' },
+        ],
+      },
+      {
+        payMethod: 'VIRTUAL_ACCOUNT',
+        label: 'Virtual account',
+        options: [{ payOption: 'VIRTUAL_ACCOUNT_BCA', label: 'BCA' }],
+      },
+      {
+        payMethod: 'NEW_METHOD',
+        label: 'NEW_METHOD',
+        options: [{ payOption: 'NEW_OPTION', label: 'NEW_OPTION' }],
+      },
+    ]);
+  });
+
+  it('should cache a catalog per amount until it expires', async () => {
+    await payMethods.get(merchant, '10000.00', 'IDR', consult, 0);
+    const cached = await payMethods.get(
+      merchant,
+      '10000.00',
+      'IDR',
+      consult,
+      299000,
+    );
+    expect(consult).toHaveBeenCalledTimes(1);
+    expect(cached.expiresAt).toEqual(new Date(300000));
+
+    await payMethods.get(merchant, '25000.00', 'IDR', consult, 1000);
+    await payMethods.get(merchant, '10000.00', 'IDR', consult, 300000);
+    expect(consult).toHaveBeenCalledTimes(3);
+  });
+
+  it('should share one consult-pay call between concurrent requests', async () => {
+    const [first, second] = await Promise.all([
+      payMethods.get(merchant, '10000.00', 'IDR', consult, 0),
+      payMethods.get(merchant, '10000.00', 'IDR', consult, 0),
+    ]);
+    expect(first).toBe(second);
+    expect(consult).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not cache a failed consult-pay', async () => {
+    consult.mockRejectedValueOnce(new Error('DANA unreachable'));
+    await expect(
+      payMethods.get(merchant, '10000.00', 'IDR', consult, 0),
+    ).rejects.toThrow('DANA unreachable');
+    await payMethods.get(merchant, '10000.00', 'IDR', consult, 0);
+    expect(consult).toHaveBeenCalledTimes(2);
+  });
+
+  describe('assertPayMethod', () => {
+    const errorsOf = (payMethod: string, payOption?: string) => {
+      try {
+        assertPayMethod(catalog, payMethod, payOption);
+      } catch (error) {
+        expect(error).toBeInstanceOf(InvalidFormException);
+        return error.getFieldErrors();
+      }
+    };
+
+    it('should accept offered methods and options', () => {
+      expect(errorsOf('BALANCE')).toBeUndefined();
+      expect(errorsOf('NETWORK_PAY', 'NETWORK_PAY_PG_GOPAY')).toBeUndefined();
+    });
+
+    it('should refuse anything DANA did not offer', () => {
+      expect(errorsOf('CREDIT_CARD')).toEqual({
+        payMethod: 'CREDIT_CARD is not available for 10000.00 IDR',
+      });
+      expect(errorsOf('NETWORK_PAY', 'VIRTUAL_ACCOUNT_BCA')).toEqual({
+        payOption: 'VIRTUAL_ACCOUNT_BCA is not available for NETWORK_PAY',
+      });
+      expect(errorsOf('VIRTUAL_ACCOUNT')).toEqual({
+        payOption:
+          'payOption is required for VIRTUAL_ACCOUNT, one of VIRTUAL_ACCOUNT_BCA',
+      });
+    });
+  });
+});
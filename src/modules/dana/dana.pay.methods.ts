@@ -0,0 +1,144 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+
+import { MerchantContext } from '../merchant/merchant.interface';
+import { InvalidFormException } from '../../exceptions/invalid.form.exception';
+import {
+  DANA_PAY_METHOD_LABELS,
+  DANA_PAY_OPTION_LABELS,
+} from '../../shared/constants/dana.constants';
+import { danaConfig } from './dana.config';
+import { PayMethodCatalogDto } from './dana.dto';
+import { ConsultPayResponse } from './dana.interface';
+
+// bounds memory when callers ask for many different amounts
+const MAX_CACHED_CATALOGS = 1000;
+
+/**
+ * Pay methods DANA offers a merchant for an amount, built from consult-pay
+ * and cached per merchant, currency and amount for payMethodCacheSeconds.
+ * Concurrent requests for the same amount share one consult-pay call.
+ */
+@Injectable()
+export class DanaPayMethods {
+  private readonly catalogs = new Map<string, PayMethodCatalogDto>();
+  private readonly loads = new Map<string, Promise<PayMethodCatalogDto>>();
+
+  constructor(
+    @Inject(danaConfig.KEY)
+    private readonly config: ConfigType<typeof danaConfig>,
+  ) {}
+
+  async get(
+    merchant: MerchantContext,
+    amount: string,
+    currency: string,
+    consult: () => Promise<ConsultPayResponse>,
+    now: number = Date.now(),
+  ): Promise<PayMethodCatalogDto> {
+    const key = `${merchant.id}:${currency}:${amount}`;
+    const cached = this.catalogs.get(key);
+    if (cached && cached.expiresAt.getTime() > now) {
+      return cached;
+    }
+    if (!this.loads.has(key)) {
+      const load = consult()
+        .then((response) => {
+          const catalog = toPayMethodCatalog(
+            response,
+            amount,
+            currency,
+            new Date(now),
+            new Date(now + this.config.payMethodCacheSeconds * 1000),
+          );
+          this.store(key, catalog);
+          return catalog;
+        })
+        .finally(() => this.loads.delete(key));
+      this.loads.set(key, load);
+    }
+    return this.loads.get(key);
+  }
+
+  private store(key: string, catalog: PayMethodCatalogDto) {
+    this.catalogs.delete(key);
+    this.catalogs.set(key, catalog);
+    if (this.catalogs.size > MAX_CACHED_CATALOGS) {
+      this.catalogs.delete(this.catalogs.keys().next().value);
+    }
+  }
+}
+
+/**
+ * Group consult-pay paymentInfos by pay method, in DANA's order
+ */
+export function toPayMethodCatalog(
+  response: ConsultPayResponse,
+  amount: string,
+  currency: string,
+  fetchedAt: Date,
+  expiresAt: Date,
+): PayMethodCatalogDto {
+  const methods: PayMethodCatalogDto['methods'] = [];
+  for (const info of response.paymentInfos || []) {
+    if (!info?.payMethod) {
+      continue;
+    }
+    let method = methods.find((found) => found.payMethod === info.payMethod);
+    if (!method) {
+      method = {
+        payMethod: info.payMethod,
+        label: DANA_PAY_METHOD_LABELS[info.payMethod] || info.payMethod,
+        options: [],
+      };
+      methods.push(method);
+    }
+    if (
+      info.payOption &&
+      !method.options.some((option) => option.payOption === info.payOption)
+    ) {
+      method.options.push({
+        payOption: info.payOption,
+        label: DANA_PAY_OPTION_LABELS[info.payOption] || info.payOption,
+      });
+    }
+  }
+  return { amount, currency, methods, fetchedAt, expiresAt };
+}
+
+/**
+ * A chosen method must be offered for the amount, and so must its option.
+ * Methods that come with options need one of them.
+ */
+export function assertPayMethod(
+  catalog: PayMethodCatalogDto,
+  payMethod: string,
+  payOption?: string,
+) {
+  const method = catalog.methods.find((found) => found.payMethod === payMethod);
+  if (!method) {
+    throw new InvalidFormException(
+      {
+        payMethod: `${payMethod} is not available for ${catalog.amount} ${catalog.currency}`,
+      },
+      'Pay method not available',
+    );
+  }
+  if (payOption) {
+    if (!method.options.some((option) => option.payOption === payOption)) {
+      throw new InvalidFormException(
+        { payOption: `${payOption} is not available for ${payMethod}` },
+        'Pay method not available',
+      );
+    }
+  } else if (method.options.length) {
+    throw new InvalidFormException(
+      {
+        payOption: `payOption is required for ${payMethod}, one of ${method.options
+          .map((option) => option.payOption)
+          .join(', ')}`,
+      },
+      'Pay method not available',
+    );
+  }
+}
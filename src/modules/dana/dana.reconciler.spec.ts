@@ -0,0 +1,174 @@
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import {
+  OrderStatus,
+  ReconciliationRunStatus,
+  ReconciliationTrigger,
+} from '@prisma/client';
+
+import { DanaApiException } from '../../exceptions/dana.api.exception';
+import { PrismaService } from '../prisma/prisma.service';
+import { MerchantService } from '../merchant/merchant.service';
+import { OrderService } from '../order/order.service';
+import { DanaReconciler } from './dana.reconciler';
+import { DanaService } from './dana.service';
+
+describe('DanaReconciler', () => {
+  const merchant = { id: 'merchant-1', code: 'brand-a' };
+  const order = (partnerReferenceNo: string, overrides: object = {}) => ({
+    id: partnerReferenceNo,
+    merchantId: merchant.id,
+    partnerReferenceNo,
+    status: OrderStatus.PENDING,
+    expiresAt: new Date(Date.now() + 60_000),
+    ...overrides,
+  });
+
+  const notFound = () =>
+    new DanaApiException(
+      'debit status',
+      404,
+      { responseCode: '4045501' },
+      undefined,
+      'DANA_TRANSACTION_NOT_FOUND',
+    );
+
+  let findMany: jest.Mock;
+  let runUpdate: jest.Mock;
+  let locked: jest.Mock;
+  let queryPayment: jest.Mock;
+  let expireOrder: jest.Mock;
+  let getContext: jest.Mock;
+  let reconciler: DanaReconciler;
+
+  beforeEach(() => {
+    findMany = jest.fn();
+    runUpdate = jest.fn(async ({ data }) => data);
+    locked = jest.fn().mockResolvedValue([{ locked: true }]);
+    queryPayment = jest.fn();
+    expireOrder = jest.fn(async () => ({ status: OrderStatus.EXPIRED }));
+    getContext = jest.fn().mockResolvedValue(merchant);
+    const prisma = {
+      order: { findMany, update: jest.fn() },
+      reconciliationRun: {
+        create: jest.fn().mockResolvedValue({ id: 'run-1' }),
+        update: runUpdate,
+      },
+      $queryRaw: locked,
+      $transaction: jest.fn((fn) => fn(prisma)),
+    };
+    reconciler = new DanaReconciler(
+      prisma as unknown as PrismaService,
+      { queryPayment, expireOrder } as unknown as DanaService,
+      {} as OrderService,
+      { getContext } as unknown as MerchantService,
+      {} as SchedulerRegistry,
+      {
+        get: () => ({
+          intervalMs: 60000,
+          pendingAfterMinutes: 5,
+          batchSize: 50,
+          runTimeoutMs: 600000,
+        }),
+      } as unknown as ConfigService,
+    );
+  });
+
+  it('should apply the status DANA reports', async () => {
+    findMany.mockResolvedValue([order('paid'), order('open')]);
+    queryPayment
+      .mockResolvedValueOnce({ status: OrderStatus.PAID })
+      .mockResolvedValueOnce({ status: OrderStatus.PENDING });
+
+    const run = await reconciler.reconcile(ReconciliationTrigger.SCHEDULED);
+
+    expect(queryPayment).toHaveBeenCalledWith(merchant, 'paid');
+    expect(getContext).toHaveBeenCalledTimes(1);
+    expect(run).toMatchObject({
+      status: ReconciliationRunStatus.COMPLETED,
+      checked: 2,
+      updated: 1,
+      unchanged: 1,
+    });
+  });
+
+  it('should cancel open orders past their validity period at DANA', async () => {
+    findMany.mockResolvedValue([
+      order('late', { expiresAt: new Date(Date.now() - 1000) }),
+    ]);
+    queryPayment.mockResolvedValue({ status: OrderStatus.PENDING });
+
+    const run = await reconciler.reconcile(ReconciliationTrigger.SCHEDULED);
+
+    expect(expireOrder).toHaveBeenCalledWith(
+      merchant,
+      'late',
+      'reconciliation: validity period elapsed',
+    );
+    expect(run).toMatchObject({ expired: 1 });
+  });
+
+  it('should count an order paid while it was being cancelled as updated', async () => {
+    findMany.mockResolvedValue([
+      order('just-paid', { expiresAt: new Date(Date.now() - 1000) }),
+    ]);
+    queryPayment.mockResolvedValue({ status: OrderStatus.PENDING });
+    expireOrder.mockResolvedValue({ status: OrderStatus.PAID });
+
+    const run = await reconciler.reconcile(ReconciliationTrigger.SCHEDULED);
+
+    expect(run).toMatchObject({ updated: 1, expired: 0 });
+  });
+
+  it('should expire orders DANA does not know once they are due', async () => {
+    findMany.mockResolvedValue([
+      order('lost', {
+        status: OrderStatus.INIT,
+        expiresAt: new Date(Date.now() - 1000),
+      }),
+    ]);
+    queryPayment.mockRejectedValue(notFound());
+
+    const run = await reconciler.reconcile(ReconciliationTrigger.SCHEDULED);
+
+    expect(expireOrder).toHaveBeenCalled();
+    expect(run).toMatchObject({ expired: 1, errors: 0 });
+  });
+
+  it('should not expire a due order DANA could not be asked about', async () => {
+    findMany.mockResolvedValue([
+      order('late', { expiresAt: new Date(Date.now() - 1000) }),
+    ]);
+    queryPayment.mockRejectedValue(new Error('DANA timed out'));
+
+    const run = await reconciler.reconcile(ReconciliationTrigger.SCHEDULED);
+
+    expect(expireOrder).not.toHaveBeenCalled();
+    expect(run).toMatchObject({ expired: 0, errors: 1 });
+  });
+
+  it('should count failed queries and carry on', async () => {
+    findMany.mockResolvedValue([order('broken'), order('fine')]);
+    queryPayment
+      .mockRejectedValueOnce(new Error('DANA timed out'))
+      .mockResolvedValueOnce({ status: OrderStatus.PAID });
+
+    const run = await reconciler.reconcile(ReconciliationTrigger.MANUAL);
+
+    expect(run).toMatchObject({
+      checked: 2,
+      updated: 1,
+      errors: 1,
+      lastError: 'broken: DANA timed out',
+    });
+  });
+
+  it('should skip a pass while another instance holds the lock', async () => {
+    locked.mockResolvedValue([{ locked: false }]);
+
+    await expect(
+      reconciler.reconcile(ReconciliationTrigger.MANUAL),
+    ).resolves.toBeNull();
+    expect(findMany).not.toHaveBeenCalled();
+  });
+});
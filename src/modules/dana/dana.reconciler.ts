@@ -0,0 +1,219 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import {
+  Order,
+  OrderStatus,
+  ReconciliationRun,
+  ReconciliationRunStatus,
+  ReconciliationTrigger,
+} from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { MerchantService } from '../merchant/merchant.service';
+import { MerchantContext } from '../merchant/merchant.interface';
+import { OrderService } from '../order/order.service';
+import { ReconciliationConfig } from '../../configs/config.interface';
+import { isTransactionNotFound } from './dana.response.codes';
+import { DanaService } from './dana.service';
+
+const RECONCILE_INTERVAL = 'dana-reconcile';
+// one pass at a time across all instances
+const RECONCILE_LOCK = 'dana-reconcile';
+
+type RunCounts = Pick<
+  ReconciliationRun,
+  'checked' | 'updated' | 'expired' | 'unchanged' | 'errors' | 'lastError'
+>;
+
+/**
+ * Settles orders whose finish-notify never arrived. Orders in INIT or PENDING
+ * are queried at DANA, the answer goes through the same syncStatus the
+ * webhook uses, and orders DANA still reports open are cancelled at DANA and
+ * expired once their validity period has passed. Every pass is recorded as a
+ * ReconciliationRun.
+ */
+@Injectable()
+export class DanaReconciler implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(DanaReconciler.name);
+  private readonly config: ReconciliationConfig;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly danaService: DanaService,
+    private readonly orderService: OrderService,
+    private readonly merchantService: MerchantService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    configService: ConfigService,
+  ) {
+    this.config = configService.get<ReconciliationConfig>('reconciliation');
+  }
+
+  onModuleInit() {
+    const interval = setInterval(
+      () =>
+        this.reconcile(ReconciliationTrigger.SCHEDULED).catch((error) =>
+          this.logger.error(`Reconciliation failed: ${error.message}`),
+        ),
+      this.config.intervalMs,
+    );
+    this.schedulerRegistry.addInterval(RECONCILE_INTERVAL, interval);
+  }
+
+  onModuleDestroy() {
+    if (this.schedulerRegistry.doesExist('interval', RECONCILE_INTERVAL)) {
+      this.schedulerRegistry.deleteInterval(RECONCILE_INTERVAL);
+    }
+  }
+
+  /**
+   * One pass over the stuck orders, null when a pass is already running. The
+   * advisory lock is held until the transaction ends with the pass.
+   */
+  async reconcile(
+    trigger: ReconciliationTrigger,
+  ): Promise<ReconciliationRun | null> {
+    return this.prisma.$transaction(
+      async (tx) => {
+        const [{ locked }] = await tx.$queryRaw<{ locked: boolean }[]>`
+          SELECT pg_try_advisory_xact_lock(hashtext(${RECONCILE_LOCK})) AS locked`;
+        return locked ? this.run(trigger) : null;
+      },
+      { timeout: this.config.runTimeoutMs },
+    );
+  }
+
+  async findRuns(limit: number): Promise<ReconciliationRun[]> {
+    return this.prisma.reconciliationRun.findMany({
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  private async run(
+    trigger: ReconciliationTrigger,
+  ): Promise<ReconciliationRun> {
+    const run = await this.prisma.reconciliationRun.create({
+      data: { trigger },
+    });
+
+    const counts: RunCounts = {
+      checked: 0,
+      updated: 0,
+      expired: 0,
+      unchanged: 0,
+      errors: 0,
+      lastError: null,
+    };
+    let status: ReconciliationRunStatus = ReconciliationRunStatus.COMPLETED;
+    try {
+      const merchants = new Map<string, Promise<MerchantContext>>();
+      for (const order of await this.findStuckOrders()) {
+        if (!merchants.has(order.merchantId)) {
+          merchants.set(
+            order.merchantId,
+            this.merchantService.getContext(order.merchantId),
+          );
+        }
+        await this.reconcileOrder(
+          order,
+          await merchants.get(order.merchantId),
+          counts,
+        );
+      }
+    } catch (error) {
+      status = ReconciliationRunStatus.FAILED;
+      counts.lastError = error.message;
+      this.logger.error(
+        `Reconciliation run ${run.id} failed: ${error.message}`,
+      );
+    }
+
+    if (counts.checked) {
+      this.logger.log(
+        `Reconciled ${counts.checked} orders: ${counts.updated} updated, ${counts.expired} expired, ${counts.errors} errors`,
+      );
+    }
+    return this.prisma.reconciliationRun.update({
+      where: { id: run.id },
+      data: { ...counts, status, finishedAt: new Date() },
+    });
+  }
+
+  // oldest first, orders asked about recently wait for the next period
+  private async findStuckOrders(): Promise<Order[]> {
+    const cutoff = new Date(
+      Date.now() - this.config.pendingAfterMinutes * 60 * 1000,
+    );
+    return this.prisma.order.findMany({
+      where: {
+        status: { in: [OrderStatus.INIT, OrderStatus.PENDING] },
+        createdAt: { lte: cutoff },
+        OR: [{ reconciledAt: null }, { reconciledAt: { lte: cutoff } }],
+      },
+      orderBy: [{ reconciledAt: { sort: 'asc', nulls: 'first' } }],
+      take: this.config.batchSize,
+    });
+  }
+
+  private async reconcileOrder(
+    order: Order,
+    merchant: MerchantContext,
+    counts: RunCounts,
+  ): Promise<void> {
+    counts.checked++;
+    await this.prisma.order.update({
+      where: { id: order.id },
+      data: { reconciledAt: new Date() },
+    });
+
+    let status = order.status;
+    let queryError: Error | null = null;
+    try {
+      status = (
+        await this.danaService.queryPayment(merchant, order.partnerReferenceNo)
+      ).status;
+    } catch (error) {
+      queryError = error;
+    }
+
+    if (status !== order.status) {
+      counts.updated++;
+      return;
+    }
+    // DANA may not know an order that never left INIT, it still expires;
+    // any other failure leaves the order for the next pass
+    const overdue = order.expiresAt && order.expiresAt.getTime() <= Date.now();
+    if (overdue && (!queryError || isTransactionNotFound(queryError))) {
+      try {
+        const closed = await this.danaService.expireOrder(
+          merchant,
+          order.partnerReferenceNo,
+          'reconciliation: validity period elapsed',
+        );
+        if (closed.status === OrderStatus.EXPIRED) {
+          counts.expired++;
+        } else {
+          counts.updated++;
+        }
+        return;
+      } catch (error) {
+        queryError = error;
+      }
+    }
+    if (queryError && !isTransactionNotFound(queryError)) {
+      counts.errors++;
+      counts.lastError = `${order.partnerReferenceNo}: ${queryError.message}`;
+      this.logger.warn(
+        `Could not reconcile order ${order.partnerReferenceNo}: ${queryError.message}`,
+      );
+      return;
+    }
+    counts.unchanged++;
+  }
+}
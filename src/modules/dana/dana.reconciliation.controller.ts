@@ -0,0 +1,48 @@
+import {
+  ConflictException,
+  Controller,
+  DefaultValuePipe,
+  Get,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ReconciliationRun, ReconciliationTrigger } from '@prisma/client';
+
+import { AdminGuard } from '../../guards/admin.guard';
+import { DanaReconciler } from './dana.reconciler';
+
+const MAX_RUNS = 100;
+
+@Controller('dana/reconciliation')
+@UseGuards(AdminGuard)
+export class DanaReconciliationController {
+  constructor(private readonly reconciler: DanaReconciler) {}
+
+  /**
+   * Latest reconciliation runs with their counts, newest first
+   */
+  @Get('runs')
+  async findRuns(
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+  ): Promise<ReconciliationRun[]> {
+    return await this.reconciler.findRuns(
+      Math.min(Math.max(limit, 1), MAX_RUNS),
+    );
+  }
+
+  /**
+   * Reconcile stuck orders now instead of waiting for the schedule
+   */
+  @Post('runs')
+  async run(): Promise<ReconciliationRun> {
+    const run = await this.reconciler.reconcile(ReconciliationTrigger.MANUAL);
+    if (!run) {
+      throw new ConflictException(
+        'A reconciliation run is already in progress',
+      );
+    }
+    return run;
+  }
+}
@@ -0,0 +1,111 @@
+import { ConfigType } from '@nestjs/config';
+
+import { DanaApiException } from '../../exceptions/dana.api.exception';
+import { CircuitOpenException } from '../../exceptions/circuit.open.exception';
+import { danaConfig } from './dana.config';
+import { DanaResilience } from './dana.resilience';
+
+describe('DanaResilience', () => {
+  const config = {
+    retryAttempts: 3,
+    retryBaseDelayMs: 1,
+    circuitFailureThreshold: 2,
+    circuitResetSeconds: 30,
+  } as ConfigType<typeof danaConfig>;
+  const outage = () => new DanaApiException('query', 504);
+  const declined = () =>
+    new DanaApiException('query', 403, { responseCode: '4035505' });
+
+  let resilience: DanaResilience;
+  let now: number;
+
+  beforeEach(() => {
+    resilience = new DanaResilience(config);
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should retry idempotent calls on outages', async () => {
+    const call = jest
+      .fn()
+      .mockRejectedValueOnce(outage())
+      .mockResolvedValueOnce('ok');
+
+    await expect(
+      resilience.execute('query', call, { retry: true }),
+    ).resolves.toBe('ok');
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry other calls', async () => {
+    const call = jest.fn().mockRejectedValue(outage());
+
+    await expect(resilience.execute('payment', call)).rejects.toThrow();
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry answers DANA meant', async () => {
+    const call = jest.fn().mockRejectedValue(declined());
+
+    await expect(
+      resilience.execute('query', call, { retry: true }),
+    ).rejects.toThrow();
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('should open the circuit after repeated outages', async () => {
+    const call = jest.fn().mockRejectedValue(outage());
+    await resilience.execute('payment', call).catch(() => null);
+    await resilience.execute('payment', call).catch(() => null);
+
+    const error = await resilience.execute('payment', call).catch((e) => e);
+
+    expect(error).toBeInstanceOf(CircuitOpenException);
+    expect((error as CircuitOpenException).getStatus()).toBe(503);
+    expect(call).toHaveBeenCalledTimes(2);
+    expect(resilience.snapshot()).toMatchObject([
+      { name: 'payment', state: 'OPEN', failures: 2 },
+    ]);
+  });
+
+  it('should not count declined calls as outages', async () => {
+    const call = jest.fn().mockRejectedValue(declined());
+    for (let i = 0; i < 3; i++) {
+      await resilience.execute('payment', call).catch(() => null);
+    }
+
+    expect(call).toHaveBeenCalledTimes(3);
+    expect(resilience.snapshot()[0].state).toBe('CLOSED');
+  });
+
+  it('should close the circuit after a successful probe', async () => {
+    const failing = jest.fn().mockRejectedValue(outage());
+    await resilience.execute('payment', failing).catch(() => null);
+    await resilience.execute('payment', failing).catch(() => null);
+
+    now += 30_000;
+    expect(resilience.snapshot()[0].state).toBe('HALF_OPEN');
+    await resilience.execute('payment', async () => 'ok');
+
+    expect(resilience.snapshot()[0]).toMatchObject({
+      state: 'CLOSED',
+      failures: 0,
+    });
+  });
+
+  it('should reopen the circuit when the probe fails', async () => {
+    const failing = jest.fn().mockRejectedValue(outage());
+    await resilience.execute('payment', failing).catch(() => null);
+    await resilience.execute('payment', failing).catch(() => null);
+
+    now += 30_000;
+    await resilience.execute('payment', failing).catch(() => null);
+
+    expect(resilience.snapshot()[0].state).toBe('OPEN');
+    await expect(resilience.execute('payment', failing)).rejects.toBeInstanceOf(
+      CircuitOpenException,
+    );
+  });
+});
@@ -0,0 +1,196 @@
+import { HttpStatus, Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+
+import { DanaApiException } from '../../exceptions/dana.api.exception';
+import { CircuitOpenException } from '../../exceptions/circuit.open.exception';
+import { danaConfig } from './dana.config';
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface CircuitSnapshot {
+  name: string;
+  state: CircuitState;
+  // consecutive outages, reset by any healthy answer
+  failures: number;
+  openedAt: Date | null;
+  retryAt: Date | null;
+}
+
+interface Circuit {
+  state: CircuitState;
+  failures: number;
+  openedAt: number | null;
+  probing: boolean;
+}
+
+export interface ResilienceOptions {
+  // only calls that are safe to repeat may be retried
+  retry?: boolean;
+}
+
+const MAX_RETRY_DELAY_MS = 5000;
+
+/**
+ * Retry and circuit breaker policy of outbound DANA calls, one circuit per
+ * API. Only outages count against a circuit: timeouts, unreachable hosts and
+ * 5xx answers. DANA declining a payment is a healthy answer. After
+ * circuitFailureThreshold outages in a row the circuit opens and calls fail
+ * fast with a 503 until circuitResetSeconds have passed, then a single probe
+ * decides whether it closes again.
+ */
+@Injectable()
+export class DanaResilience {
+  private readonly logger = new Logger(DanaResilience.name);
+  private readonly circuits = new Map<string, Circuit>();
+
+  constructor(
+    @Inject(danaConfig.KEY)
+    private readonly config: ConfigType<typeof danaConfig>,
+  ) {}
+
+  async execute<T>(
+    name: string,
+    call: () => Promise<T>,
+    options: ResilienceOptions = {},
+  ): Promise<T> {
+    const attempts = options.retry ? this.config.retryAttempts : 1;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.guard(name, call);
+      } catch (error) {
+        if (
+          attempt >= attempts ||
+          error instanceof CircuitOpenException ||
+          !this.isRetryable(error)
+        ) {
+          throw error;
+        }
+        const delay = this.backoff(attempt);
+        this.logger.warn(
+          `${name} attempt ${attempt} failed (${error.message}), retrying in ${delay}ms`,
+        );
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  snapshot(now: number = Date.now()): CircuitSnapshot[] {
+    return [...this.circuits.entries()].map(([name, circuit]) => ({
+      name,
+      state:
+        circuit.state === 'OPEN' && now >= this.retryAt(circuit)
+          ? 'HALF_OPEN'
+          : circuit.state,
+      failures: circuit.failures,
+      openedAt: circuit.openedAt ? new Date(circuit.openedAt) : null,
+      retryAt: circuit.openedAt ? new Date(this.retryAt(circuit)) : null,
+    }));
+  }
+
+  private async guard<T>(name: string, call: () => Promise<T>): Promise<T> {
+    const circuit = this.circuit(name);
+    this.admit(name, circuit);
+
+    try {
+      const result = await call();
+      this.close(name, circuit);
+      return result;
+    } catch (error) {
+      if (!this.isOutage(error)) {
+        this.close(name, circuit);
+      } else {
+        circuit.probing = false;
+        circuit.failures++;
+        if (
+          circuit.state === 'HALF_OPEN' ||
+          circuit.failures >= this.config.circuitFailureThreshold
+        ) {
+          this.logger.error(
+            `Circuit ${name} opened after ${circuit.failures} failures: ${error.message}`,
+          );
+          circuit.state = 'OPEN';
+          circuit.openedAt = Date.now();
+        }
+      }
+      throw error;
+    }
+  }
+
+  // lets a call through or rejects it while the circuit is open
+  private admit(name: string, circuit: Circuit) {
+    if (circuit.state === 'OPEN' && Date.now() >= this.retryAt(circuit)) {
+      circuit.state = 'HALF_OPEN';
+    }
+    if (
+      circuit.state === 'OPEN' ||
+      (circuit.state === 'HALF_OPEN' && circuit.probing)
+    ) {
+      throw new CircuitOpenException(name, new Date(this.retryAt(circuit)));
+    }
+    if (circuit.state === 'HALF_OPEN') {
+      circuit.probing = true;
+    }
+  }
+
+  private close(name: string, circuit: Circuit) {
+    if (circuit.state !== 'CLOSED') {
+      this.logger.log(`Circuit ${name} closed`);
+    }
+    Object.assign(circuit, {
+      state: 'CLOSED',
+      failures: 0,
+      openedAt: null,
+      probing: false,
+    });
+  }
+
+  private circuit(name: string): Circuit {
+    let circuit = this.circuits.get(name);
+    if (!circuit) {
+      circuit = {
+        state: 'CLOSED',
+        failures: 0,
+        openedAt: null,
+        probing: false,
+      };
+      this.circuits.set(name, circuit);
+    }
+    return circuit;
+  }
+
+  private retryAt(circuit: Circuit): number {
+    return circuit.openedAt + this.config.circuitResetSeconds * 1000;
+  }
+
+  private isOutage(error: unknown): boolean {
+    if (error instanceof CircuitOpenException) {
+      // another circuit's verdict, e.g. the token call of this one
+      return false;
+    }
+    return (
+      !(error instanceof DanaApiException) ||
+      error.getStatus() >= HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+
+  private isRetryable(error: unknown): boolean {
+    return (
+      this.isOutage(error) ||
+      (error instanceof DanaApiException &&
+        error.getStatus() === HttpStatus.TOO_MANY_REQUESTS)
+    );
+  }
+
+  // exponential backoff with full jitter
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(
+      MAX_RETRY_DELAY_MS,
+      this.config.retryBaseDelayMs * 2 ** (attempt - 1),
+    );
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
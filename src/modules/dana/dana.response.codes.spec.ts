@@ -0,0 +1,67 @@
+import { DanaApiException } from '../../exceptions/dana.api.exception';
+import { DuplicateReferenceException } from '../../exceptions/duplicate.reference.exception';
+import { InsufficientBalanceException } from '../../exceptions/insufficient.balance.exception';
+import { InvalidSignatureException } from '../../exceptions/invalid.signature.exception';
+import { TokenExpiredException } from '../../exceptions/token.expired.exception';
+import {
+  findResponseCase,
+  parseSnapCode,
+  toDanaException,
+} from './dana.response.codes';
+
+describe('dana.response.codes', () => {
+  it('should split a SNAP code into status, service and case', () => {
+    expect(parseSnapCode('4035414')).toEqual({
+      httpStatus: 403,
+      serviceCode: '54',
+      caseCode: '14',
+    });
+    expect(parseSnapCode('2027800')).toEqual({
+      httpStatus: 202,
+      serviceCode: '78',
+      caseCode: '00',
+    });
+  });
+
+  it('should not parse malformed codes', () => {
+    expect(parseSnapCode(undefined)).toBeNull();
+    expect(parseSnapCode('40354')).toBeNull();
+    expect(parseSnapCode('403541a')).toBeNull();
+  });
+
+  it('should look cases up independently of the service', () => {
+    expect(findResponseCase('4015400')?.code).toBe('DANA_INVALID_SIGNATURE');
+    expect(findResponseCase('4017700')?.code).toBe('DANA_INVALID_SIGNATURE');
+    expect(findResponseCase('4035499')).toBeUndefined();
+  });
+
+  it.each([
+    ['4035414', InsufficientBalanceException, 'DANA_INSUFFICIENT_BALANCE'],
+    ['4094701', DuplicateReferenceException, 'DANA_DUPLICATE_REFERENCE'],
+    ['4015500', InvalidSignatureException, 'DANA_INVALID_SIGNATURE'],
+    ['4017801', TokenExpiredException, 'DANA_TOKEN_EXPIRED'],
+  ])('should throw %s as its typed exception', (code, type, errorCode) => {
+    const error = toDanaException('test', {
+      responseCode: code,
+      responseMessage: 'whatever DANA says',
+    });
+
+    expect(error).toBeInstanceOf(type);
+    expect(error).toBeInstanceOf(DanaApiException);
+    expect(error.getErrorCode()).toBe(errorCode);
+    expect(error.getResponseCode()).toBe(code);
+    expect(error.getStatus()).toBe(parseInt(code.slice(0, 3), 10));
+  });
+
+  it('should fall back to a generic exception for unknown codes', () => {
+    const error = toDanaException('test', {
+      responseCode: '2005401',
+      responseMessage: 'Odd success',
+    });
+
+    expect(error.constructor).toBe(DanaApiException);
+    expect(error.getErrorCode()).toBe('DANA_ERROR');
+    expect(error.getStatus()).toBe(502);
+    expect(error.message).toBe('Odd success');
+  });
+});
@@ -0,0 +1,176 @@
+import { HttpStatus } from '@nestjs/common';
+
+import { CustomerTokenExpiredException } from '../../exceptions/customer.token.expired.exception';
+import { DanaApiException } from '../../exceptions/dana.api.exception';
+import { DuplicateReferenceException } from '../../exceptions/duplicate.reference.exception';
+import { InsufficientBalanceException } from '../../exceptions/insufficient.balance.exception';
+import { InvalidSignatureException } from '../../exceptions/invalid.signature.exception';
+import { TokenExpiredException } from '../../exceptions/token.expired.exception';
+
+/**
+ * A SNAP responseCode split into its parts: HTTP status (3 digits), service
+ * code of the API that answered (2) and case code (2). 4035405 is a 403 from
+ * debit payment (54), case 05 "Do Not Honor".
+ */
+export interface SnapCode {
+  httpStatus: number;
+  serviceCode: string;
+  caseCode: string;
+}
+
+export interface DanaResponseCase {
+  // stable error code our API answers with
+  code: string;
+  message: string;
+  exception?: typeof DanaApiException;
+}
+
+const SNAP_CODE_REGEX = /^(\d{3})(\d{2})(\d{2})$/;
+
+// cases mean the same for every service, keyed by HTTP status + case code
+export const DANA_RESPONSE_CASES: { [key: string]: DanaResponseCase } = {
+  '40000': { code: 'DANA_BAD_REQUEST', message: 'Bad request' },
+  '40001': {
+    code: 'DANA_INVALID_FIELD_FORMAT',
+    message: 'Invalid field format',
+  },
+  '40002': {
+    code: 'DANA_MISSING_MANDATORY_FIELD',
+    message: 'Missing mandatory field',
+  },
+  '40100': {
+    code: 'DANA_INVALID_SIGNATURE',
+    message: 'DANA rejected the request signature',
+    exception: InvalidSignatureException,
+  },
+  '40101': {
+    code: 'DANA_TOKEN_EXPIRED',
+    message: 'DANA access token is invalid or expired',
+    exception: TokenExpiredException,
+  },
+  '40102': {
+    code: 'DANA_CUSTOMER_TOKEN_EXPIRED',
+    message: 'Customer token is invalid or expired',
+    exception: CustomerTokenExpiredException,
+  },
+  '40302': {
+    code: 'DANA_AMOUNT_LIMIT_EXCEEDED',
+    message: 'Transaction amount limit exceeded',
+  },
+  '40303': { code: 'DANA_SUSPECTED_FRAUD', message: 'Suspected fraud' },
+  '40305': { code: 'DANA_DO_NOT_HONOR', message: 'Do not honor' },
+  '40314': {
+    code: 'DANA_INSUFFICIENT_BALANCE',
+    message: 'Insufficient balance',
+    exception: InsufficientBalanceException,
+  },
+  '40315': {
+    code: 'DANA_TRANSACTION_NOT_PERMITTED',
+    message: 'Transaction not permitted',
+  },
+  '40318': { code: 'DANA_INACTIVE_ACCOUNT', message: 'Inactive account' },
+  '40401': {
+    code: 'DANA_TRANSACTION_NOT_FOUND',
+    message: 'Transaction not found',
+  },
+  '40408': { code: 'DANA_INVALID_MERCHANT', message: 'Invalid merchant' },
+  '40411': { code: 'DANA_INVALID_ACCOUNT', message: 'Invalid card or account' },
+  '40413': { code: 'DANA_INVALID_AMOUNT', message: 'Invalid amount' },
+  '40900': { code: 'DANA_CONFLICT', message: 'Conflict' },
+  '40901': {
+    code: 'DANA_DUPLICATE_REFERENCE',
+    message: 'Duplicate partner reference number',
+    exception: DuplicateReferenceException,
+  },
+  '42900': { code: 'DANA_TOO_MANY_REQUESTS', message: 'Too many requests' },
+  '50000': { code: 'DANA_GENERAL_ERROR', message: 'DANA general error' },
+  '50001': { code: 'DANA_INTERNAL_ERROR', message: 'DANA internal error' },
+  '50400': { code: 'DANA_TIMEOUT', message: 'DANA timed out' },
+};
+
+export function parseSnapCode(responseCode?: string): SnapCode | null {
+  const match = SNAP_CODE_REGEX.exec(responseCode || '');
+  if (!match) {
+    return null;
+  }
+  return {
+    httpStatus: parseInt(match[1], 10),
+    serviceCode: match[2],
+    caseCode: match[3],
+  };
+}
+
+export function findResponseCase(
+  responseCode?: string,
+): DanaResponseCase | undefined {
+  const snap = parseSnapCode(responseCode);
+  return snap && DANA_RESPONSE_CASES[`${snap.httpStatus}${snap.caseCode}`];
+}
+
+/**
+ * The exception for a DANA answer we do not accept. Known cases get their
+ * typed exception and stable code, the HTTP status follows DANA's.
+ */
+export function toDanaException(
+  endpoint: string,
+  danaResponse?: Record<string, any>,
+  status?: number,
+  message?: string,
+): DanaApiException {
+  const snap = parseSnapCode(danaResponse?.responseCode);
+  const known = findResponseCase(danaResponse?.responseCode);
+  const httpStatus =
+    status ||
+    (snap?.httpStatus >= 400 && snap?.httpStatus < 600
+      ? snap.httpStatus
+      : HttpStatus.BAD_GATEWAY);
+  const Exception = known?.exception || DanaApiException;
+  return new Exception(
+    endpoint,
+    httpStatus,
+    danaResponse,
+    known?.message || danaResponse?.responseMessage || message,
+    known?.code,
+  );
+}
+
+/**
+ * The exception for a DANA call that failed at the HTTP level. A DANA answer
+ * keeps its body and status, a timeout is a 504 and anything else a 502.
+ */
+export function fromHttpError(endpoint: string, error: any): DanaApiException {
+  if (error instanceof DanaApiException) {
+    return error;
+  }
+  if (error?.response) {
+    const data =
+      error.response.data && typeof error.response.data === 'object'
+        ? error.response.data
+        : undefined;
+    return toDanaException(
+      endpoint,
+      data,
+      error.response.status,
+      `DANA ${endpoint} answered ${error.response.status}`,
+    );
+  }
+
+  const timedOut =
+    error?.code === 'ECONNABORTED' || error?.code === 'ETIMEDOUT';
+  return new DanaApiException(
+    endpoint,
+    timedOut ? HttpStatus.GATEWAY_TIMEOUT : HttpStatus.BAD_GATEWAY,
+    undefined,
+    timedOut
+      ? `DANA ${endpoint} timed out`
+      : `DANA ${endpoint} unreachable: ${error?.message}`,
+  );
+}
+
+// DANA has no transaction under the reference we asked about
+export function isTransactionNotFound(error: unknown): boolean {
+  return (
+    error instanceof DanaApiException &&
+    error.getErrorCode() === 'DANA_TRANSACTION_NOT_FOUND'
+  );
+}
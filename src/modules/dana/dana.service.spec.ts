@@ -0,0 +1,831 @@
+import { ConfigType } from '@nestjs/config';
+import { AxiosError } from 'axios';
+import {
+  IdempotencyKey,
+  IdempotencyKeyStatus,
+  Order,
+  OrderStatus,
+  OrderType,
+  Prisma,
+  Refund,
+  RefundStatus,
+} from '@prisma/client';
+
+import { DanaApiException } from '../../exceptions/dana.api.exception';
+import { IdempotencyService } from '../idempotency/idempotency.service';
+import { MerchantContext } from '../merchant/merchant.interface';
+import { MerchantService } from '../merchant/merchant.service';
+import { OrderService } from '../order/order.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RefundService } from '../refund/refund.service';
+import { DanaApiClient } from './dana.api.client';
+import { DanaBindingService } from './dana.binding.service';
+import { danaConfig } from './dana.config';
+import { CreateOrderDto, DanaClientHeaders } from './dana.dto';
+import { DANA_ENDPOINTS } from './dana.endpoints';
+import { DanaPayMethods } from './dana.pay.methods';
+import { DanaService } from './dana.service';
+import { DanaTokenProvider } from './dana.token.provider';
+
+describe('DanaService', () => {
+  const merchant = {
+    id: 'merchant-1',
+    code: 'brand-a',
+    merchantId: '216620000000000000000',
+  } as MerchantContext;
+  const defaults = {
+    orderValidityMinutes: 30,
+    maxOrderValidityMinutes: 1440,
+  } as ConfigType<typeof danaConfig>;
+  const headers: DanaClientHeaders = { 'idempotency-key': 'key-1' };
+  const payload: CreateOrderDto = { amount: '10000.00' };
+  const timedOut = () =>
+    new DanaApiException('debit payment', 504, undefined, 'timed out');
+
+  let config: ConfigType<typeof danaConfig>;
+  let orders: Map<string, Order>;
+  let orderService: Partial<Record<keyof OrderService, jest.Mock>>;
+  let call: jest.Mock;
+  let getContext: jest.Mock;
+  let refundService: Partial<Record<keyof RefundService, jest.Mock>>;
+  let service: DanaService;
+
+  // the subset of prisma.idempotencyKey IdempotencyService uses, in memory
+  const idempotencyKeys = () => {
+    const rows = new Map<string, IdempotencyKey>();
+    const save = (row: IdempotencyKey) => {
+      rows.set(row.key, { ...row, updatedAt: new Date() });
+      return rows.get(row.key);
+    };
+    const byId = (id: string) =>
+      [...rows.values()].find((row) => row.id === id);
+    const duplicate = new Prisma.PrismaClientKnownRequestError('duplicate', {
+      code: 'P2002',
+      clientVersion: 'test',
+    });
+    return {
+      create: jest.fn(async ({ data }) => {
+        if (rows.has(data.key)) {
+          throw duplicate;
+        }
+        return save({
+          id: `id-${data.key}`,
+          status: IdempotencyKeyStatus.IN_PROGRESS,
+          reference: null,
+          response: null,
+          createdAt: new Date(),
+          ...data,
+        });
+      }),
+      findUnique: jest.fn(async ({ where }) =>
+        rows.get(where.merchantId_key.key),
+      ),
+      update: jest.fn(async ({ where, data }) =>
+        save({ ...byId(where.id), ...data }),
+      ),
+      updateMany: jest.fn(async ({ where, data }) => {
+        save({ ...byId(where.id), ...data });
+        return { count: 1 };
+      }),
+      deleteMany: jest.fn(async ({ where }) => {
+        rows.delete(byId(where.id)?.key);
+        return { count: 1 };
+      }),
+    };
+  };
+
+  const storedOrder = (overrides: Partial<Order> = {}): Order =>
+    ({
+      id: 'order-id',
+      merchantId: merchant.id,
+      partnerReferenceNo: 'order-1',
+      referenceNo: null,
+      type: OrderType.PAYMENT_GATEWAY,
+      amount: new Prisma.Decimal('10000.00'),
+      currency: 'IDR',
+      status: OrderStatus.INIT,
+      rawRequest: null,
+      rawResponse: null,
+      qrContent: null,
+      returnUrl: null,
+      ...overrides,
+    }) as Order;
+
+  beforeEach(() => {
+    config = { ...defaults };
+    orders = new Map();
+    const find = async (partnerReferenceNo: string) =>
+      orders.get(partnerReferenceNo);
+    const move = async (
+      partnerReferenceNo: string,
+      status: OrderStatus,
+      input: Partial<Order> = {},
+    ) => {
+      const order = {
+        ...orders.get(partnerReferenceNo),
+        status,
+        referenceNo:
+          input.referenceNo ?? orders.get(partnerReferenceNo).referenceNo,
+        rawResponse: input.rawResponse ?? null,
+        qrContent: input.qrContent ?? null,
+      };
+      orders.set(partnerReferenceNo, order);
+      return order;
+    };
+    orderService = {
+      create: jest.fn(async (input) => {
+        const order = storedOrder(input);
+        orders.set(order.partnerReferenceNo, order);
+        return order;
+      }),
+      findByPartnerReferenceNo: jest.fn(find),
+      transition: jest.fn(move),
+      syncStatus: jest.fn(move),
+    };
+    call = jest.fn();
+    getContext = jest.fn(async () => merchant);
+    refundService = {
+      reserve: jest.fn(
+        async (order: Order, amount: string, reason, partnerRefundNo) =>
+          ({
+            partnerRefundNo,
+            paymentId: 'payment-id',
+            amount: new Prisma.Decimal(amount),
+            status: RefundStatus.PENDING,
+            refundNo: null,
+          }) as Refund,
+      ),
+      attachRequest: jest.fn(),
+      complete: jest.fn(
+        async (partnerRefundNo: string, status: RefundStatus, result = {}) =>
+          ({
+            partnerRefundNo,
+            paymentId: 'payment-id',
+            status,
+            refundNo: null,
+            ...result,
+          }) as Refund,
+      ),
+      refundableAmount: jest.fn(async () => new Prisma.Decimal('6000.00')),
+    };
+
+    service = new DanaService(
+      config,
+      orderService as unknown as OrderService,
+      refundService as unknown as RefundService,
+      {} as DanaTokenProvider,
+      { call } as Partial<DanaApiClient> as DanaApiClient,
+      new IdempotencyService({
+        idempotencyKey: idempotencyKeys(),
+      } as unknown as PrismaService),
+      {} as DanaPayMethods,
+      { getContext } as Partial<MerchantService> as MerchantService,
+      {} as DanaBindingService,
+    );
+  });
+
+  const endpointsCalled = () => call.mock.calls.map(([, endpoint]) => endpoint);
+
+  describe('retried create-order', () => {
+    it('should send an order DANA never received again, under the same reference', async () => {
+      call.mockRejectedValueOnce(timedOut());
+      await expect(
+        service.createOrder(merchant, headers, payload),
+      ).rejects.toThrow('timed out');
+      const [reference] = orders.keys();
+
+      call
+        .mockResolvedValueOnce({
+          responseCode: '2005500',
+          latestTransactionStatus: '07',
+        })
+        .mockResolvedValueOnce({
+          responseCode: '2005400',
+          responseMessage: 'Successful',
+          referenceNo: 'dana-1',
+          partnerReferenceNo: reference,
+        });
+      const response = await service.createOrder(merchant, headers, payload);
+
+      expect(response.partnerReferenceNo).toBe(reference);
+      expect(orderService.create).toHaveBeenCalledTimes(1);
+      expect(endpointsCalled()).toEqual([
+        DANA_ENDPOINTS.debitPayment,
+        DANA_ENDPOINTS.debitStatus,
+        DANA_ENDPOINTS.debitPayment,
+      ]);
+      expect(call.mock.calls[2][2]).toEqual(call.mock.calls[0][2]);
+      expect(call.mock.calls[2][3].externalId).toBe(reference);
+      expect(orders.get(reference).status).toBe(OrderStatus.PENDING);
+    });
+
+    it('should not send an order DANA already has again', async () => {
+      call.mockRejectedValueOnce(timedOut());
+      await expect(
+        service.createOrder(merchant, headers, payload),
+      ).rejects.toThrow('timed out');
+      const [reference] = orders.keys();
+
+      call.mockResolvedValueOnce({
+        responseCode: '2005500',
+        responseMessage: 'Successful',
+        latestTransactionStatus: '01',
+        originalReferenceNo: 'dana-1',
+      });
+      const response = await service.createOrder(merchant, headers, payload);
+
+      expect(response).toMatchObject({
+        partnerReferenceNo: reference,
+        referenceNo: 'dana-1',
+      });
+      expect(orderService.create).toHaveBeenCalledTimes(1);
+      expect(endpointsCalled()).toEqual([
+        DANA_ENDPOINTS.debitPayment,
+        DANA_ENDPOINTS.debitStatus,
+      ]);
+    });
+
+    it('should let a request that failed validation start over', async () => {
+      await expect(
+        service.createOrder(merchant, headers, {
+          ...payload,
+          payOption: 'NETWORK_PAY_PG_OVO',
+        }),
+      ).rejects.toThrow('Invalid request');
+
+      call.mockResolvedValueOnce({
+        responseCode: '2005400',
+        responseMessage: 'Successful',
+      });
+      await service.createOrder(merchant, headers, payload);
+
+      expect(orderService.create).toHaveBeenCalledTimes(1);
+      expect(endpointsCalled()).toEqual([DANA_ENDPOINTS.debitPayment]);
+    });
+  });
+
+  describe('queryPayment', () => {
+    it('should record a payment DANA reports', async () => {
+      orders.set('order-1', storedOrder({ status: OrderStatus.PENDING }));
+      call.mockResolvedValueOnce({
+        responseCode: '2005500',
+        latestTransactionStatus: '00',
+        transactionStatusDesc: 'SUCCESS',
+        originalReferenceNo: 'dana-1',
+        transAmount: { value: '10000.00', currency: 'IDR' },
+        paidTime: '2024-05-02T17:00:00+07:00',
+      });
+
+      const status = await service.queryPayment(merchant, 'order-1');
+
+      expect(status).toMatchObject({
+        referenceNo: 'dana-1',
+        status: OrderStatus.PAID,
+        danaStatus: '00',
+        paidTime: '2024-05-02T17:00:00+07:00',
+      });
+      expect(orderService.syncStatus).toHaveBeenCalledWith(
+        'order-1',
+        OrderStatus.PAID,
+        expect.objectContaining({
+          reason: 'query: SUCCESS',
+          paidAmount: '10000.00',
+          paidAt: new Date('2024-05-02T10:00:00Z'),
+        }),
+      );
+      expect(call.mock.calls[0][2]).toMatchObject({ serviceCode: '54' });
+    });
+
+    it('should keep an order DANA is still waiting on PENDING', async () => {
+      orders.set(
+        'order-1',
+        storedOrder({ status: OrderStatus.PENDING, type: OrderType.QRIS }),
+      );
+      call.mockResolvedValueOnce({
+        responseCode: '2004700',
+        latestTransactionStatus: '01',
+        transactionStatusDesc: 'INIT',
+      });
+
+      const status = await service.queryPayment(merchant, 'order-1');
+
+      expect(status).toMatchObject({
+        status: OrderStatus.PENDING,
+        danaStatus: '01',
+      });
+      expect(endpointsCalled()).toEqual([DANA_ENDPOINTS.qrisQuery]);
+      expect(call.mock.calls[0][2]).toMatchObject({ serviceCode: '47' });
+    });
+
+    it.each([
+      [new AxiosError('socket hang up'), 502, 'socket hang up'],
+      [new Error('db down'), 500, 'db down'],
+    ])(
+      'should answer %s with an HTTP error',
+      async (error, status, message) => {
+        orders.set('order-1', storedOrder({ status: OrderStatus.PENDING }));
+        call.mockRejectedValueOnce(error);
+
+        const thrown = await service
+          .queryPayment(merchant, 'order-1')
+          .catch((e) => e);
+
+        expect(thrown.getStatus()).toBe(status);
+        expect(thrown.message).toBe(message);
+      },
+    );
+
+    it('should leave the order alone when the query fails', async () => {
+      orders.set('order-1', storedOrder({ status: OrderStatus.PENDING }));
+      call.mockRejectedValueOnce(
+        new DanaApiException('debit status', 404, {
+          responseCode: '4045501',
+          responseMessage: 'Transaction Not Found',
+        }),
+      );
+
+      await expect(service.queryPayment(merchant, 'order-1')).rejects.toThrow(
+        DanaApiException,
+      );
+      expect(orderService.syncStatus).not.toHaveBeenCalled();
+    });
+
+    it('should leave a partially refunded order PAID', async () => {
+      orders.set(
+        'order-1',
+        storedOrder({ status: OrderStatus.PAID, referenceNo: 'dana-1' }),
+      );
+      call.mockResolvedValueOnce({
+        responseCode: '2005500',
+        latestTransactionStatus: '04',
+        transactionStatusDesc: 'REFUNDED',
+      });
+
+      const status = await service.queryPayment(merchant, 'order-1');
+
+      expect(status).toMatchObject({
+        status: OrderStatus.PAID,
+        danaStatus: '04',
+      });
+      expect(orderService.syncStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expireOrder', () => {
+    const reason = 'reconciliation: validity period elapsed';
+
+    beforeEach(() => {
+      orders.set(
+        'order-1',
+        storedOrder({ status: OrderStatus.PENDING, referenceNo: 'dana-1' }),
+      );
+    });
+
+    it('should cancel the order at DANA before expiring it', async () => {
+      call.mockResolvedValueOnce({
+        responseCode: '2005700',
+        responseMessage: 'Successful',
+      });
+
+      const order = await service.expireOrder(merchant, 'order-1', reason);
+
+      expect(order.status).toBe(OrderStatus.EXPIRED);
+      expect(endpointsCalled()).toEqual([DANA_ENDPOINTS.debitCancel]);
+      expect(call.mock.calls[0][2]).toMatchObject({
+        originalPartnerReferenceNo: 'order-1',
+        originalReferenceNo: 'dana-1',
+        reason,
+      });
+    });
+
+    it('should expire an order DANA never received', async () => {
+      call.mockRejectedValueOnce(
+        new DanaApiException(
+          'debit cancel',
+          404,
+          { responseCode: '4045701' },
+          undefined,
+          'DANA_TRANSACTION_NOT_FOUND',
+        ),
+      );
+
+      const order = await service.expireOrder(merchant, 'order-1', reason);
+
+      expect(order.status).toBe(OrderStatus.EXPIRED);
+    });
+
+    it('should take the payment of an order paid before DANA could cancel it', async () => {
+      call
+        .mockRejectedValueOnce(
+          new DanaApiException('debit cancel', 403, {
+            responseCode: '4035700',
+            responseMessage: 'Transaction Not Permitted',
+          }),
+        )
+        .mockResolvedValueOnce({
+          responseCode: '2005500',
+          latestTransactionStatus: '00',
+          transactionStatusDesc: 'SUCCESS',
+        });
+
+      const order = await service.expireOrder(merchant, 'order-1', reason);
+
+      expect(order.status).toBe(OrderStatus.PAID);
+      expect(endpointsCalled()).toEqual([
+        DANA_ENDPOINTS.debitCancel,
+        DANA_ENDPOINTS.debitStatus,
+      ]);
+    });
+
+    it('should leave the order open when DANA cannot be reached', async () => {
+      call.mockRejectedValue(timedOut());
+
+      await expect(
+        service.expireOrder(merchant, 'order-1', reason),
+      ).rejects.toThrow('timed out');
+      expect(orders.get('order-1').status).toBe(OrderStatus.PENDING);
+    });
+  });
+
+  describe('invalid QR codes', () => {
+    const generated = {
+      responseCode: '2004700',
+      responseMessage: 'Successful',
+      referenceNo: 'dana-1',
+      partnerReferenceNo: 'qr-1',
+      qrContent: 'not-a-qris-payload',
+    };
+    const generate = () =>
+      service.getQrisPayment(merchant, headers, {
+        partnerReferenceNo: 'qr-1',
+        amount: '10000.00',
+      });
+
+    it('should cancel the order at DANA before failing it', async () => {
+      call.mockResolvedValueOnce(generated).mockResolvedValueOnce({
+        responseCode: '2007700',
+        responseMessage: 'Successful',
+      });
+
+      const error = await generate().catch((e) => e);
+
+      expect(error.getErrorCode()).toBe('DANA_INVALID_QR');
+      expect(endpointsCalled()).toEqual([
+        DANA_ENDPOINTS.qrisGenerate,
+        DANA_ENDPOINTS.qrisCancel,
+      ]);
+      expect(call.mock.calls[1][2]).toMatchObject({
+        originalPartnerReferenceNo: 'qr-1',
+        originalReferenceNo: 'dana-1',
+      });
+      expect(orders.get('qr-1').status).toBe(OrderStatus.FAILED);
+    });
+
+    it('should keep the order open without a QR code when DANA cannot cancel it', async () => {
+      call.mockResolvedValueOnce(generated).mockRejectedValueOnce(timedOut());
+
+      await expect(generate()).rejects.toThrow('invalid QR code');
+
+      expect(orders.get('qr-1')).toMatchObject({
+        status: OrderStatus.PENDING,
+        referenceNo: 'dana-1',
+        qrContent: null,
+      });
+    });
+  });
+
+  describe('order URLs', () => {
+    const created = { responseCode: '2005400', responseMessage: 'Successful' };
+    const urlParams = () => call.mock.calls[0][2].urlParams;
+
+    beforeEach(() => {
+      call.mockResolvedValue(created);
+    });
+
+    it('should send buyers through our checkout landing and DANA to the tenant webhook', async () => {
+      config.publicUrl = 'https://pay.example.com';
+      config.payReturnUrl = 'https://shop.example.com/done';
+
+      await service.createOrder(merchant, headers, {
+        ...payload,
+        partnerReferenceNo: 'order 1',
+        returnUrl: 'https://shop.example.com/order/1',
+      });
+
+      expect(urlParams()).toEqual([
+        {
+          url: 'https://pay.example.com/api/v1/dana/checkout/return/order%201',
+          type: 'PAY_RETURN',
+          isDeeplink: 'N',
+        },
+        {
+          url: 'https://pay.example.com/api/v1/dana/webhook/brand-a',
+          type: 'NOTIFICATION',
+          isDeeplink: 'N',
+        },
+      ]);
+      expect(orders.get('order 1').returnUrl).toBe(
+        'https://shop.example.com/order/1',
+      );
+    });
+
+    it('should prefer the URLs of the order over the configured ones', async () => {
+      config.payReturnUrl = 'https://shop.example.com/done';
+      config.notificationUrl = 'https://hooks.example.com/dana';
+
+      await service.createOrder(merchant, headers, {
+        ...payload,
+        returnUrl: 'https://shop.example.com/order/1',
+        notifyUrl: 'https://shop.example.com/dana',
+      });
+
+      expect(urlParams()).toEqual([
+        expect.objectContaining({
+          url: 'https://shop.example.com/order/1',
+          type: 'PAY_RETURN',
+        }),
+        expect.objectContaining({
+          url: 'https://shop.example.com/dana',
+          type: 'NOTIFICATION',
+        }),
+      ]);
+    });
+
+    it('should fall back to the configured URLs', async () => {
+      config.publicUrl = 'https://pay.example.com';
+      config.payReturnUrl = 'https://shop.example.com/done';
+      config.notificationUrl = 'https://hooks.example.com/dana';
+
+      await service.createOrder(merchant, headers, payload);
+
+      expect(urlParams().map(({ url }) => url)).toEqual([
+        expect.stringMatching(
+          /^https:\/\/pay\.example\.com\/api\/v1\/dana\/checkout\/return\//,
+        ),
+        'https://hooks.example.com/dana',
+      ]);
+      const [order] = orders.values();
+      expect(order.returnUrl).toBe('https://shop.example.com/done');
+    });
+
+    it('should send no URLs when none are configured', async () => {
+      await service.createOrder(merchant, headers, payload);
+
+      expect(urlParams()).toEqual([]);
+    });
+
+    it('should refuse a REDIRECT checkout buyers cannot return from', async () => {
+      await expect(
+        service.createOrder(merchant, headers, {
+          ...payload,
+          mode: 'REDIRECT',
+        }),
+      ).rejects.toThrow('Invalid request');
+      expect(call).not.toHaveBeenCalled();
+      expect(orderService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkoutReturn', () => {
+    it('should report the status DANA has for an open order', async () => {
+      orders.set(
+        'order-1',
+        storedOrder({
+          status: OrderStatus.PENDING,
+          returnUrl: 'https://shop.example.com/order/1',
+        }),
+      );
+      call.mockResolvedValueOnce({
+        responseCode: '2005500',
+        latestTransactionStatus: '00',
+        transactionStatusDesc: 'SUCCESS',
+      });
+
+      await expect(service.checkoutReturn('order-1')).resolves.toEqual({
+        partnerReferenceNo: 'order-1',
+        status: OrderStatus.PAID,
+        returnUrl: 'https://shop.example.com/order/1',
+      });
+      expect(getContext).toHaveBeenCalledWith(merchant.id);
+      expect(endpointsCalled()).toEqual([DANA_ENDPOINTS.debitStatus]);
+    });
+
+    it('should not ask DANA about a closed order', async () => {
+      orders.set('order-1', storedOrder({ status: OrderStatus.CANCELLED }));
+
+      await expect(service.checkoutReturn('order-1')).resolves.toEqual({
+        partnerReferenceNo: 'order-1',
+        status: OrderStatus.CANCELLED,
+        returnUrl: null,
+      });
+      expect(call).not.toHaveBeenCalled();
+    });
+
+    it('should report the stored status when DANA cannot be reached', async () => {
+      orders.set('order-1', storedOrder({ status: OrderStatus.PENDING }));
+      call.mockRejectedValueOnce(timedOut());
+
+      await expect(service.checkoutReturn('order-1')).resolves.toMatchObject({
+        status: OrderStatus.PENDING,
+      });
+    });
+  });
+
+  describe('refundPayment', () => {
+    const refund = { refundAmount: '4000', merchantRefundNo: 'r-1' };
+
+    beforeEach(() => {
+      orders.set(
+        'order-1',
+        storedOrder({ status: OrderStatus.PAID, referenceNo: 'dana-1' }),
+      );
+    });
+
+    it('should settle a refund DANA accepts', async () => {
+      call.mockResolvedValueOnce({
+        responseCode: '2005800',
+        responseMessage: 'Successful',
+        refundNo: 'dana-r-1',
+        refundTime: '2024-05-03T10:00:00+07:00',
+      });
+
+      const response = await service.refundPayment(merchant, 'order-1', refund);
+
+      expect(response).toEqual({
+        resultCode: '2005800',
+        resultMessage: 'Successful',
+        danaTradeNo: 'dana-1',
+        merchantRefundNo: 'r-1',
+        danaRefundNo: 'dana-r-1',
+        refundAmount: '4000.00',
+        refundStatus: RefundStatus.SUCCESS,
+        refundableAmount: '6000.00',
+      });
+      expect(refundService.reserve).toHaveBeenCalledWith(
+        orders.get('order-1'),
+        '4000.00',
+        undefined,
+        'r-1',
+      );
+      expect(call).toHaveBeenCalledWith(
+        merchant,
+        DANA_ENDPOINTS.debitRefund,
+        expect.objectContaining({
+          originalPartnerReferenceNo: 'order-1',
+          originalReferenceNo: 'dana-1',
+          partnerRefundNo: 'r-1',
+          refundAmount: { value: '4000.00', currency: 'IDR' },
+        }),
+        { externalId: 'r-1' },
+      );
+      expect(refundService.complete).toHaveBeenCalledWith(
+        'r-1',
+        RefundStatus.SUCCESS,
+        expect.objectContaining({
+          refundNo: 'dana-r-1',
+          refundedAt: new Date('2024-05-03T03:00:00Z'),
+        }),
+      );
+    });
+
+    it('should refund a QRIS order through the QRIS API', async () => {
+      orders.set(
+        'order-1',
+        storedOrder({ status: OrderStatus.PAID, type: OrderType.QRIS }),
+      );
+      call.mockResolvedValueOnce({ responseCode: '2007800' });
+
+      await service.refundPayment(merchant, 'order-1', refund);
+
+      expect(endpointsCalled()).toEqual([DANA_ENDPOINTS.qrisRefund]);
+    });
+
+    it('should leave a refund DANA is still processing PENDING', async () => {
+      call.mockResolvedValueOnce({
+        responseCode: '2025800',
+        responseMessage: 'Request In Progress',
+      });
+
+      const response = await service.refundPayment(merchant, 'order-1', refund);
+
+      expect(response).toMatchObject({
+        resultCode: '2025800',
+        refundStatus: RefundStatus.PENDING,
+      });
+      expect(refundService.complete).not.toHaveBeenCalled();
+    });
+
+    it('should fail a refund DANA rejects', async () => {
+      const rejected = {
+        responseCode: '4035814',
+        responseMessage: 'Insufficient Funds',
+      };
+      call.mockRejectedValueOnce(
+        new DanaApiException('debit refund', 403, rejected),
+      );
+
+      await expect(
+        service.refundPayment(merchant, 'order-1', refund),
+      ).rejects.toThrow(DanaApiException);
+      expect(refundService.complete).toHaveBeenCalledWith(
+        'r-1',
+        RefundStatus.FAILED,
+        { rawResponse: rejected },
+      );
+    });
+
+    it('should leave a refund PENDING when DANA does not answer', async () => {
+      call.mockRejectedValueOnce(timedOut());
+
+      await expect(
+        service.refundPayment(merchant, 'order-1', refund),
+      ).rejects.toThrow('timed out');
+      expect(refundService.complete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelOrder', () => {
+    it('should cancel an open order at DANA first', async () => {
+      orders.set(
+        'order-1',
+        storedOrder({ status: OrderStatus.PENDING, referenceNo: 'dana-1' }),
+      );
+      call.mockResolvedValueOnce({
+        responseCode: '2005700',
+        responseMessage: 'Successful',
+        originalReferenceNo: 'dana-1',
+      });
+
+      const status = await service.cancelOrder(merchant, 'order-1', {
+        reason: 'out of stock',
+      });
+
+      expect(status).toEqual({
+        partnerReferenceNo: 'order-1',
+        referenceNo: 'dana-1',
+        status: OrderStatus.CANCELLED,
+        danaStatus: '05',
+        danaStatusDesc: 'CANCELLED',
+        amount: { value: '10000.00', currency: 'IDR' },
+      });
+      expect(call).toHaveBeenCalledWith(merchant, DANA_ENDPOINTS.debitCancel, {
+        originalPartnerReferenceNo: 'order-1',
+        originalReferenceNo: 'dana-1',
+        merchantId: merchant.merchantId,
+        reason: 'out of stock',
+      });
+      expect(orderService.syncStatus).toHaveBeenCalledWith(
+        'order-1',
+        OrderStatus.CANCELLED,
+        expect.objectContaining({ reason: 'out of stock' }),
+      );
+    });
+
+    it('should cancel a QR code through the QRIS API', async () => {
+      orders.set('order-1', storedOrder({ type: OrderType.QRIS }));
+      call.mockResolvedValueOnce({ responseCode: '2007700' });
+
+      await service.cancelOrder(merchant, 'order-1', {});
+
+      expect(endpointsCalled()).toEqual([DANA_ENDPOINTS.qrisCancel]);
+      expect(orders.get('order-1').status).toBe(OrderStatus.CANCELLED);
+    });
+
+    it('should keep an order DANA refuses to cancel', async () => {
+      orders.set('order-1', storedOrder({ status: OrderStatus.PENDING }));
+      call.mockRejectedValueOnce(
+        new DanaApiException('debit cancel', 403, {
+          responseCode: '4035700',
+          responseMessage: 'Transaction Not Permitted',
+        }),
+      );
+
+      await expect(
+        service.cancelOrder(merchant, 'order-1', {}),
+      ).rejects.toThrow(DanaApiException);
+      expect(orders.get('order-1').status).toBe(OrderStatus.PENDING);
+    });
+
+    it('should keep an order while DANA does not answer', async () => {
+      orders.set('order-1', storedOrder({ status: OrderStatus.PENDING }));
+      call.mockRejectedValueOnce(timedOut());
+
+      await expect(
+        service.cancelOrder(merchant, 'order-1', {}),
+      ).rejects.toThrow('timed out');
+      expect(orderService.syncStatus).not.toHaveBeenCalled();
+    });
+
+    it.each([OrderStatus.PAID, OrderStatus.EXPIRED])(
+      'should refuse to cancel a %s order',
+      async (status) => {
+        orders.set('order-1', storedOrder({ status }));
+
+        await expect(
+          service.cancelOrder(merchant, 'order-1', {}),
+        ).rejects.toThrow(`Order order-1 is ${status} and cannot be cancelled`);
+        expect(call).not.toHaveBeenCalled();
+      },
+    );
+  });
+});
@@ -1,75 +1,115 @@
-import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
-import { HttpService } from '@nestjs/axios';
-import { firstValueFrom } from 'rxjs';
+import {
+  BadGatewayException,
+  Inject,
+  Injectable,
+  Logger,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { AxiosError } from 'axios';
 import * as crypto from 'crypto';
 import { danaConfig } from './dana.config';
-import { AuthResponseDto, QrisPaymentDto } from './dana.dto';
+import {
+  AuthResponseDto,
+  BuyerDto,
+  CancelOrderDto,
+  CheckoutResultDto,
+  ConsultPayDto,
+  CreateOrderDto,
+  DanaClientHeaders,
+  GenerateQrisDto,
+  PayMethodCatalogDto,
+  PayMethodsQueryDto,
+  PaymentStatusDto,
+  QrisPaymentDto,
+  RefundPaymentDto,
+  RefundResponseDto,
+} from './dana.dto';
 import { DanaSignatureService } from './dana.signature';
+import { DanaTokenProvider } from './dana.token.provider';
+import { DanaApiClient } from './dana.api.client';
+import { DANA_ENDPOINTS, DanaEndpoint } from './dana.endpoints';
+import { DanaPayMethods, assertPayMethod } from './dana.pay.methods';
+import { DanaBindingService } from './dana.binding.service';
+import { isTransactionNotFound, parseSnapCode } from './dana.response.codes';
+import {
+  CancelResponse,
+  ConsultPayRequest,
+  ConsultPayResponse,
+  DanaBuyer,
+  DanaEnvInfo,
+  DanaUrlParam,
+  DebitPaymentRequest,
+  QrisGenerateRequest,
+  QrisGenerateResponse,
+  RefundRequest,
+} from './dana.interface';
 import { UAParser } from 'ua-parser-js';
+import {
+  Order,
+  OrderStatus,
+  OrderType,
+  Prisma,
+  Refund,
+  RefundStatus,
+} from '@prisma/client';
+import { OrderService } from '../order/order.service';
+import { RefundService } from '../refund/refund.service';
+import {
+  IdempotencyService,
+  IdempotentAttempt,
+} from '../idempotency/idempotency.service';
+import { MerchantContext } from '../merchant/merchant.interface';
+import { MerchantService } from '../merchant/merchant.service';
+import { InvalidFormException } from '../../exceptions/invalid.form.exception';
+import { DanaApiException } from '../../exceptions/dana.api.exception';
+import { InvalidQrisException } from '../../exceptions/invalid.qris.exception';
+import { assertQrisAmount, parseQris } from '../qris/qris.parser';
+import {
+  DANA_BOUND_PAY_OPTION,
+  DANA_DEFAULT_PAY_OPTION,
+  DANA_NOT_FOUND_STATUS,
+  DANA_TRANSACTION_STATUS,
+} from '../../shared/constants/dana.constants';
+import { API_PREFIX } from '../../shared/constants/global.constants';
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
 @Injectable()
 export class DanaService {
   private readonly logger = new Logger(DanaService.name);
-  private accessToken: string | null = null;
-  private tokenExpiry: Date | null = null;
 
   private signatureService = new DanaSignatureService();
-  private readonly httpService = new HttpService();
+
+  constructor(
+    @Inject(danaConfig.KEY)
+    private readonly config: ConfigType<typeof danaConfig>,
+    private readonly orderService: OrderService,
+    private readonly refundService: RefundService,
+    private readonly tokenProvider: DanaTokenProvider,
+    private readonly danaApiClient: DanaApiClient,
+    private readonly idempotencyService: IdempotencyService,
+    private readonly payMethods: DanaPayMethods,
+    private readonly merchantService: MerchantService,
+    private readonly bindingService: DanaBindingService,
+  ) {}
 
   /**
-   * Authenticate with Dana API and get access token
+   * Access token of a merchant, fetched or renewed by DanaTokenProvider
    */
-  async authenticate(): Promise<AuthResponseDto> {
+  async authenticate(merchant: MerchantContext): Promise<AuthResponseDto> {
     try {
-      if (this.isTokenValid()) {
-        console.log('VALID TOKEN');
-        return {
-          access_token: this.accessToken,
-          token_type: 'Bearer',
-          expires_in: Math.floor(
-            (this.tokenExpiry.getTime() - Date.now()) / 1000,
-          ),
-        };
-      }
-      const apiPath = '/v1.0/access-token/b2b.htm';
-      const timestamp = this.signatureService.getTimestamp();
-      const signatureData = `${danaConfig.clientId}|${timestamp}`;
-
-      const signature = this.signatureService.generateSignature(
-        signatureData,
-        danaConfig.privateKey,
-      );
-      const requestBody = {
-        grantType: 'client_credentials',
-        additionalInfo: {},
-      };
-
-      const headers = {
-        'Content-Type': 'application/json',
-        'X-CLIENT-KEY': danaConfig.clientId,
-        'X-SIGNATURE': signature,
-        'X-TIMESTAMP': this.signatureService.getTimestamp(),
-        'X-EXTERNAL-ID': crypto.randomUUID(),
-        'CHANNEL-ID': '95221',
+      const token = await this.tokenProvider.getToken(merchant);
+      return {
+        access_token: token.accessToken,
+        token_type: 'Bearer',
+        expires_in: Math.floor((token.expiresAt.getTime() - Date.now()) / 1000),
       };
-      const response = await firstValueFrom(
-        this.httpService.post(`${danaConfig.baseUrl}${apiPath}`, requestBody, {
-          headers,
-        }),
-      );
-
-      const authData = await response?.data;
-
-      if (authData?.accessToken && authData?.expiresIn) {
-        this.accessToken = authData.accessToken;
-        this.tokenExpiry = new Date(Date.now() + authData.expiresIn * 1000);
-      } else {
-        console.error('Invalid auth response structure');
-      }
-
-      this.logger.log('Successfully authenticated with Dana API', authData);
-      return authData;
     } catch (error) {
-      console.error('AUTH ERR:', error);
       this.logger.error(
         `Authentication failed:`,
         error.response?.data || error.message || error,
@@ -82,445 +122,890 @@ export class DanaService {
   }
 
   /**
-   * Check if access token is valid and not expired
+   * QRIS MPM Generate
    */
-  async applyToken(): Promise<AuthResponseDto> {
-    try {
-      const apiPath = '/oauth/auth/applyToken.htm';
-      const timestamp = this.signatureService.getTimestamp();
+  async getQrisPayment(
+    merchant: MerchantContext,
+    reqHeaders: DanaClientHeaders,
+    payload: GenerateQrisDto,
+  ): Promise<QrisPaymentDto> {
+    return this.idempotencyService.run(
+      merchant.id,
+      this.idempotencyKey(reqHeaders, payload),
+      { route: 'qris-payment', payload },
+      (attempt) =>
+        attempt.reference
+          ? this.resumeOrder(merchant, attempt.reference)
+          : this.generateQris(merchant, reqHeaders, payload, attempt),
+    );
+  }
 
-      const requestBody = {
-        grantType: 'AUTHORIZATION_CODE',
-        additionalInfo: {},
-      };
-      const headers = {
-        version: 'application/json',
-        function: 'dana.oauth.auth.applyToken',
-        clientId: danaConfig.clientId,
-        clientSecret: danaConfig.clientSecret,
-        reqTime: timestamp,
-        reqMsgId: crypto.randomUUID(),
-      };
-      const requestData = {
-        request: {
-          head: headers,
+  private async generateQris(
+    merchant: MerchantContext,
+    reqHeaders: DanaClientHeaders,
+    payload: GenerateQrisDto,
+    attempt: IdempotentAttempt,
+  ): Promise<QrisPaymentDto> {
+    const partnerReferenceNo =
+      payload.partnerReferenceNo || crypto.randomUUID();
+    const amount = parseFloat(payload.amount).toFixed(2);
+    const currency = payload.currency || 'IDR';
+    const expiresAt = this.resolveValidityPeriod(payload.validityPeriod);
+    const request: QrisGenerateRequest = {
+      merchantId: merchant.merchantId,
+      partnerReferenceNo,
+      amount: { value: amount, currency },
+      validityPeriod: this.signatureService.getTimestamp(expiresAt),
+      additionalInfo: {
+        envInfo: this.envInfo(reqHeaders, 'SYSTEM'),
+      },
+    };
+
+    const order = await this.orderService.create({
+      merchantId: merchant.id,
+      partnerReferenceNo,
+      type: OrderType.QRIS,
+      amount,
+      currency,
+      payMethod: 'QRIS',
+      rawRequest: this.json(request),
+      expiresAt,
+    });
+    await attempt.bind(partnerReferenceNo);
+    return this.submitOrder(
+      merchant,
+      order,
+      DANA_ENDPOINTS.qrisGenerate,
+      request,
+    );
+  }
+
+  /**
+   * Payment Gateway Create Order
+   */
+  async createOrder(
+    merchant: MerchantContext,
+    reqHeaders: DanaClientHeaders,
+    payload: CreateOrderDto,
+  ): Promise<QrisPaymentDto> {
+    this.assertItemsTotal(payload);
+    return this.idempotencyService.run(
+      merchant.id,
+      this.idempotencyKey(reqHeaders, payload),
+      { route: 'create-order', payload },
+      (attempt) =>
+        attempt.reference
+          ? this.resumeOrder(merchant, attempt.reference, payload.customerId)
+          : this.createPaymentOrder(merchant, reqHeaders, payload, attempt),
+    );
+  }
+
+  private async createPaymentOrder(
+    merchant: MerchantContext,
+    reqHeaders: DanaClientHeaders,
+    payload: CreateOrderDto,
+    attempt: IdempotentAttempt,
+  ): Promise<QrisPaymentDto> {
+    const partnerReferenceNo =
+      payload.partnerReferenceNo || crypto.randomUUID();
+    const amount = parseFloat(payload.amount).toFixed(2);
+    const currency = payload.currency || 'IDR';
+    const expiresAt = this.resolveValidityPeriod(payload.validityPeriod);
+    const mode = payload.mode || 'API';
+    if (payload.customerId) {
+      if (mode === 'REDIRECT') {
+        throw new InvalidFormException(
+          { customerId: 'customerId cannot be charged in a REDIRECT checkout' },
+          'Invalid request',
+        );
+      }
+      await this.bindingService.assertBound(merchant, payload.customerId);
+    }
+    const urlParams = this.urlParams(merchant, partnerReferenceNo, payload);
+    const payOption = await this.resolvePayMethod(
+      merchant,
+      reqHeaders,
+      payload,
+      amount,
+      currency,
+    );
+    const request: DebitPaymentRequest = {
+      partnerReferenceNo,
+      merchantId: merchant.merchantId,
+      amount: { value: amount, currency },
+      urlParams,
+      validityPeriod: this.signatureService.getTimestamp(expiresAt),
+      payOptionDetails: payOption && {
+        ...payOption,
+        amount: { value: amount, currency },
+      },
+      additionalInfo: {
+        order: {
+          orderTitle: payload.title || 'Payment Gateway Order',
+          scenario: mode,
+          merchantTransType: 'SPECIAL_MOVIE',
+          buyer: this.buyer(payload.buyer),
+          goods: payload.items?.map((item) => ({
+            merchantGoodsId: item.sku,
+            description: item.name,
+            category: item.category || '',
+            price: { value: parseFloat(item.price).toFixed(2), currency },
+            unit: 'pcs',
+            quantity: `${item.quantity}`,
+          })),
         },
-        body: requestBody,
-        signature: '',
-      };
+        mcc: '9999',
+        envInfo: this.envInfo(reqHeaders, 'WEB'),
+      },
+    };
+
+    const order = await this.orderService.create({
+      merchantId: merchant.id,
+      partnerReferenceNo,
+      type: OrderType.PAYMENT_GATEWAY,
+      amount,
+      currency,
+      payMethod: payOption?.payMethod,
+      payOption: payOption?.payOption,
+      rawRequest: this.json(request),
+      returnUrl: payload.returnUrl || this.config.payReturnUrl,
+      expiresAt,
+    });
+    await attempt.bind(partnerReferenceNo);
+    return this.submitOrder(
+      merchant,
+      order,
+      DANA_ENDPOINTS.debitPayment,
+      request,
+      payload.customerId,
+    );
+  }
 
-      const signature = this.signatureService.generateSignature(
-        JSON.stringify(requestData.body),
-        danaConfig.privateKey,
+  /**
+   * Retry of a request whose order was created but whose answer got lost.
+   * DANA is asked first: an order it never received is sent again as stored,
+   * one it knows is answered from our record, never created twice.
+   */
+  private async resumeOrder(
+    merchant: MerchantContext,
+    partnerReferenceNo: string,
+    customerId?: string,
+  ): Promise<QrisPaymentDto> {
+    let order = await this.orderService.findByPartnerReferenceNo(
+      partnerReferenceNo,
+      merchant.id,
+    );
+    this.logger.log(
+      `Resuming order ${partnerReferenceNo} of a retried request`,
+    );
+    if (order.status === OrderStatus.INIT) {
+      if (!(await this.isKnownToDana(merchant, order))) {
+        return order.type === OrderType.QRIS
+          ? this.submitOrder(
+              merchant,
+              order,
+              DANA_ENDPOINTS.qrisGenerate,
+              order.rawRequest as unknown as QrisGenerateRequest,
+            )
+          : this.submitOrder(
+              merchant,
+              order,
+              DANA_ENDPOINTS.debitPayment,
+              order.rawRequest as unknown as DebitPaymentRequest,
+              customerId,
+            );
+      }
+      order = await this.orderService.findByPartnerReferenceNo(
+        partnerReferenceNo,
+        merchant.id,
       );
+    }
 
-      requestData.signature = signature;
-      const response = await firstValueFrom(
-        this.httpService.post(`${danaConfig.baseUrl}${apiPath}`, requestData, {
-          headers,
-        }),
+    if (
+      order.status === OrderStatus.INIT ||
+      order.status === OrderStatus.FAILED ||
+      order.status === OrderStatus.CANCELLED ||
+      order.status === OrderStatus.EXPIRED
+    ) {
+      throw new ConflictException(
+        `Order ${partnerReferenceNo} of this Idempotency-Key is ${order.status}, check its status or retry with a new key`,
       );
+    }
+    const raw = this.jsonObject(order.rawResponse);
+    return {
+      responseCode: String(raw.responseCode ?? ''),
+      responseMessage: String(raw.responseMessage ?? ''),
+      referenceNo: order.referenceNo ?? undefined,
+      partnerReferenceNo,
+      qrContent: order.qrContent ?? undefined,
+      webRedirectUrl:
+        typeof raw.webRedirectUrl === 'string' ? raw.webRedirectUrl : undefined,
+    };
+  }
 
-      const authData = await response?.data;
-      console.log('AUTH DATA:', response);
-      if (authData?.accessToken && authData?.expiresIn) {
-        this.accessToken = authData.accessToken;
-        this.tokenExpiry = new Date(Date.now() + authData.expiresIn * 1000);
-      } else {
-        console.error('Invalid auth response structure');
+  // DANA answers an unknown order with status 07 or a not-found code
+  private async isKnownToDana(
+    merchant: MerchantContext,
+    order: Order,
+  ): Promise<boolean> {
+    try {
+      const status = await this.queryPayment(
+        merchant,
+        order.partnerReferenceNo,
+      );
+      return status.danaStatus !== DANA_NOT_FOUND_STATUS;
+    } catch (error) {
+      if (isTransactionNotFound(error)) {
+        return false;
       }
+      throw error;
+    }
+  }
 
-      this.logger.log('Successfully authenticated with Dana API', authData);
-      return authData;
-    } catch (error) {
-      console.error('AUTH ERR:', error);
-      this.logger.error(
-        `Authentication failed:`,
-        error.response?.data || error.message || error,
-      );
-      throw new HttpException(
-        `Authentication failed ${error.response?.data?.responseMessage || 'Authentication failed'} ${error.response?.data?.responseCode || '500'}`,
-        error.response?.status || HttpStatus.INTERNAL_SERVER_ERROR,
+  /**
+   * Pay methods DANA offers for an amount, cached by DanaPayMethods
+   */
+  async getPayMethods(
+    merchant: MerchantContext,
+    reqHeaders: DanaClientHeaders,
+    query: PayMethodsQueryDto,
+  ): Promise<PayMethodCatalogDto> {
+    const amount = parseFloat(query.amount).toFixed(2);
+    const currency = query.currency || 'IDR';
+    return this.payMethods.get(merchant, amount, currency, () =>
+      this.consultPay(merchant, reqHeaders, { amount, currency }),
+    );
+  }
+
+  /**
+   * Consult Pay
+   */
+  async consultPay(
+    merchant: MerchantContext,
+    reqHeaders: DanaClientHeaders,
+    payload: ConsultPayDto,
+  ): Promise<ConsultPayResponse> {
+    const request: ConsultPayRequest = {
+      merchantId: merchant.merchantId,
+      amount: {
+        value: parseFloat(payload.amount).toFixed(2),
+        currency: payload.currency || 'IDR',
+      },
+      additionalInfo: {
+        buyer: this.buyer(payload.buyer),
+        envInfo: this.envInfo(reqHeaders, 'SYSTEM'),
+      },
+    };
+    try {
+      return await this.danaApiClient.call(
+        merchant,
+        DANA_ENDPOINTS.consultPay,
+        request,
       );
+    } catch (error) {
+      throw this.toHttpException(error);
     }
   }
+
   /**
-   * QRIS MPM Generate
+   * Query Payment status and sync it into our stored order
    */
-  async getQrisPayment(reqHeaders: any, payload: any): Promise<QrisPaymentDto> {
+  async queryPayment(
+    merchant: MerchantContext,
+    partnerReferenceNo: string,
+  ): Promise<PaymentStatusDto> {
+    const order = await this.orderService.findByPartnerReferenceNo(
+      partnerReferenceNo,
+      merchant.id,
+    );
+    const isQris = order.type === OrderType.QRIS;
     try {
-      await this.authenticate();
-      console.log(reqHeaders);
-      console.log(payload);
-      // Generate unique reference number if not provided
-      const referenceNo = crypto.randomUUID();
-      const userAgent = reqHeaders['user-agent'] || 'Unknown';
-      const parser = new UAParser(userAgent);
-      const uaResult = parser.getResult();
-      const rawAmount = payload.amount;
-      const amount = parseFloat(rawAmount).toFixed(2);
-      const timestamp = this.signatureService.getTimestamp();
-      const requestBody = {
-        merchantId: danaConfig.merchantId,
-        // subMerchantId: '',
-        // storeId: '',
-        partnerReferenceNo: referenceNo,
-        amount: {
-          value: amount,
-          currency: 'IDR',
-        }, // Make amount dynamic
-        // feeAmount: { // merchantAppVersion: '1.0',
-        //   value: '123.00',
-        //   currency: currency,
-        // },
-        // validityPeriod: '2025-07-27T23:38:11+07:00',
-        additionalInfo: {
-          // terminalSource: 'MER',
-          envInfo: {
-            sourcePlatform: 'IPG',
-            terminalType: 'SYSTEM',
-            orderTerminalType: 'SYSTEM',
-            clientIp: reqHeaders['x-client-ip'] || '127.0.0.1',
-            osType: uaResult.os.name || 'UnknownOS',
-            appVersion: uaResult.browser.version || '1.0',
-            sdkVersion: '1.0',
-            websiteLanguage: reqHeaders['x-language'] || 'en_US',
-            orderOsType: uaResult.os.name || 'UnknownOS',
-            merchantAppVersion: uaResult.browser.version || '1.0',
-            // sessionId: sessionId, // Generate unique session ID
-            // tokenId: tokenId, // Generate unique token ID
-            /*extendInfo: JSON.stringify({
-              deviceId: this.generateDeviceId(), // Generate unique device ID
-              bizScenario: 'SAMPLE_MERCHANT_AGENT',
-              description: description || 'Payment for order',
-            }),*/
-          },
+      const response = await this.danaApiClient.call(
+        merchant,
+        isQris ? DANA_ENDPOINTS.qrisQuery : DANA_ENDPOINTS.debitStatus,
+        {
+          originalPartnerReferenceNo: order.partnerReferenceNo,
+          originalReferenceNo: order.referenceNo || '',
+          merchantId: merchant.merchantId,
+          serviceCode: isQris ? '47' : '54',
         },
-      };
-
-      console.log('QRIS Request Body:', JSON.stringify(requestBody, null, 2));
-      // const apiPath = '/v1.0/qr/qr-mpm-generate.htm';
-      const apiPath = '/v1.0/qr/qr-mpm-generate.htm';
-
-      const signatureData = this.signatureService.prepareSignatureData(
-        'POST',
-        apiPath,
-        JSON.stringify(requestBody),
-        timestamp,
-      );
-
-      const signature = this.signatureService.generateSignature(
-        signatureData,
-        danaConfig.privateKey,
       );
 
-      // const headers = this.generateHeaderCustomers(signature);
-      const headers = {
-        'Content-Type': 'application/json',
-        'X-TIMESTAMP': timestamp,
-        'X-SIGNATURE': signature,
-        'X-PARTNER-ID': danaConfig.clientId,
-        'X-EXTERNAL-ID': referenceNo,
-        'CHANNEL-ID': '11111',
-        'Authorization-Customer': `Bearer ${this.accessToken}`,
+      const danaStatus = response.latestTransactionStatus;
+      const status = DANA_TRANSACTION_STATUS[danaStatus];
+      const synced = status
+        ? await this.orderService.syncStatus(partnerReferenceNo, status, {
+            referenceNo: response.originalReferenceNo,
+            rawResponse: this.json(response),
+            reason: `query: ${response.transactionStatusDesc || danaStatus}`,
+            paidAmount: response.transAmount?.value,
+            paidAt: response.paidTime ? new Date(response.paidTime) : undefined,
+          })
+        : order;
+
+      return {
+        partnerReferenceNo,
+        referenceNo: synced.referenceNo,
+        status: synced.status,
+        danaStatus,
+        danaStatusDesc: response.transactionStatusDesc,
+        amount: response.transAmount,
+        paidTime: response.paidTime,
       };
+    } catch (error) {
+      throw this.toHttpException(error);
+    }
+  }
 
-      console.log('QRIS Header:', headers);
-      const response = await firstValueFrom(
-        this.httpService.post(`${danaConfig.baseUrl}${apiPath}`, requestBody, {
-          headers,
-          timeout: 30000, // Add timeout
-        }),
+  /**
+   * Refund a paid order, fully or partially
+   */
+  async refundPayment(
+    merchant: MerchantContext,
+    partnerReferenceNo: string,
+    payload: RefundPaymentDto,
+  ): Promise<RefundResponseDto> {
+    const order = await this.orderService.findByPartnerReferenceNo(
+      partnerReferenceNo,
+      merchant.id,
+    );
+    const amount = parseFloat(payload.refundAmount).toFixed(2);
+    let refund: Refund = await this.refundService.reserve(
+      order,
+      amount,
+      payload.refundReason,
+      payload.merchantRefundNo,
+    );
+    try {
+      const request: RefundRequest = {
+        originalPartnerReferenceNo: order.partnerReferenceNo,
+        originalReferenceNo: order.referenceNo || '',
+        partnerRefundNo: refund.partnerRefundNo,
+        merchantId: merchant.merchantId,
+        refundAmount: { value: amount, currency: order.currency },
+        reason: payload.refundReason || '',
+      };
+      await this.refundService.attachRequest(
+        refund.partnerRefundNo,
+        this.json(request),
       );
 
-      console.log('QRIS Response:', response.data);
-
-      // Validate response
-      if (!response.data || response.data.responseCode !== '2000000') {
-        console.error(`DANA API Error:`, response.data.responseCode);
-        throw new Error(
-          `DANA API Error: ${response.data?.responseMessage || 'Unknown error'}`,
+      const response = await this.danaApiClient.call(
+        merchant,
+        order.type === OrderType.QRIS
+          ? DANA_ENDPOINTS.qrisRefund
+          : DANA_ENDPOINTS.debitRefund,
+        request,
+        { externalId: refund.partnerRefundNo },
+      );
+      // a 202 leaves the refund PENDING until DANA notifies the result
+      if (parseSnapCode(response.responseCode)?.httpStatus === 200) {
+        refund = await this.refundService.complete(
+          refund.partnerRefundNo,
+          RefundStatus.SUCCESS,
+          {
+            refundNo: response.refundNo,
+            rawResponse: this.json(response),
+            refundedAt: response.refundTime
+              ? new Date(response.refundTime)
+              : undefined,
+          },
         );
       }
 
-      return response.data;
+      return {
+        resultCode: response.responseCode,
+        resultMessage: response.responseMessage,
+        danaTradeNo: order.referenceNo,
+        merchantRefundNo: refund.partnerRefundNo,
+        danaRefundNo: refund.refundNo || response.refundNo,
+        refundAmount: amount,
+        refundStatus: refund.status,
+        refundableAmount: (
+          await this.refundService.refundableAmount(refund.paymentId)
+        ).toFixed(2),
+      };
     } catch (error) {
-      const errMessage = JSON.stringify(error.response?.data || error.message);
-
-      // console.error('Failed to get Qris:', errMessage);
-      throw new HttpException(
-        errMessage,
-        error.response?.status || HttpStatus.INTERNAL_SERVER_ERROR,
-      );
+      // without a DANA answer the refund stays PENDING until a webhook or
+      // status query settles it
+      if (error instanceof DanaApiException && error.getDanaResponse()) {
+        await this.refundService.complete(
+          refund.partnerRefundNo,
+          RefundStatus.FAILED,
+          { rawResponse: error.getDanaResponse() },
+        );
+      }
+      throw this.toHttpException(error);
     }
   }
+
   /**
-   * Payment Gateway Create Order
+   * Cancel an unpaid order or QR code so the held seats/stock can be released
    */
-  async createOrder(reqHeaders: any, payload: any): Promise<QrisPaymentDto> {
+  async cancelOrder(
+    merchant: MerchantContext,
+    partnerReferenceNo: string,
+    payload: CancelOrderDto,
+  ): Promise<PaymentStatusDto> {
+    const order = await this.orderService.findByPartnerReferenceNo(
+      partnerReferenceNo,
+      merchant.id,
+    );
+    if (
+      order.status !== OrderStatus.INIT &&
+      order.status !== OrderStatus.PENDING
+    ) {
+      throw new ConflictException(
+        `Order ${partnerReferenceNo} is ${order.status} and cannot be cancelled`,
+      );
+    }
     try {
-      await this.authenticate();
-      console.log(reqHeaders);
-      console.log(payload);
-      // Generate unique reference number if not provided
-      const referenceNo = crypto.randomUUID();
-      const userAgent = reqHeaders['user-agent'] || 'Unknown';
-      const parser = new UAParser(userAgent);
-      const uaResult = parser.getResult();
-      const rawAmount = payload.amount;
-      const amount = parseFloat(rawAmount).toFixed(2);
-      const timestamp = this.signatureService.getTimestamp();
-      const requestBody = {
-        partnerReferenceNo: referenceNo,
-        merchantId: danaConfig.merchantId,
-        amount: {
-          value: amount,
-          currency: 'IDR',
-        }, // Make amount dynamic
-        urlParams: [
-          {
-            url: 'https://google.com/',
-            type: 'NOTIFICATION',
-            isDeeplink: 'Y',
-          },
-        ],
-        // validityPeriod: '2025-07-27T23:38:11+07:00',
-        payOptionDetails: {
-          payMethod: 'NETWORK_PAY',
-          payOption: 'NETWORK_PAY_PG_OVO',
-          amount: {
-            value: amount,
-            currency: 'IDR',
-          },
-        },
-        additionalInfo: {
-          order: {
-            orderTitle: 'Payment Gateway Order',
-            scenario: 'API',
-            merchantTransType: 'SPECIAL_MOVIE',
-            buyer: {
-              externalUserType: '',
-              nickname: '',
-              externalUserId: '8392183912832913821',
-              userId: '',
-            },
-          },
-          mcc: '9999',
-          envInfo: {
-            sourcePlatform: 'IPG',
-            terminalType: 'SYSTEM',
-            orderTerminalType: 'WEB',
-            clientIp: reqHeaders['x-client-ip'] || '127.0.0.1',
-            osType: uaResult.os.name || 'UnknownOS',
-            appVersion: uaResult.browser.version || '1.0',
-            sdkVersion: '1.0',
-            websiteLanguage: reqHeaders['x-language'] || 'en_US',
-            orderOsType: uaResult.os.name || 'UnknownOS',
-            merchantAppVersion: uaResult.browser.version || '1.0',
-            // sessionId: sessionId, // Generate unique session ID
-            // tokenId: tokenId, // Generate unique token ID
-            /*extendInfo: JSON.stringify({
-              deviceId: this.generateDeviceId(), // Generate unique device ID
-              bizScenario: 'SAMPLE_MERCHANT_AGENT',
-              description: description || 'Payment for order',
-            }),*/
-          },
-        },
-      };
-
-      console.log('Order Request Body:', JSON.stringify(requestBody, null, 2));
-      // const apiPath = '/v1.0/qr/qr-mpm-generate.htm';
-      const apiPath = '/payment-gateway/v1.0/debit/payment-host-to-host.htm';
-
-      const signatureData = this.signatureService.prepareSignatureData(
-        'POST',
-        apiPath,
-        JSON.stringify(requestBody),
-        timestamp,
+      const response = await this.cancelAtDana(
+        merchant,
+        order,
+        payload.reason || '',
       );
 
-      const signature = this.signatureService.generateSignature(
-        signatureData,
-        danaConfig.privateKey,
+      const cancelled = await this.orderService.syncStatus(
+        partnerReferenceNo,
+        OrderStatus.CANCELLED,
+        {
+          referenceNo: response.originalReferenceNo,
+          rawResponse: this.json(response),
+          reason: payload.reason || 'cancelled by merchant',
+        },
       );
 
-      // const headers = this.generateHeaderCustomers(signature);
-      const headers = {
-        'Content-Type': 'application/json',
-        // 'Authorization-Customer': `Bearer ${this.accessToken}`,
-        'X-TIMESTAMP': timestamp,
-        'X-SIGNATURE': signature,
-        'X-PARTNER-ID': danaConfig.clientId,
-        // 'X-DEVICE-ID': '123456',
-        'X-EXTERNAL-ID': referenceNo,
-        'CHANNEL-ID': '11111',
+      return {
+        partnerReferenceNo,
+        referenceNo: cancelled.referenceNo,
+        status: cancelled.status,
+        danaStatus: '05',
+        danaStatusDesc: 'CANCELLED',
+        amount: {
+          value: cancelled.amount.toFixed(2),
+          currency: cancelled.currency,
+        },
       };
+    } catch (error) {
+      throw this.toHttpException(error);
+    }
+  }
 
-      console.log('Order Header:', headers);
-      const response = await firstValueFrom(
-        this.httpService.post(`${danaConfig.baseUrl}${apiPath}`, requestBody, {
-          headers,
-          timeout: 30000, // Add timeout
-        }),
-      );
+  /**
+   * Close an overdue order at DANA, then expire it here, so the buyer can no
+   * longer pay it. An order DANA never received expires right away. When DANA
+   * refuses the cancel the order is queried instead, the buyer may just have
+   * paid it.
+   */
+  async expireOrder(
+    merchant: MerchantContext,
+    partnerReferenceNo: string,
+    reason: string,
+  ): Promise<Order> {
+    const order = await this.orderService.findByPartnerReferenceNo(
+      partnerReferenceNo,
+      merchant.id,
+    );
+    try {
+      await this.cancelAtDana(merchant, order, reason);
+    } catch (error) {
+      if (!isTransactionNotFound(error)) {
+        const status = await this.queryPayment(merchant, partnerReferenceNo);
+        if (status.status !== order.status) {
+          return this.orderService.findByPartnerReferenceNo(partnerReferenceNo);
+        }
+        throw error;
+      }
+    }
+    return this.orderService.syncStatus(
+      partnerReferenceNo,
+      OrderStatus.EXPIRED,
+      { reason },
+    );
+  }
 
-      console.log('Order Response:', response.data);
+  /**
+   * QRIS payload of an order that can still be paid
+   */
+  async getQrContent(
+    merchant: MerchantContext,
+    partnerReferenceNo: string,
+  ): Promise<string> {
+    const order = await this.orderService.findByPartnerReferenceNo(
+      partnerReferenceNo,
+      merchant.id,
+    );
+    if (!order.qrContent) {
+      throw new NotFoundException(`Order ${partnerReferenceNo} has no QR code`);
+    }
+    const open =
+      order.status === OrderStatus.INIT || order.status === OrderStatus.PENDING;
+    if (!open || (order.expiresAt && order.expiresAt.getTime() <= Date.now())) {
+      throw new ConflictException(
+        `Order ${partnerReferenceNo} is ${open ? 'expired' : order.status}, its QR code can no longer be paid`,
+      );
+    }
+    return order.qrContent;
+  }
 
-      // Validate response
-      if (!response.data || response.data.responseCode !== '2005700') {
-        console.error(`DANA API Error:`, response.data.responseCode);
-        throw new Error(
-          `DANA API Error: ${response.data?.responseMessage || 'Unknown error'}`,
+  /**
+   * Status of an order a buyer returned from DANA's cashier with. The return
+   * alone proves nothing, so an open order is queried at DANA first; when
+   * DANA cannot be reached the stored status is reported.
+   */
+  async checkoutReturn(partnerReferenceNo: string): Promise<CheckoutResultDto> {
+    const order =
+      await this.orderService.findByPartnerReferenceNo(partnerReferenceNo);
+    let status = order.status;
+    if (status === OrderStatus.INIT || status === OrderStatus.PENDING) {
+      try {
+        const merchant = await this.merchantService.getContext(
+          order.merchantId,
+        );
+        status = (await this.queryPayment(merchant, partnerReferenceNo)).status;
+      } catch (error) {
+        this.logger.warn(
+          `Could not verify returning order ${partnerReferenceNo}: ${error.message}`,
         );
       }
-
-      return response.data;
-    } catch (error) {
-      const errMessage = JSON.stringify(error.response?.data || error.message);
-
-      // console.error('Failed to get Qris:', errMessage);
-      throw new HttpException(
-        errMessage,
-        error.response?.status || HttpStatus.INTERNAL_SERVER_ERROR,
-      );
     }
+    return { partnerReferenceNo, status, returnUrl: order.returnUrl };
   }
+
   /**
-   * Consult Pay
+   * Send a new order to DANA and move it to PENDING. Only a DANA answer
+   * proves the order was rejected; a timeout leaves it in INIT so its real
+   * status can still be queried. With a customerId the order is charged to
+   * that customer's bound account.
    */
-  async consultPay(reqHeaders: any, payload: any): Promise<QrisPaymentDto> {
+  private async submitOrder<TRequest, TResponse extends QrisGenerateResponse>(
+    merchant: MerchantContext,
+    order: Order,
+    endpoint: DanaEndpoint<TRequest, TResponse>,
+    request: TRequest,
+    customerId?: string,
+  ): Promise<TResponse> {
+    const send = (customerToken?: string) =>
+      this.danaApiClient.call(merchant, endpoint, request, {
+        externalId: order.partnerReferenceNo,
+        customerToken,
+      });
     try {
-      await this.authenticate();
-      console.log(reqHeaders);
-      console.log(payload);
-      // Generate unique reference number if not provided
-      const referenceNo = crypto.randomUUID();
-      const userAgent = reqHeaders['user-agent'] || 'Unknown';
-      const parser = new UAParser(userAgent);
-      const uaResult = parser.getResult();
-      const rawAmount = payload.amount;
-      const amount = parseFloat(rawAmount).toFixed(2);
-      const timestamp = this.signatureService.getTimestamp();
-
-      const requestBody = {
-        merchantId: danaConfig.merchantId,
-        amount: {
-          value: amount,
-          currency: 'IDR',
-        },
-        additionalInfo: {
-          buyer: {
-            externalUserType: '',
-            nickname: '',
-            externalUserId: '8392183912832913821',
-            userId: '',
-          },
-          envInfo: {
-            sourcePlatform: 'IPG',
-            terminalType: 'SYSTEM',
-            orderTerminalType: 'SYSTEM',
-            clientIp: reqHeaders['x-client-ip'] || '127.0.0.1',
-            osType: uaResult.os.name || 'UnknownOS',
-            appVersion: uaResult.browser.version || '1.0',
-            sdkVersion: '1.0',
-            websiteLanguage: reqHeaders['x-language'] || 'en_US',
-            orderOsType: uaResult.os.name || 'UnknownOS',
-            merchantAppVersion: uaResult.browser.version || '1.0',
-            // sessionId: sessionId, // Generate unique session ID
-            // tokenId: tokenId, // Generate unique token ID
-            /*extendInfo: JSON.stringify({
-              deviceId: this.generateDeviceId(), // Generate unique device ID
-              bizScenario: 'SAMPLE_MERCHANT_AGENT',
-              description: description || 'Payment for order',
-            }),*/
-          },
+      const response = customerId
+        ? await this.bindingService.withCustomerToken(
+            merchant,
+            customerId,
+            send,
+          )
+        : await send();
+      await this.orderService.transition(
+        order.partnerReferenceNo,
+        OrderStatus.PENDING,
+        {
+          referenceNo: response.referenceNo,
+          rawResponse: this.json(response),
+          qrContent: this.verifyQrContent(endpoint.name, order, response),
         },
-      };
-
-      console.log('Order Request Body:', JSON.stringify(requestBody, null, 2));
-      // const apiPath = '/v1.0/qr/qr-mpm-generate.htm';
-      const apiPath = '/v1.0/payment-gateway/consult-pay.htm';
-
-      const signatureData = this.signatureService.prepareSignatureData(
-        'POST',
-        apiPath,
-        JSON.stringify(requestBody),
-        timestamp,
       );
+      return response;
+    } catch (error) {
+      if (error instanceof InvalidQrisException) {
+        await this.withdrawInvalidQr(merchant, order, error);
+      } else if (error instanceof DanaApiException && error.getDanaResponse()) {
+        await this.failOrder(
+          order,
+          this.json(error.getDanaResponse()),
+          error.message,
+        );
+      }
+      throw this.toHttpException(error);
+    }
+  }
 
-      const signature = this.signatureService.generateSignature(
-        signatureData,
-        danaConfig.privateKey,
+  /**
+   * DANA keeps an order open behind the QR code we refused to show, so it is
+   * cancelled there before it fails here. When DANA cannot cancel it the
+   * order stays PENDING without a QR code and the reconciler closes it.
+   */
+  private async withdrawInvalidQr(
+    merchant: MerchantContext,
+    order: Order,
+    error: InvalidQrisException,
+  ): Promise<void> {
+    const response = error.getDanaResponse() as QrisGenerateResponse;
+    const referenceNo = response.referenceNo || order.referenceNo;
+    try {
+      await this.cancelAtDana(
+        merchant,
+        { ...order, referenceNo },
+        'invalid QR code',
       );
-
-      // const headers = this.generateHeaderCustomers(signature);
-      const headers = {
-        'Content-Type': 'application/json',
-        // 'Authorization-Customer': `Bearer ${this.accessToken}`,
-        'X-TIMESTAMP': timestamp,
-        'X-SIGNATURE': signature,
-        'X-PARTNER-ID': danaConfig.clientId,
-        // 'X-DEVICE-ID': '123456',
-        'X-EXTERNAL-ID': referenceNo,
-        'CHANNEL-ID': '11111',
-      };
-
-      console.log('Order Header:', headers);
-      const response = await firstValueFrom(
-        this.httpService.post(`${danaConfig.baseUrl}${apiPath}`, requestBody, {
-          headers,
-          timeout: 30000, // Add timeout
-        }),
+    } catch (cancelError) {
+      this.logger.error(
+        `Could not cancel order ${order.partnerReferenceNo} with an invalid QR code at DANA: ${cancelError.message}`,
       );
-
-      console.log('Order Response:', response.data);
-
-      // Validate response
-      if (!response.data || response.data.responseCode !== '2005700') {
-        console.error(`DANA API Error:`, response.data.responseCode);
-        throw new Error(
-          `DANA API Error: ${response.data?.responseMessage || 'Unknown error'}`,
+      try {
+        await this.orderService.transition(
+          order.partnerReferenceNo,
+          OrderStatus.PENDING,
+          {
+            referenceNo,
+            rawResponse: this.json(response),
+            reason: error.message,
+          },
+        );
+      } catch (transitionError) {
+        this.logger.error(
+          `Could not keep order ${order.partnerReferenceNo} open: ${transitionError.message}`,
         );
       }
+      return;
+    }
+    await this.failOrder(order, this.json(response), error.message);
+  }
 
-      return response.data;
+  /**
+   * A QR code we show must be well formed and ask for the order amount
+   */
+  private verifyQrContent(
+    endpoint: string,
+    order: Order,
+    response: QrisGenerateResponse,
+  ): string | undefined {
+    if (!response.qrContent) {
+      return undefined;
+    }
+    try {
+      assertQrisAmount(parseQris(response.qrContent), order.amount);
     } catch (error) {
-      const errMessage = JSON.stringify(error.response?.data || error.message);
+      throw new InvalidQrisException(endpoint, response, error.message);
+    }
+    return response.qrContent;
+  }
 
-      // console.error('Failed to get Qris:', errMessage);
-      throw new HttpException(
-        errMessage,
-        error.response?.status || HttpStatus.INTERNAL_SERVER_ERROR,
+  /**
+   * Expiry time for a new order, from the requested minutes or the default
+   */
+  private resolveValidityPeriod(validityMinutes?: number | string): Date {
+    const requested = parseInt(`${validityMinutes ?? ''}`, 10);
+    const minutes =
+      requested > 0
+        ? Math.min(requested, this.config.maxOrderValidityMinutes)
+        : this.config.orderValidityMinutes;
+    return new Date(Date.now() + minutes * 60 * 1000);
+  }
+
+  // Idempotency-Key header, or the client's own partnerReferenceNo
+  private idempotencyKey(
+    reqHeaders: DanaClientHeaders,
+    payload: GenerateQrisDto,
+  ): string | undefined {
+    const key = reqHeaders['idempotency-key']?.trim();
+    if (key && key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      throw new InvalidFormException(
+        {
+          'idempotency-key': `Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+        },
+        'Invalid request',
       );
     }
+    return key || payload.partnerReferenceNo;
   }
 
-  private calculateFeeAmount(amount: string): string {
-    // Implement your fee calculation logic
-    // This is just an example - adjust based on your business rules
-    const amountNum = parseFloat(amount);
-    const feePercent = 0.007; // 0.7% fee example
-    return Math.ceil(amountNum * feePercent).toString();
+  /**
+   * The pay method a create-order asked for, checked against the catalog for
+   * its amount. API orders without one keep paying through OVO, REDIRECT
+   * orders leave the choice to DANA's cashier.
+   */
+  private async resolvePayMethod(
+    merchant: MerchantContext,
+    reqHeaders: DanaClientHeaders,
+    payload: CreateOrderDto,
+    amount: string,
+    currency: string,
+  ): Promise<{ payMethod: string; payOption?: string } | undefined> {
+    if (!payload.payMethod) {
+      if (payload.payOption) {
+        throw new InvalidFormException(
+          { payMethod: 'payMethod is required with payOption' },
+          'Invalid request',
+        );
+      }
+      if (payload.mode === 'REDIRECT') {
+        return undefined;
+      }
+      return payload.customerId
+        ? DANA_BOUND_PAY_OPTION
+        : DANA_DEFAULT_PAY_OPTION;
+    }
+    const catalog = await this.getPayMethods(merchant, reqHeaders, {
+      amount,
+      currency,
+    });
+    assertPayMethod(catalog, payload.payMethod, payload.payOption);
+    return { payMethod: payload.payMethod, payOption: payload.payOption };
   }
 
   /**
-   * Check if access token is valid and not expired
+   * Item totals must match the order amount DANA charges
    */
-  private isTokenValid(): boolean {
-    return (
-      this.accessToken && this.tokenExpiry && new Date() < this.tokenExpiry
+  private assertItemsTotal(payload: CreateOrderDto) {
+    if (!payload.items?.length) {
+      return;
+    }
+    const total = payload.items.reduce(
+      (sum, item) =>
+        sum.plus(new Prisma.Decimal(item.price).times(item.quantity)),
+      new Prisma.Decimal(0),
     );
+    if (!total.equals(payload.amount)) {
+      throw new InvalidFormException(
+        {
+          items: `items add up to ${total.toFixed(2)}, not the amount ${payload.amount}`,
+        },
+        'Invalid request',
+      );
+    }
   }
+
+  private envInfo(
+    reqHeaders: DanaClientHeaders,
+    orderTerminalType: string,
+  ): DanaEnvInfo {
+    const uaResult = new UAParser(
+      reqHeaders['user-agent'] || 'Unknown',
+    ).getResult();
+    return {
+      sourcePlatform: 'IPG',
+      terminalType: 'SYSTEM',
+      orderTerminalType,
+      clientIp: reqHeaders['x-client-ip'] || '127.0.0.1',
+      osType: uaResult.os.name || 'UnknownOS',
+      appVersion: uaResult.browser.version || '1.0',
+      sdkVersion: '1.0',
+      websiteLanguage: reqHeaders['x-language'] || 'en_US',
+      orderOsType: uaResult.os.name || 'UnknownOS',
+      merchantAppVersion: uaResult.browser.version || '1.0',
+    };
+  }
+
+  private buyer(buyer?: BuyerDto): DanaBuyer {
+    return {
+      externalUserType: buyer?.externalUserType || '',
+      nickname: buyer?.nickname || '',
+      externalUserId: buyer?.externalUserId || '8392183912832913821',
+      userId: '',
+    };
+  }
+
   /**
-   * Verify webhook signature
-   * @param payload - The raw payload string from the webhook
-   * @param signature - The signature header value from the webhook
+   * PAY_RETURN and NOTIFICATION of a new order. With DANA_PUBLIC_URL the
+   * buyer returns to our checkout landing, which checks the order before
+   * sending them on to returnUrl; DANA notifies the merchant's webhook.
    */
-  verifyWebhookSignature(payload: string, signature: string): boolean {
-    return this.signatureService.verifySignature(
-      payload,
-      signature,
-      danaConfig.publicKey,
+  private urlParams(
+    merchant: MerchantContext,
+    partnerReferenceNo: string,
+    payload: CreateOrderDto,
+  ): DanaUrlParam[] {
+    const publicUrl =
+      this.config.publicUrl && this.config.publicUrl + API_PREFIX;
+    const returnUrl = publicUrl
+      ? `${publicUrl}/dana/checkout/return/${encodeURIComponent(partnerReferenceNo)}`
+      : payload.returnUrl || this.config.payReturnUrl;
+    const notifyUrl =
+      payload.notifyUrl ||
+      this.config.notificationUrl ||
+      (publicUrl && `${publicUrl}/dana/webhook/${merchant.code}`);
+    if (payload.mode === 'REDIRECT' && !returnUrl) {
+      throw new InvalidFormException(
+        {
+          returnUrl:
+            'returnUrl is required for REDIRECT checkout unless DANA_PUBLIC_URL or DANA_PAY_RETURN_URL is set',
+        },
+        'Invalid request',
+      );
+    }
+
+    const urls: DanaUrlParam[] = [];
+    if (returnUrl) {
+      urls.push({ url: returnUrl, type: 'PAY_RETURN', isDeeplink: 'N' });
+    }
+    if (notifyUrl) {
+      urls.push({ url: notifyUrl, type: 'NOTIFICATION', isDeeplink: 'N' });
+    }
+    return urls;
+  }
+
+  /**
+   * Mark an order FAILED after DANA rejected it
+   */
+  private async failOrder(
+    order: Order | null,
+    rawResponse: Prisma.InputJsonValue,
+    reason: string,
+  ) {
+    if (!order) {
+      return;
+    }
+    try {
+      await this.orderService.transition(
+        order.partnerReferenceNo,
+        OrderStatus.FAILED,
+        {
+          rawResponse,
+          reason,
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Could not mark order ${order.partnerReferenceNo} as failed: ${error.message}`,
+      );
+    }
+  }
+
+  private cancelAtDana(
+    merchant: MerchantContext,
+    order: Order,
+    reason: string,
+  ): Promise<CancelResponse> {
+    return this.danaApiClient.call(
+      merchant,
+      order.type === OrderType.QRIS
+        ? DANA_ENDPOINTS.qrisCancel
+        : DANA_ENDPOINTS.debitCancel,
+      {
+        originalPartnerReferenceNo: order.partnerReferenceNo,
+        originalReferenceNo: order.referenceNo || '',
+        merchantId: merchant.merchantId,
+        reason,
+      },
+    );
+  }
+
+  // DanaApiException is already an HttpException, a stray HTTP error is an
+  // upstream failure, anything else is ours
+  private toHttpException(error: unknown): HttpException {
+    if (error instanceof HttpException) {
+      return error;
+    }
+    if (error instanceof AxiosError) {
+      return new BadGatewayException(error.message);
+    }
+    return new InternalServerErrorException(
+      error instanceof Error ? error.message : String(error),
     );
   }
+
+  // typed SNAP payloads are plain JSON
+  private json(value: object): Prisma.InputJsonValue {
+    return value as Prisma.InputJsonObject;
+  }
+
+  private jsonObject(value: Prisma.JsonValue): Prisma.JsonObject {
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? value
+      : {};
+  }
 }
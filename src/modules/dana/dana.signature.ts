@@ -86,9 +86,8 @@ export class DanaSignatureService {
     }
   }
 
-  // Get current timestamp in ISO format
-  getTimestamp(): string {
-    const date = new Date();
+  // Get current (or given) timestamp in ISO format with local offset
+  getTimestamp(date: Date = new Date()): string {
     const pad = (n) => n.toString().padStart(2, '0');
 
     const year = date.getFullYear();
@@ -0,0 +1,148 @@
+import { ConfigType } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { Subject, of } from 'rxjs';
+import * as crypto from 'crypto';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { MerchantContext } from '../merchant/merchant.interface';
+import { danaConfig } from './dana.config';
+import { DanaTokenProvider } from './dana.token.provider';
+import { DanaResilience } from './dana.resilience';
+import { InvalidSignatureException } from '../../exceptions/invalid.signature.exception';
+
+describe('DanaTokenProvider', () => {
+  const { privateKey } = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'der' },
+    publicKeyEncoding: { type: 'spki', format: 'der' },
+  });
+  const merchant = {
+    id: 'merchant-1',
+    code: 'brand-a',
+    clientId: 'client-a',
+    privateKey: privateKey.toString('base64'),
+    tokenChannelId: '95221',
+  } as MerchantContext;
+  const config = {
+    baseUrl: 'https://dana.test',
+    tokenStore: 'memory',
+    tokenRefreshAheadSeconds: 60,
+    retryAttempts: 1,
+    circuitFailureThreshold: 5,
+    circuitResetSeconds: 30,
+  } as ConfigType<typeof danaConfig>;
+
+  let post: jest.Mock;
+  let provider: DanaTokenProvider;
+
+  const tokenResponse = (accessToken: string, expiresIn = '900') =>
+    of({ data: { accessToken, expiresIn } });
+
+  beforeEach(() => {
+    post = jest.fn();
+    provider = new DanaTokenProvider(
+      config,
+      { post } as unknown as HttpService,
+      {} as PrismaService,
+      new DanaResilience(config),
+    );
+  });
+
+  it('should reuse a fresh token', async () => {
+    post.mockReturnValue(tokenResponse('first'));
+
+    await provider.getToken(merchant);
+    const token = await provider.getToken(merchant);
+
+    expect(token.accessToken).toBe('first');
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share one refresh between concurrent callers', async () => {
+    const response = new Subject<any>();
+    post.mockReturnValue(response);
+
+    const pending = Promise.all([
+      provider.getToken(merchant),
+      provider.getToken(merchant),
+      provider.getToken(merchant),
+    ]);
+    response.next({ data: { accessToken: 'shared', expiresIn: '900' } });
+    response.complete();
+
+    const tokens = await pending;
+    expect(tokens.map((t) => t.accessToken)).toEqual([
+      'shared',
+      'shared',
+      'shared',
+    ]);
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refresh ahead of expiry without blocking the caller', async () => {
+    post
+      .mockReturnValueOnce(tokenResponse('old'))
+      .mockReturnValueOnce(tokenResponse('new'));
+    await provider.getToken(merchant);
+
+    const almostExpired = Date.now() + 870 * 1000;
+    const token = await provider.getToken(merchant, almostExpired);
+    expect(token.accessToken).toBe('old');
+
+    await new Promise(setImmediate);
+    expect((await provider.getToken(merchant)).accessToken).toBe('new');
+    expect(post).toHaveBeenCalledTimes(2);
+  });
+
+  it('should wait for a new token once the old one expired', async () => {
+    post
+      .mockReturnValueOnce(tokenResponse('old'))
+      .mockReturnValueOnce(tokenResponse('new'));
+    await provider.getToken(merchant);
+
+    const expired = Date.now() + 901 * 1000;
+    expect((await provider.getToken(merchant, expired)).accessToken).toBe(
+      'new',
+    );
+  });
+
+  it('should keep tokens of different merchants apart', async () => {
+    post
+      .mockReturnValueOnce(tokenResponse('a'))
+      .mockReturnValueOnce(tokenResponse('b'));
+
+    await provider.getToken(merchant);
+    const other = await provider.getToken({ ...merchant, id: 'merchant-2' });
+
+    expect(other.accessToken).toBe('b');
+    expect(post.mock.calls[1][2].headers['X-CLIENT-KEY']).toBe('client-a');
+  });
+
+  it('should reject a response without a token', async () => {
+    post.mockReturnValue(of({ data: {} }));
+
+    await expect(provider.getToken(merchant)).rejects.toThrow(
+      /Invalid DANA token response/,
+    );
+  });
+
+  it('should type a refused token request', async () => {
+    post.mockReturnValue(of({ data: { responseCode: '4017300' } }));
+
+    await expect(provider.getToken(merchant)).rejects.toBeInstanceOf(
+      InvalidSignatureException,
+    );
+  });
+
+  it('should fetch a new token once the old one is invalidated', async () => {
+    post
+      .mockReturnValueOnce(tokenResponse('first'))
+      .mockReturnValueOnce(tokenResponse('second'));
+
+    await provider.getToken(merchant);
+    await provider.invalidate(merchant);
+    const token = await provider.getToken(merchant);
+
+    expect(token.accessToken).toBe('second');
+  });
+});
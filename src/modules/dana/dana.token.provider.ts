@@ -0,0 +1,199 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigType } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+import * as crypto from 'crypto';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { MerchantContext } from '../merchant/merchant.interface';
+import { decrypt, encrypt } from '../../shared/utils/encryption';
+import { danaConfig } from './dana.config';
+import { DanaSignatureService } from './dana.signature';
+import { DanaResilience } from './dana.resilience';
+import { fromHttpError, toDanaException } from './dana.response.codes';
+
+export interface DanaAccessToken {
+  accessToken: string;
+  expiresAt: Date;
+}
+
+const TOKEN_PATH = '/v1.0/access-token/b2b.htm';
+const TOKEN_ENDPOINT = 'access token';
+const TOKEN_TIMEOUT_MS = 10000;
+
+/**
+ * Hands out DANA B2B access tokens per merchant. A token is renewed
+ * tokenRefreshAheadSeconds before it expires, in the background while the
+ * old one still works, and concurrent callers share one in-flight refresh.
+ * With DANA_TOKEN_STORE=postgres tokens live in dana_access_tokens and an
+ * advisory lock lets a single instance fetch the token for all of them.
+ */
+@Injectable()
+export class DanaTokenProvider {
+  private readonly logger = new Logger(DanaTokenProvider.name);
+  private signatureService = new DanaSignatureService();
+  private readonly tokens = new Map<string, DanaAccessToken>();
+  private readonly refreshes = new Map<string, Promise<DanaAccessToken>>();
+
+  constructor(
+    @Inject(danaConfig.KEY)
+    private readonly config: ConfigType<typeof danaConfig>,
+    private readonly httpService: HttpService,
+    private readonly prisma: PrismaService,
+    private readonly resilience: DanaResilience,
+  ) {}
+
+  async getToken(
+    merchant: MerchantContext,
+    now: number = Date.now(),
+  ): Promise<DanaAccessToken> {
+    const cached = this.tokens.get(merchant.id);
+    if (cached && this.isFresh(cached, now)) {
+      return cached;
+    }
+    if (cached && cached.expiresAt.getTime() > now) {
+      this.refresh(merchant).catch((error) =>
+        this.logger.warn(
+          `Background token refresh for ${merchant.code} failed: ${error.message}`,
+        ),
+      );
+      return cached;
+    }
+    return this.refresh(merchant);
+  }
+
+  /**
+   * Drop a token DANA refused, the next getToken fetches a new one
+   */
+  async invalidate(merchant: MerchantContext): Promise<void> {
+    const current = this.tokens.get(merchant.id);
+    this.tokens.delete(merchant.id);
+    if (current && this.config.tokenStore === 'postgres') {
+      // a token another instance just stored has a different expiry
+      await this.prisma.danaAccessToken.deleteMany({
+        where: { merchantId: merchant.id, expiresAt: current.expiresAt },
+      });
+    }
+  }
+
+  private refresh(merchant: MerchantContext): Promise<DanaAccessToken> {
+    let pending = this.refreshes.get(merchant.id);
+    if (!pending) {
+      pending = this.load(merchant)
+        .then((token) => {
+          this.tokens.set(merchant.id, token);
+          return token;
+        })
+        .finally(() => this.refreshes.delete(merchant.id));
+      this.refreshes.set(merchant.id, pending);
+    }
+    return pending;
+  }
+
+  private async load(merchant: MerchantContext): Promise<DanaAccessToken> {
+    if (this.config.tokenStore !== 'postgres') {
+      return this.requestToken(merchant);
+    }
+    return this.prisma.$transaction(
+      async (tx) => {
+        // held until commit, other instances wait and then reuse our token
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`dana-token:${merchant.id}`}))`;
+        const stored = await tx.danaAccessToken.findUnique({
+          where: { merchantId: merchant.id },
+        });
+        if (stored && this.isFresh(stored)) {
+          return {
+            accessToken: decrypt(stored.accessToken),
+            expiresAt: stored.expiresAt,
+          };
+        }
+
+        const token = await this.requestToken(merchant);
+        const data = {
+          accessToken: encrypt(token.accessToken),
+          expiresAt: token.expiresAt,
+        };
+        await tx.danaAccessToken.upsert({
+          where: { merchantId: merchant.id },
+          create: { ...data, merchantId: merchant.id },
+          update: data,
+        });
+        return token;
+      },
+      {
+        maxWait: this.tokenDeadlineMs(),
+        timeout: this.tokenDeadlineMs() + 5000,
+      },
+    );
+  }
+
+  private requestToken(merchant: MerchantContext): Promise<DanaAccessToken> {
+    return this.resilience.execute(
+      TOKEN_ENDPOINT,
+      () => this.fetchToken(merchant),
+      { retry: true },
+    );
+  }
+
+  private async fetchToken(
+    merchant: MerchantContext,
+  ): Promise<DanaAccessToken> {
+    const timestamp = this.signatureService.getTimestamp();
+    const signature = this.signatureService.generateSignature(
+      `${merchant.clientId}|${timestamp}`,
+      merchant.privateKey,
+    );
+
+    let data: any;
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post(
+          `${this.config.baseUrl}${TOKEN_PATH}`,
+          { grantType: 'client_credentials', additionalInfo: {} },
+          {
+            headers: {
+              'Content-Type': 'application/json',
+              'X-CLIENT-KEY': merchant.clientId,
+              'X-SIGNATURE': signature,
+              'X-TIMESTAMP': timestamp,
+              'X-EXTERNAL-ID': crypto.randomUUID(),
+              'CHANNEL-ID': merchant.tokenChannelId,
+            },
+            timeout: TOKEN_TIMEOUT_MS,
+          },
+        ),
+      );
+      data = response.data;
+    } catch (error) {
+      throw fromHttpError(TOKEN_ENDPOINT, error);
+    }
+
+    const { accessToken, expiresIn } = data || {};
+    if (!accessToken || !(Number(expiresIn) > 0)) {
+      throw toDanaException(
+        TOKEN_ENDPOINT,
+        data && typeof data === 'object' ? data : undefined,
+        undefined,
+        `Invalid DANA token response: ${JSON.stringify(data)}`,
+      );
+    }
+    this.logger.log(`Fetched DANA access token for ${merchant.code}`);
+    return {
+      accessToken,
+      expiresAt: new Date(Date.now() + Number(expiresIn) * 1000),
+    };
+  }
+
+  // longest a token request may take, retries included
+  private tokenDeadlineMs(): number {
+    return (
+      this.config.retryAttempts * TOKEN_TIMEOUT_MS +
+      (this.config.retryAttempts - 1) * 5000
+    );
+  }
+
+  private isFresh(token: DanaAccessToken, now: number = Date.now()) {
+    const refreshAheadMs = this.config.tokenRefreshAheadSeconds * 1000;
+    return token.expiresAt.getTime() - now > refreshAheadMs;
+  }
+}
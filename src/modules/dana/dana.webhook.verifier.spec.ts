@@ -0,0 +1,141 @@
+import * as crypto from 'crypto';
+import { ConfigType } from '@nestjs/config';
+
+import { danaConfig } from './dana.config';
+import { DanaSignatureService } from './dana.signature';
+import { DanaWebhookVerifier } from './dana.webhook.verifier';
+
+describe('DanaWebhookVerifier', () => {
+  const path = '/api/v1/dana/webhook';
+  const rawBody = JSON.stringify(
+    {
+      originalPartnerReferenceNo: 'ORDER-1',
+      latestTransactionStatus: '00',
+      amount: { value: '10000.00', currency: 'IDR' },
+    },
+    null,
+    2,
+  );
+  const signatureService = new DanaSignatureService();
+  let verifier: DanaWebhookVerifier;
+  let danaKeys: { publicKey: string; privateKey: string };
+  let otherKeys: { publicKey: string; privateKey: string };
+
+  const generateKeys = () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'der' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'der' },
+    });
+    return {
+      publicKey: publicKey.toString('base64'),
+      privateKey: privateKey.toString('base64'),
+    };
+  };
+
+  const sign = (body: string, timestamp: string, privateKey: string) =>
+    signatureService.generateSignature(
+      signatureService.prepareSignatureData('POST', path, body, timestamp),
+      privateKey,
+    );
+
+  beforeAll(() => {
+    danaKeys = generateKeys();
+    otherKeys = generateKeys();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    verifier = new DanaWebhookVerifier({
+      webhookToleranceSeconds: 300,
+    } as ConfigType<typeof danaConfig>);
+  });
+
+  it('should accept a notification signed by DANA', () => {
+    const timestamp = signatureService.getTimestamp();
+    const signature = sign(rawBody, timestamp, danaKeys.privateKey);
+
+    expect(
+      verifier.verify(
+        { path, rawBody, timestamp, signature },
+        danaKeys.publicKey,
+      ),
+    ).toEqual({ valid: true });
+  });
+
+  it('should hash the minified body', () => {
+    const timestamp = signatureService.getTimestamp();
+    const signature = sign(
+      JSON.stringify(JSON.parse(rawBody)),
+      timestamp,
+      danaKeys.privateKey,
+    );
+
+    expect(
+      verifier.verify(
+        { path, rawBody, timestamp, signature },
+        danaKeys.publicKey,
+      ).valid,
+    ).toBe(true);
+  });
+
+  it('should reject a tampered body', () => {
+    const timestamp = signatureService.getTimestamp();
+    const signature = sign(rawBody, timestamp, danaKeys.privateKey);
+    const tampered = rawBody.replace('10000.00', '1.00');
+
+    expect(
+      verifier.verify(
+        { path, rawBody: tampered, timestamp, signature },
+        danaKeys.publicKey,
+      ).valid,
+    ).toBe(false);
+  });
+
+  it('should reject a signature made with another key', () => {
+    const timestamp = signatureService.getTimestamp();
+    const signature = sign(rawBody, timestamp, otherKeys.privateKey);
+
+    expect(
+      verifier.verify(
+        { path, rawBody, timestamp, signature },
+        danaKeys.publicKey,
+      ).valid,
+    ).toBe(false);
+  });
+
+  it('should reject a signature for another path', () => {
+    const timestamp = signatureService.getTimestamp();
+    const signature = sign(rawBody, timestamp, danaKeys.privateKey);
+
+    expect(
+      verifier.verify(
+        { path: '/api/v1/dana/other', rawBody, timestamp, signature },
+        danaKeys.publicKey,
+      ).valid,
+    ).toBe(false);
+  });
+
+  it('should reject stale timestamps even when correctly signed', () => {
+    const timestamp = signatureService.getTimestamp(
+      new Date(Date.now() - 60 * 60 * 1000),
+    );
+    const signature = sign(rawBody, timestamp, danaKeys.privateKey);
+
+    expect(
+      verifier.verify(
+        { path, rawBody, timestamp, signature },
+        danaKeys.publicKey,
+      ),
+    ).toEqual({ valid: false, reason: `stale X-TIMESTAMP ${timestamp}` });
+  });
+
+  it('should reject missing headers', () => {
+    expect(
+      verifier.verify(
+        { path, rawBody, timestamp: undefined, signature: undefined },
+        danaKeys.publicKey,
+      ).valid,
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+
+import { danaConfig } from './dana.config';
+import { DanaSignatureService } from './dana.signature';
+
+export interface DanaWebhookRequest {
+  method?: string;
+  // relative path DANA posted to, e.g. /api/v1/dana/webhook
+  path: string;
+  rawBody: string;
+  timestamp: string;
+  signature: string;
+}
+
+export interface DanaWebhookVerification {
+  valid: boolean;
+  reason?: string;
+}
+
+/**
+ * Verifies SNAP notifications sent by DANA. DANA signs
+ * `POST:<path>:<sha256(minified body)>:<X-TIMESTAMP>` with its own private
+ * key, so the check runs against DANA's public key, never ours.
+ */
+@Injectable()
+export class DanaWebhookVerifier {
+  private readonly logger = new Logger(DanaWebhookVerifier.name);
+  private signatureService = new DanaSignatureService();
+
+  constructor(
+    @Inject(danaConfig.KEY)
+    private readonly config: ConfigType<typeof danaConfig>,
+  ) {}
+
+  verify(
+    request: DanaWebhookRequest,
+    publicKey: string = this.config.danaPublickKey,
+    now: number = Date.now(),
+  ): DanaWebhookVerification {
+    if (!request.signature || !request.timestamp) {
+      return this.reject('missing X-SIGNATURE or X-TIMESTAMP');
+    }
+
+    const sentAt = Date.parse(request.timestamp);
+    if (Number.isNaN(sentAt)) {
+      return this.reject(`unparseable X-TIMESTAMP ${request.timestamp}`);
+    }
+    const toleranceMs = this.config.webhookToleranceSeconds * 1000;
+    if (Math.abs(now - sentAt) > toleranceMs) {
+      return this.reject(`stale X-TIMESTAMP ${request.timestamp}`);
+    }
+
+    const stringToSign = this.signatureService.prepareSignatureData(
+      (request.method || 'POST').toUpperCase(),
+      request.path,
+      request.rawBody,
+      request.timestamp,
+    );
+    const valid = this.signatureService.verifySignature(
+      stringToSign,
+      publicKey,
+      request.signature,
+    );
+    return valid ? { valid } : this.reject('signature mismatch');
+  }
+
+  private reject(reason: string): DanaWebhookVerification {
+    this.logger.warn(`Rejected DANA webhook: ${reason}`);
+    return { valid: false, reason };
+  }
+}
@@ -0,0 +1,118 @@
+import { InvalidFormException } from '../../exceptions/invalid.form.exception';
+import { calculateFee, quoteFee, validateFeeRules } from './fee.engine';
+import { FeeRules } from './fee.interface';
+
+describe('fee engine', () => {
+  const rules: FeeRules = {
+    QRIS: { percent: '0.7' },
+    NETWORK_PAY_PG_OVO: { percent: '1.5', min: '1000' },
+    DEFAULT: { percent: '2', flat: '500' },
+  };
+
+  describe('calculateFee', () => {
+    it('should add the flat fee to the percentage', () => {
+      expect(
+        calculateFee('10000', { percent: '1', flat: '300' }).toFixed(2),
+      ).toBe('400.00');
+    });
+
+    it('should round to whole rupiah without float errors', () => {
+      // 0.7% of 10050 is 70.35
+      expect(calculateFee('10050', { percent: '0.7' }).toFixed(2)).toBe(
+        '70.00',
+      );
+      expect(
+        calculateFee('10050', { percent: '0.7', rounding: 'UP' }).toFixed(2),
+      ).toBe('71.00');
+      // 0.7% of 1450 is 10.15, then 10.5 after the flat fee
+      expect(
+        calculateFee('1450', { percent: '0.7', flat: '0.35' }).toFixed(2),
+      ).toBe('11.00');
+      expect(
+        calculateFee('1450', {
+          percent: '0.7',
+          flat: '0.35',
+          rounding: 'DOWN',
+        }).toFixed(2),
+      ).toBe('10.00');
+    });
+
+    it('should hold the fee within min and max', () => {
+      const rule = { percent: '1', min: '1000', max: '5000' };
+      expect(calculateFee('10000', rule).toFixed(2)).toBe('1000.00');
+      expect(calculateFee('200000', rule).toFixed(2)).toBe('2000.00');
+      expect(calculateFee('1000000', rule).toFixed(2)).toBe('5000.00');
+    });
+
+    it('should never charge more than the amount', () => {
+      expect(calculateFee('300', { flat: '500' }).toFixed(2)).toBe('300.00');
+    });
+  });
+
+  describe('quoteFee', () => {
+    it('should prefer the payOption rule over the payMethod rule', () => {
+      expect(
+        quoteFee(
+          '10000',
+          { payMethod: 'NETWORK_PAY', payOption: 'NETWORK_PAY_PG_OVO' },
+          rules,
+        ),
+      ).toEqual({
+        rule: 'NETWORK_PAY_PG_OVO',
+        feeAmount: '1000.00',
+        netAmount: '9000.00',
+      });
+      expect(quoteFee('10000', { payMethod: 'QRIS' }, rules)).toEqual({
+        rule: 'QRIS',
+        feeAmount: '70.00',
+        netAmount: '9930.00',
+      });
+    });
+
+    it('should fall back to the default rule', () => {
+      expect(quoteFee('10000', { payMethod: 'BALANCE' }, rules)).toMatchObject({
+        rule: 'DEFAULT',
+        feeAmount: '700.00',
+      });
+      expect(quoteFee('10000', {}, { QRIS: rules.QRIS })).toBeNull();
+    });
+
+    it('should apply merchant overrides per rule', () => {
+      const quote = quoteFee('10000', { payMethod: 'QRIS' }, rules, {
+        QRIS: { percent: '0.3' },
+      });
+      expect(quote).toMatchObject({ rule: 'QRIS', feeAmount: '30.00' });
+    });
+  });
+
+  describe('validateFeeRules', () => {
+    it('should accept numbers and return strings', () => {
+      expect(
+        validateFeeRules({
+          QRIS: { percent: 0.7, max: 10000, rounding: 'UP' },
+        }),
+      ).toEqual({ QRIS: { percent: '0.7', max: '10000', rounding: 'UP' } });
+    });
+
+    it('should report every invalid field', () => {
+      expect.assertions(2);
+      try {
+        validateFeeRules({
+          qris: {},
+          QRIS: { percent: '101', min: '10', max: '5' },
+          BALANCE: { flat: '-1', rounding: 'NEAREST', extra: 1 },
+          OVO: 'free',
+        });
+      } catch (error) {
+        expect(error).toBeInstanceOf(InvalidFormException);
+        expect(Object.keys(error.getFieldErrors())).toEqual([
+          'feeRules.qris',
+          'feeRules.QRIS.percent',
+          'feeRules.QRIS.min',
+          'feeRules.BALANCE',
+          'feeRules.OVO',
+        ]);
+      }
+    });
+  });
+});
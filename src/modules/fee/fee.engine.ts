@@ -0,0 +1,144 @@
+import { Prisma } from '@prisma/client';
+
+import { InvalidFormException } from '../../exceptions/invalid.form.exception';
+import { FeeQuote, FeeRounding, FeeRule, FeeRules } from './fee.interface';
+
+// applies to pay methods without a rule of their own
+export const DEFAULT_FEE_RULE = 'DEFAULT';
+
+const RULE_KEY_REGEX = /^[A-Z0-9_]{1,64}$/;
+const DECIMAL_REGEX = /^\d{1,16}(\.\d{1,6})?$/;
+const AMOUNT_FIELDS = ['percent', 'flat', 'min', 'max'] as const;
+const ROUNDING: Record<FeeRounding, Prisma.Decimal.Rounding> = {
+  HALF_UP: Prisma.Decimal.ROUND_HALF_UP,
+  UP: Prisma.Decimal.ROUND_UP,
+  DOWN: Prisma.Decimal.ROUND_DOWN,
+};
+
+/**
+ * The fee DANA should charge for a payment. The rule is looked up by
+ * payOption, then payMethod, then DEFAULT; a merchant's override replaces the
+ * configured rule of the same key as a whole.
+ */
+export function quoteFee(
+  amount: Prisma.Decimal.Value,
+  method: { payMethod?: string | null; payOption?: string | null },
+  rules: FeeRules,
+  overrides: FeeRules = {},
+): FeeQuote | null {
+  const merged = new Map(Object.entries({ ...rules, ...overrides }));
+  const key = [method.payOption, method.payMethod, DEFAULT_FEE_RULE].find(
+    (candidate) => candidate && merged.has(candidate),
+  );
+  if (!key) {
+    return null;
+  }
+  const paid = new Prisma.Decimal(amount);
+  const fee = calculateFee(paid, merged.get(key));
+  return {
+    rule: key,
+    feeAmount: fee.toFixed(2),
+    netAmount: paid.minus(fee).toFixed(2),
+  };
+}
+
+/**
+ * flat + amount * percent / 100, held within min and max and rounded to
+ * whole rupiah. A fee never exceeds the amount it is charged on.
+ */
+export function calculateFee(
+  amount: Prisma.Decimal.Value,
+  rule: FeeRule,
+): Prisma.Decimal {
+  const paid = new Prisma.Decimal(amount);
+  let fee = paid
+    .times(rule.percent ?? 0)
+    .dividedBy(100)
+    .plus(rule.flat ?? 0);
+  if (rule.min !== undefined) {
+    fee = Prisma.Decimal.max(fee, rule.min);
+  }
+  if (rule.max !== undefined) {
+    fee = Prisma.Decimal.min(fee, rule.max);
+  }
+  fee = fee.toDecimalPlaces(0, ROUNDING[rule.rounding ?? 'HALF_UP']);
+  return Prisma.Decimal.min(fee, paid);
+}
+
+/**
+ * Check fee rules sent by a caller, amounts given as numbers come back as
+ * strings. All problems are reported at once.
+ */
+export function validateFeeRules(value: unknown, field = 'feeRules'): FeeRules {
+  if (!isObject(value)) {
+    throw new InvalidFormException(
+      { [field]: `${field} must be an object` },
+      'Invalid fee rules',
+    );
+  }
+  const errors: { [key: string]: string } = {};
+  const rules: FeeRules = {};
+  for (const [key, rule] of Object.entries(value)) {
+    const path = `${field}.${key}`;
+    if (!RULE_KEY_REGEX.test(key)) {
+      errors[path] = `${key} is not a pay method or pay option`;
+      continue;
+    }
+    if (!isObject(rule)) {
+      errors[path] = `${path} must be an object`;
+      continue;
+    }
+    const unknown = Object.keys(rule).filter(
+      (name) =>
+        !(AMOUNT_FIELDS as readonly string[]).includes(name) &&
+        name !== 'rounding',
+    );
+    if (unknown.length) {
+      errors[path] = `unknown field ${unknown.join(', ')}`;
+      continue;
+    }
+
+    const parsed: FeeRule = {};
+    for (const name of AMOUNT_FIELDS) {
+      if (rule[name] === undefined || rule[name] === null) {
+        continue;
+      }
+      const amount = String(rule[name]);
+      if (!DECIMAL_REGEX.test(amount)) {
+        errors[`${path}.${name}`] = `${name} must be a positive decimal`;
+      } else {
+        parsed[name] = amount;
+      }
+    }
+    if (
+      parsed.percent !== undefined &&
+      new Prisma.Decimal(parsed.percent).greaterThan(100)
+    ) {
+      errors[`${path}.percent`] = 'percent must be at most 100';
+    }
+    if (
+      parsed.min !== undefined &&
+      parsed.max !== undefined &&
+      new Prisma.Decimal(parsed.min).greaterThan(parsed.max)
+    ) {
+      errors[`${path}.min`] = 'min must not exceed max';
+    }
+    if (rule.rounding !== undefined) {
+      if (!Object.keys(ROUNDING).includes(rule.rounding as string)) {
+        errors[`${path}.rounding`] =
+          `rounding must be one of ${Object.keys(ROUNDING).join(', ')}`;
+      } else {
+        parsed.rounding = rule.rounding as FeeRounding;
+      }
+    }
+    rules[key] = parsed;
+  }
+  if (Object.keys(errors).length) {
+    throw new InvalidFormException(errors, 'Invalid fee rules');
+  }
+  return rules;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
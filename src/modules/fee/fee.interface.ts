@@ -0,0 +1,28 @@
+/**
+ * How DANA charges one pay method. Amounts and percentages are decimal
+ * strings so rates like 0.7% survive untouched.
+ */
+export interface FeeRule {
+  // of the paid amount, e.g. '0.7' for 0.7%
+  percent?: string;
+  // added per transaction
+  flat?: string;
+  min?: string;
+  max?: string;
+  // to whole rupiah, HALF_UP when unset
+  rounding?: FeeRounding;
+}
+
+export type FeeRounding = 'HALF_UP' | 'UP' | 'DOWN';
+
+// keyed by payOption (e.g. NETWORK_PAY_PG_OVO) or payMethod (e.g. QRIS)
+export interface FeeRules {
+  [key: string]: FeeRule;
+}
+
+export interface FeeQuote {
+  // key of the rule that applied
+  rule: string;
+  feeAmount: string;
+  netAmount: string;
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+
+import { PrismaModule } from '../prisma/prisma.module';
+import { IdempotencyService } from './idempotency.service';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [IdempotencyService],
+  exports: [IdempotencyService],
+})
+export class IdempotencyModule {}
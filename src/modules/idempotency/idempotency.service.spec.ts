@@ -0,0 +1,216 @@
+import { ConflictException } from '@nestjs/common';
+import { IdempotencyKeyStatus, Prisma } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { IdempotencyService } from './idempotency.service';
+
+describe('IdempotencyService', () => {
+  const duplicate = new Prisma.PrismaClientKnownRequestError('duplicate', {
+    code: 'P2002',
+    clientVersion: 'test',
+  });
+  const request = { route: 'create-order', payload: { amount: '1000.00' } };
+
+  let idempotencyKey: { [method: string]: jest.Mock };
+  let service: IdempotencyService;
+
+  const stored = (overrides: object = {}) => ({
+    id: 'key-1',
+    merchantId: 'merchant-1',
+    key: 'abc',
+    requestHash: '',
+    status: IdempotencyKeyStatus.COMPLETED,
+    response: { partnerReferenceNo: 'order-1' },
+    expiresAt: new Date(Date.now() + 60_000),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  // hash of `request`, taken from the row the first run creates
+  const requestHash = async () => {
+    idempotencyKey.create.mockResolvedValueOnce(stored());
+    await service
+      .run('merchant-1', 'probe', request, async () => ({}))
+      .catch(() => null);
+    return idempotencyKey.create.mock.calls.pop()[0].data.requestHash;
+  };
+
+  beforeEach(() => {
+    idempotencyKey = {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    };
+    service = new IdempotencyService({
+      idempotencyKey,
+    } as unknown as PrismaService);
+  });
+
+  it('should run the handler without a key', async () => {
+    const handler = jest.fn().mockResolvedValue({ ok: true });
+
+    await expect(
+      service.run('merchant-1', undefined, request, handler),
+    ).resolves.toEqual({ ok: true });
+    expect(idempotencyKey.create).not.toHaveBeenCalled();
+  });
+
+  it('should store the response of the first request', async () => {
+    idempotencyKey.create.mockResolvedValue(
+      stored({ status: IdempotencyKeyStatus.IN_PROGRESS, response: null }),
+    );
+
+    await service.run('merchant-1', 'abc', request, async () => ({
+      partnerReferenceNo: 'order-1',
+    }));
+
+    expect(idempotencyKey.update).toHaveBeenCalledWith({
+      where: { id: 'key-1' },
+      data: {
+        status: IdempotencyKeyStatus.COMPLETED,
+        response: { partnerReferenceNo: 'order-1' },
+      },
+    });
+  });
+
+  it('should replay the stored response for a repeat', async () => {
+    const hash = await requestHash();
+    idempotencyKey.create.mockRejectedValue(duplicate);
+    idempotencyKey.findUnique.mockResolvedValue(stored({ requestHash: hash }));
+    const handler = jest.fn();
+
+    await expect(
+      service.run('merchant-1', 'abc', request, handler),
+    ).resolves.toEqual({ partnerReferenceNo: 'order-1' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should hash bodies independently of property order', async () => {
+    const hash = await requestHash();
+    idempotencyKey.create.mockRejectedValue(duplicate);
+    idempotencyKey.findUnique.mockResolvedValue(stored({ requestHash: hash }));
+
+    await expect(
+      service.run(
+        'merchant-1',
+        'abc',
+        { payload: { amount: '1000.00' }, route: 'create-order' },
+        jest.fn(),
+      ),
+    ).resolves.toEqual({ partnerReferenceNo: 'order-1' });
+  });
+
+  it('should refuse a key reused with a different body', async () => {
+    idempotencyKey.create.mockRejectedValue(duplicate);
+    idempotencyKey.findUnique.mockResolvedValue(
+      stored({ requestHash: 'other' }),
+    );
+
+    await expect(
+      service.run('merchant-1', 'abc', request, jest.fn()),
+    ).rejects.toThrow(/different request/);
+  });
+
+  it('should refuse a repeat while the first request runs', async () => {
+    const hash = await requestHash();
+    idempotencyKey.create.mockRejectedValue(duplicate);
+    idempotencyKey.findUnique.mockResolvedValue(
+      stored({
+        requestHash: hash,
+        status: IdempotencyKeyStatus.IN_PROGRESS,
+        response: null,
+      }),
+    );
+
+    await expect(
+      service.run('merchant-1', 'abc', request, jest.fn()),
+    ).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('should release the key when the request fails', async () => {
+    idempotencyKey.create.mockResolvedValue(
+      stored({ status: IdempotencyKeyStatus.IN_PROGRESS }),
+    );
+
+    await expect(
+      service.run('merchant-1', 'abc', request, async () => {
+        throw new Error('DANA down');
+      }),
+    ).rejects.toThrow('DANA down');
+    expect(idempotencyKey.deleteMany).toHaveBeenCalledWith({
+      where: { id: 'key-1' },
+    });
+  });
+
+  it('should keep the key bound to an order created before the failure', async () => {
+    idempotencyKey.create.mockResolvedValue(
+      stored({ status: IdempotencyKeyStatus.IN_PROGRESS, response: null }),
+    );
+
+    await expect(
+      service.run('merchant-1', 'abc', request, async (attempt) => {
+        await attempt.bind('order-1');
+        throw new Error('DANA create-order timed out');
+      }),
+    ).rejects.toThrow('timed out');
+    expect(idempotencyKey.update.mock.calls.map(([call]) => call.data)).toEqual(
+      [{ reference: 'order-1' }, { status: IdempotencyKeyStatus.FAILED }],
+    );
+    expect(idempotencyKey.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('should hand a retry the order of the failed request', async () => {
+    const hash = await requestHash();
+    idempotencyKey.create.mockRejectedValue(duplicate);
+    idempotencyKey.findUnique.mockResolvedValue(
+      stored({
+        requestHash: hash,
+        status: IdempotencyKeyStatus.FAILED,
+        reference: 'order-1',
+        response: null,
+      }),
+    );
+    idempotencyKey.updateMany.mockResolvedValue({ count: 1 });
+    const handler = jest.fn().mockResolvedValue({ resumed: true });
+
+    await expect(
+      service.run('merchant-1', 'abc', request, handler),
+    ).resolves.toEqual({ resumed: true });
+    expect(handler.mock.calls[0][0].reference).toBe('order-1');
+    expect(idempotencyKey.updateMany.mock.calls[0][0].data).toMatchObject({
+      reference: 'order-1',
+      status: IdempotencyKeyStatus.IN_PROGRESS,
+    });
+  });
+
+  it('should not hand a bound key to a different request', async () => {
+    idempotencyKey.create.mockRejectedValue(duplicate);
+    idempotencyKey.findUnique.mockResolvedValue(
+      stored({
+        requestHash: 'other',
+        status: IdempotencyKeyStatus.IN_PROGRESS,
+        reference: 'order-1',
+        updatedAt: new Date(Date.now() - 10 * 60_000),
+      }),
+    );
+
+    await expect(
+      service.run('merchant-1', 'abc', request, jest.fn()),
+    ).rejects.toThrow(/different request/);
+  });
+
+  it('should take over an expired key', async () => {
+    idempotencyKey.create.mockRejectedValue(duplicate);
+    idempotencyKey.findUnique.mockResolvedValue(
+      stored({ requestHash: 'other', expiresAt: new Date(Date.now() - 1) }),
+    );
+    idempotencyKey.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(
+      service.run('merchant-1', 'abc', request, async () => ({ fresh: true })),
+    ).resolves.toEqual({ fresh: true });
+    expect(idempotencyKey.update).toHaveBeenCalled();
+  });
+});
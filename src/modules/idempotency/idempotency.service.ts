@@ -0,0 +1,204 @@
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import { IdempotencyKey, IdempotencyKeyStatus, Prisma } from '@prisma/client';
+import * as crypto from 'crypto';
+
+import { PrismaService } from '../prisma/prisma.service';
+
+// how long a completed key answers repeats
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+// an IN_PROGRESS key older than this belongs to a request that died
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * What a handler learns about earlier runs with its key
+ */
+export interface IdempotentAttempt {
+  // partnerReferenceNo of the order an earlier, failed run created
+  reference: string | null;
+  // tie the key to the order just created, before it is sent to DANA
+  bind(reference: string): Promise<void>;
+}
+
+const UNKEYED: IdempotentAttempt = {
+  reference: null,
+  bind: async () => undefined,
+};
+
+/**
+ * Makes payment creation safe to repeat. The first request with a key runs
+ * and its response is stored; repeats with the same body get that response
+ * back, a different body or a repeat racing the first one gets a 409. A
+ * request that fails before creating its order releases the key; once the
+ * order exists the key stays bound to it, and a retry resumes that order
+ * instead of creating a second one.
+ */
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async run<T extends object>(
+    merchantId: string,
+    key: string | undefined,
+    request: object,
+    handler: (attempt: IdempotentAttempt) => Promise<T>,
+  ): Promise<T> {
+    if (!key) {
+      return handler(UNKEYED);
+    }
+
+    const requestHash = this.hash(request);
+    const claimed = await this.claim(merchantId, key, requestHash);
+    if (claimed.status === IdempotencyKeyStatus.COMPLETED) {
+      this.logger.log(`Replaying response of Idempotency-Key ${key}`);
+      return claimed.response as T;
+    }
+
+    let reference = claimed.reference;
+    const attempt: IdempotentAttempt = {
+      reference,
+      bind: async (partnerReferenceNo) => {
+        await this.prisma.idempotencyKey.update({
+          where: { id: claimed.id },
+          data: { reference: partnerReferenceNo },
+        });
+        reference = partnerReferenceNo;
+      },
+    };
+
+    let response: T;
+    try {
+      response = await handler(attempt);
+    } catch (error) {
+      if (reference) {
+        await this.prisma.idempotencyKey.update({
+          where: { id: claimed.id },
+          data: { status: IdempotencyKeyStatus.FAILED },
+        });
+      } else {
+        await this.prisma.idempotencyKey.deleteMany({
+          where: { id: claimed.id },
+        });
+      }
+      throw error;
+    }
+    await this.prisma.idempotencyKey.update({
+      where: { id: claimed.id },
+      data: {
+        status: IdempotencyKeyStatus.COMPLETED,
+        response: JSON.parse(JSON.stringify(response)),
+      },
+    });
+    return response;
+  }
+
+  /**
+   * Take the key for this request, or return the record of the request that
+   * already completed with it
+   */
+  private async claim(
+    merchantId: string,
+    key: string,
+    requestHash: string,
+  ): Promise<IdempotencyKey> {
+    const now = Date.now();
+    try {
+      return await this.prisma.idempotencyKey.create({
+        data: {
+          merchantId,
+          key,
+          requestHash,
+          expiresAt: new Date(now + KEY_TTL_MS),
+        },
+      });
+    } catch (error) {
+      if (
+        !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+        error.code !== 'P2002'
+      ) {
+        throw error;
+      }
+    }
+
+    const existing = await this.prisma.idempotencyKey.findUnique({
+      where: { merchantId_key: { merchantId, key } },
+    });
+    if (existing.expiresAt.getTime() <= now) {
+      return this.reclaim(existing, requestHash, now, null);
+    }
+    const abandoned =
+      existing.status === IdempotencyKeyStatus.IN_PROGRESS &&
+      existing.updatedAt.getTime() <= now - LOCK_TIMEOUT_MS;
+    if (existing.requestHash !== requestHash) {
+      // a key bound to an order keeps it until the key expires
+      if (abandoned && !existing.reference) {
+        return this.reclaim(existing, requestHash, now, null);
+      }
+      throw new ConflictException(
+        'Idempotency-Key was already used with a different request',
+      );
+    }
+    if (abandoned || existing.status === IdempotencyKeyStatus.FAILED) {
+      return this.reclaim(existing, requestHash, now, existing.reference);
+    }
+    if (existing.status === IdempotencyKeyStatus.IN_PROGRESS) {
+      throw new ConflictException(
+        'A request with this Idempotency-Key is still in progress',
+      );
+    }
+    return existing;
+  }
+
+  private async reclaim(
+    existing: IdempotencyKey,
+    requestHash: string,
+    now: number,
+    reference: string | null,
+  ): Promise<IdempotencyKey> {
+    // the updatedAt check lets only one of several racing requests win
+    const { count } = await this.prisma.idempotencyKey.updateMany({
+      where: { id: existing.id, updatedAt: existing.updatedAt },
+      data: {
+        requestHash,
+        reference,
+        status: IdempotencyKeyStatus.IN_PROGRESS,
+        response: Prisma.DbNull,
+        expiresAt: new Date(now + KEY_TTL_MS),
+      },
+    });
+    if (!count) {
+      throw new ConflictException(
+        'A request with this Idempotency-Key is still in progress',
+      );
+    }
+    return {
+      ...existing,
+      requestHash,
+      reference,
+      status: IdempotencyKeyStatus.IN_PROGRESS,
+    };
+  }
+
+  private hash(request: object): string {
+    return crypto
+      .createHash('sha256')
+      .update(this.canonical(request))
+      .digest('hex');
+  }
+
+  // JSON with sorted keys, so property order does not change the hash
+  private canonical(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.canonical(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      return `{${Object.keys(value)
+        .filter((key) => value[key] !== undefined)
+        .sort()
+        .map((key) => `${JSON.stringify(key)}:${this.canonical(value[key])}`)
+        .join(',')}}`;
+    }
+    return JSON.stringify(value ?? null);
+  }
+}
@@ -0,0 +1,50 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+
+import { AdminGuard } from '../../guards/admin.guard';
+import { MerchantService } from './merchant.service';
+import {
+  CreateMerchantDto,
+  MerchantApiKey,
+  PublicMerchant,
+  UpdateMerchantDto,
+} from './merchant.dto';
+
+@Controller('merchants')
+@UseGuards(AdminGuard)
+export class MerchantController {
+  constructor(private readonly merchantService: MerchantService) {}
+
+  /**
+   * Register a tenant, its API key is only returned here
+   */
+  @Post()
+  async create(@Body() payload: CreateMerchantDto): Promise<MerchantApiKey> {
+    return await this.merchantService.create(payload);
+  }
+
+  @Get()
+  async findAll(): Promise<PublicMerchant[]> {
+    return await this.merchantService.findAll();
+  }
+
+  @Patch(':id')
+  async update(
+    @Param('id') id: string,
+    @Body() payload: UpdateMerchantDto,
+  ): Promise<PublicMerchant> {
+    return await this.merchantService.update(id, payload);
+  }
+
+  @Post(':id/api-key')
+  async rotateApiKey(@Param('id') id: string): Promise<MerchantApiKey> {
+    return await this.merchantService.rotateApiKey(id);
+  }
+}
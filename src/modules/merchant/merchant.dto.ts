@@ -0,0 +1,119 @@
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { Merchant } from '@prisma/client';
+
+import { FeeRules } from '../fee/fee.interface';
+
+export class CreateMerchantDto {
+  @Matches(/^[a-z0-9]+(-[a-z0-9]+)*$/, {
+    message: 'code must be a lowercase slug',
+  })
+  @MaxLength(50)
+  code: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @Matches(/^\d+$/, { message: 'merchantId must be numeric' })
+  merchantId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  clientId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  clientSecret: string;
+
+  // PEM or base64 DER
+  @IsString()
+  @IsNotEmpty()
+  privateKey: string;
+
+  @IsString()
+  @IsNotEmpty()
+  publicKey: string;
+
+  @IsString()
+  @IsNotEmpty()
+  danaPublicKey: string;
+
+  @IsOptional()
+  @Matches(/^\d+$/, { message: 'channelId must be numeric' })
+  channelId?: string;
+
+  @IsOptional()
+  @Matches(/^\d+$/, { message: 'tokenChannelId must be numeric' })
+  tokenChannelId?: string;
+
+  // checked by validateFeeRules, see fee.engine.ts
+  @IsOptional()
+  @IsObject()
+  feeRules?: FeeRules;
+}
+
+export class UpdateMerchantDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  clientSecret?: string;
+
+  // rotating our key pair needs both halves
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  privateKey?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  publicKey?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  danaPublicKey?: string;
+
+  @IsOptional()
+  @Matches(/^\d+$/, { message: 'channelId must be numeric' })
+  channelId?: string;
+
+  @IsOptional()
+  @Matches(/^\d+$/, { message: 'tokenChannelId must be numeric' })
+  tokenChannelId?: string;
+
+  // replaces all overrides, {} falls back to the configured rules
+  @IsOptional()
+  @IsObject()
+  feeRules?: FeeRules;
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
+
+export type PublicMerchant = Omit<
+  Merchant,
+  'clientSecret' | 'privateKey' | 'apiKeyHash'
+>;
+
+export interface MerchantApiKey {
+  merchant: PublicMerchant;
+  // shown once, only its hash is stored
+  apiKey: string;
+}
@@ -0,0 +1,23 @@
+import { Request } from 'express';
+
+/**
+ * Decrypted DANA credentials of one tenant, everything an outbound call needs
+ */
+export interface MerchantContext {
+  id: string;
+  code: string;
+  name: string;
+  merchantId: string;
+  clientId: string;
+  clientSecret: string;
+  // base64 DER, see DanaSignatureService
+  privateKey: string;
+  publicKey: string;
+  danaPublicKey: string;
+  channelId: string;
+  tokenChannelId: string;
+}
+
+export interface MerchantRequest extends Request {
+  merchant?: MerchantContext;
+}
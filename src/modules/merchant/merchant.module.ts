@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+
+import { PrismaModule } from '../prisma/prisma.module';
+import { MerchantController } from './merchant.controller';
+import { MerchantService } from './merchant.service';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [MerchantService],
+  controllers: [MerchantController],
+  exports: [MerchantService],
+})
+export class MerchantModule {}
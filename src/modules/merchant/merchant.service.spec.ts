@@ -0,0 +1,224 @@
+import { ConfigType } from '@nestjs/config';
+import { Merchant } from '@prisma/client';
+import * as crypto from 'crypto';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { danaConfig } from '../dana/dana.config';
+import { DEFAULT_MERCHANT_CODE, MerchantService } from './merchant.service';
+
+jest.mock('../../shared/utils/encryption', () => ({
+  assertEncryptionKey: jest.fn(),
+  encrypt: (value: string) => `enc:${value}`,
+  decrypt: (value: string) => value.replace(/^enc:/, ''),
+}));
+
+describe('MerchantService', () => {
+  const keyPair = () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: 'pkcs8', format: 'der' },
+      publicKeyEncoding: { type: 'spki', format: 'der' },
+    });
+    return {
+      privateKey: privateKey.toString('base64'),
+      publicKey: publicKey.toString('base64'),
+    };
+  };
+  const ours = keyPair();
+  const dana = keyPair();
+  const config = {
+    merchantId: '216620000000000000000',
+    clientId: 'client-default',
+    clientSecret: 'secret-default',
+    privateKey: ours.privateKey,
+    publicKey: ours.publicKey,
+    danaPublickKey: dana.publicKey,
+    channelId: '11111',
+    tokenChannelId: '95221',
+  } as ConfigType<typeof danaConfig>;
+  const brandB = {
+    code: 'brand-b',
+    name: 'Brand B',
+    merchantId: '216620000000000000001',
+    clientId: 'client-b',
+    clientSecret: 'secret-b',
+    privateKey: ours.privateKey,
+    publicKey: ours.publicKey,
+    danaPublicKey: dana.publicKey,
+    channelId: '11111',
+    tokenChannelId: '95221',
+  };
+  const sha256 = (value: string) =>
+    crypto.createHash('sha256').update(value).digest('hex');
+
+  let merchants: Merchant[];
+  let prisma: { merchant: Record<string, jest.Mock> };
+  let service: MerchantService;
+
+  const find = (where: Partial<Merchant>) =>
+    merchants.find((merchant) =>
+      Object.entries(where).every(
+        ([field, value]) => merchant[field] === value,
+      ),
+    ) ?? null;
+  const save = (data: Partial<Merchant>) => {
+    const merchant = {
+      id: `id-${data.code}`,
+      active: true,
+      apiKeyHash: null,
+      ...data,
+    } as Merchant;
+    merchants.push(merchant);
+    return merchant;
+  };
+
+  beforeEach(() => {
+    merchants = [];
+    prisma = {
+      merchant: {
+        create: jest.fn(async ({ data }) => save(data)),
+        findUnique: jest.fn(async ({ where }) => find(where)),
+        update: jest.fn(async ({ where, data }) =>
+          Object.assign(find(where), data),
+        ),
+        upsert: jest.fn(async ({ where, create, update }) =>
+          find(where) ? Object.assign(find(where), update) : save(create),
+        ),
+      },
+    };
+    service = new MerchantService(prisma as unknown as PrismaService, config);
+  });
+
+  describe('API keys', () => {
+    it('should store only the hash of the key it issues', async () => {
+      const { apiKey } = await service.create(brandB);
+
+      expect(apiKey).toMatch(/^mk_[0-9a-f]{64}$/);
+      expect(merchants[0].apiKeyHash).toBe(sha256(apiKey));
+      expect(merchants[0].clientSecret).toBe('enc:secret-b');
+    });
+
+    it('should resolve a tenant by its key', async () => {
+      const { apiKey } = await service.create(brandB);
+
+      const merchant = await service.resolveApiKey(apiKey);
+
+      expect(merchant).toMatchObject({
+        code: 'brand-b',
+        clientId: 'client-b',
+        clientSecret: 'secret-b',
+      });
+      expect(prisma.merchant.findUnique).toHaveBeenLastCalledWith({
+        where: { apiKeyHash: sha256(apiKey) },
+      });
+    });
+
+    it('should refuse an unknown key', async () => {
+      await service.create(brandB);
+
+      await expect(service.resolveApiKey('mk_unknown')).rejects.toThrow(
+        'Invalid API key',
+      );
+    });
+
+    it('should refuse the key of an inactive tenant', async () => {
+      const { apiKey } = await service.create(brandB);
+      merchants[0].active = false;
+
+      await expect(service.resolveApiKey(apiKey)).rejects.toThrow(
+        'Invalid API key',
+      );
+    });
+
+    it('should stop accepting a rotated key', async () => {
+      const { apiKey } = await service.create(brandB);
+
+      const rotated = await service.rotateApiKey(merchants[0].id);
+
+      await expect(service.resolveApiKey(apiKey)).rejects.toThrow(
+        'Invalid API key',
+      );
+      await expect(
+        service.resolveApiKey(rotated.apiKey),
+      ).resolves.toMatchObject({ code: 'brand-b' });
+    });
+  });
+
+  describe('create', () => {
+    it('should reserve the default code', async () => {
+      await expect(
+        service.create({ ...brandB, code: DEFAULT_MERCHANT_CODE }),
+      ).rejects.toThrow('Merchant code default is reserved');
+    });
+
+    it('should refuse a public key that does not match the private key', async () => {
+      await expect(
+        service.create({ ...brandB, publicKey: dana.publicKey }),
+      ).rejects.toThrow('Invalid merchant keys');
+      expect(prisma.merchant.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('default merchant', () => {
+    it('should sync the default merchant from the environment once', async () => {
+      await service.getDefault();
+      const merchant = await service.getDefault();
+
+      expect(prisma.merchant.upsert).toHaveBeenCalledTimes(1);
+      expect(merchant).toMatchObject({
+        code: DEFAULT_MERCHANT_CODE,
+        merchantId: config.merchantId,
+        clientId: 'client-default',
+        clientSecret: 'secret-default',
+      });
+      expect(merchants[0].clientSecret).toBe('enc:secret-default');
+    });
+
+    it('should keep the API key of the default merchant when syncing', async () => {
+      await service.getDefault();
+      const { apiKey } = await service.rotateApiKey(merchants[0].id);
+
+      await new MerchantService(
+        prisma as unknown as PrismaService,
+        config,
+      ).getDefault();
+
+      await expect(service.resolveApiKey(apiKey)).resolves.toMatchObject({
+        code: DEFAULT_MERCHANT_CODE,
+      });
+    });
+
+    it('should refuse an inactive default merchant', async () => {
+      await service.getDefault();
+      merchants[0].active = false;
+
+      await expect(service.getDefault()).rejects.toThrow(
+        'An X-API-KEY is required',
+      );
+    });
+
+    it('should retry the sync after it failed', async () => {
+      prisma.merchant.upsert.mockRejectedValueOnce(new Error('db down'));
+
+      await expect(service.getDefault()).rejects.toThrow('db down');
+      await expect(service.getDefault()).resolves.toMatchObject({
+        code: DEFAULT_MERCHANT_CODE,
+      });
+    });
+
+    it('should look the default merchant up by its code', async () => {
+      await expect(
+        service.findByCode(DEFAULT_MERCHANT_CODE),
+      ).resolves.toMatchObject({ clientId: 'client-default' });
+    });
+
+    it('should hide inactive merchants from a code lookup', async () => {
+      await service.create(brandB);
+      merchants[0].active = false;
+
+      await expect(service.findByCode('brand-b')).rejects.toThrow(
+        'Merchant brand-b not found',
+      );
+    });
+  });
+});
@@ -0,0 +1,306 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { Merchant, Prisma } from '@prisma/client';
+import * as crypto from 'crypto';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { danaConfig } from '../dana/dana.config';
+import {
+  isKeyPair,
+  normalizePrivateKey,
+  normalizePublicKey,
+} from '../dana/dana.keys';
+import { validateFeeRules } from '../fee/fee.engine';
+import { InvalidFormException } from '../../exceptions/invalid.form.exception';
+import {
+  assertEncryptionKey,
+  decrypt,
+  encrypt,
+} from '../../shared/utils/encryption';
+import {
+  CreateMerchantDto,
+  MerchantApiKey,
+  PublicMerchant,
+  UpdateMerchantDto,
+} from './merchant.dto';
+import { MerchantContext } from './merchant.interface';
+
+// tenant backed by the DANA_* environment, used when no X-API-KEY is sent
+export const DEFAULT_MERCHANT_CODE = 'default';
+
+const PUBLIC_FIELDS = {
+  id: true,
+  code: true,
+  name: true,
+  merchantId: true,
+  clientId: true,
+  publicKey: true,
+  danaPublicKey: true,
+  channelId: true,
+  tokenChannelId: true,
+  feeRules: true,
+  active: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.MerchantSelect;
+
+@Injectable()
+export class MerchantService {
+  private readonly logger = new Logger(MerchantService.name);
+  private defaultSynced: Promise<void> | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(danaConfig.KEY)
+    private readonly config: ConfigType<typeof danaConfig>,
+  ) {
+    assertEncryptionKey();
+  }
+
+  /**
+   * Register a tenant and issue its API key
+   */
+  async create(payload: CreateMerchantDto): Promise<MerchantApiKey> {
+    if (payload.code === DEFAULT_MERCHANT_CODE) {
+      throw new ConflictException(
+        `Merchant code ${DEFAULT_MERCHANT_CODE} is reserved`,
+      );
+    }
+    const keys = this.normalizeKeys(payload);
+    const feeRules = payload.feeRules && validateFeeRules(payload.feeRules);
+    const apiKey = this.generateApiKey();
+    try {
+      const merchant = await this.prisma.merchant.create({
+        data: {
+          code: payload.code,
+          name: payload.name,
+          merchantId: payload.merchantId,
+          clientId: payload.clientId,
+          clientSecret: encrypt(payload.clientSecret),
+          privateKey: encrypt(keys.privateKey),
+          publicKey: keys.publicKey,
+          danaPublicKey: keys.danaPublicKey,
+          channelId: payload.channelId,
+          tokenChannelId: payload.tokenChannelId,
+          feeRules: feeRules && this.json(feeRules),
+          apiKeyHash: this.hashApiKey(apiKey),
+        },
+        select: PUBLIC_FIELDS,
+      });
+      return { merchant, apiKey };
+    } catch (error) {
+      throw this.conflictOrRethrow(error, payload);
+    }
+  }
+
+  async findAll(): Promise<PublicMerchant[]> {
+    return this.prisma.merchant.findMany({
+      select: PUBLIC_FIELDS,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async update(
+    id: string,
+    payload: UpdateMerchantDto,
+  ): Promise<PublicMerchant> {
+    const merchant = await this.findById(id);
+    const current = this.toContext(merchant);
+    const keys = this.normalizeKeys({
+      privateKey: payload.privateKey ?? current.privateKey,
+      publicKey: payload.publicKey ?? current.publicKey,
+      danaPublicKey: payload.danaPublicKey ?? current.danaPublicKey,
+    });
+    const feeRules = payload.feeRules && validateFeeRules(payload.feeRules);
+    return this.prisma.merchant.update({
+      where: { id },
+      data: {
+        name: payload.name,
+        clientSecret: payload.clientSecret && encrypt(payload.clientSecret),
+        privateKey: payload.privateKey && encrypt(keys.privateKey),
+        publicKey: keys.publicKey,
+        danaPublicKey: keys.danaPublicKey,
+        channelId: payload.channelId,
+        tokenChannelId: payload.tokenChannelId,
+        feeRules: feeRules && this.json(feeRules),
+        active: payload.active,
+      },
+      select: PUBLIC_FIELDS,
+    });
+  }
+
+  /**
+   * Replace a tenant's API key, the old one stops working immediately
+   */
+  async rotateApiKey(id: string): Promise<MerchantApiKey> {
+    await this.findById(id);
+    const apiKey = this.generateApiKey();
+    const merchant = await this.prisma.merchant.update({
+      where: { id },
+      data: { apiKeyHash: this.hashApiKey(apiKey) },
+      select: PUBLIC_FIELDS,
+    });
+    return { merchant, apiKey };
+  }
+
+  /**
+   * Tenant owning an X-API-KEY
+   */
+  async resolveApiKey(apiKey: string): Promise<MerchantContext> {
+    const merchant = await this.prisma.merchant.findUnique({
+      where: { apiKeyHash: this.hashApiKey(apiKey) },
+    });
+    if (!merchant?.active) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+    return this.toContext(merchant);
+  }
+
+  async findByCode(code: string): Promise<MerchantContext> {
+    if (code === DEFAULT_MERCHANT_CODE) {
+      return this.getDefault();
+    }
+    const merchant = await this.prisma.merchant.findUnique({
+      where: { code },
+    });
+    if (!merchant?.active) {
+      throw new NotFoundException(`Merchant ${code} not found`);
+    }
+    return this.toContext(merchant);
+  }
+
+  async findByClientId(clientId: string): Promise<MerchantContext | null> {
+    const merchant = await this.prisma.merchant.findUnique({
+      where: { clientId },
+    });
+    return merchant ? this.toContext(merchant) : null;
+  }
+
+  /**
+   * Credentials of the tenant an order belongs to
+   */
+  async getContext(id: string): Promise<MerchantContext> {
+    return this.toContext(await this.findById(id));
+  }
+
+  /**
+   * The tenant configured through DANA_* variables. The environment stays
+   * the source of truth: its row is rewritten from it once per process.
+   */
+  async getDefault(): Promise<MerchantContext> {
+    if (!this.defaultSynced) {
+      this.defaultSynced = this.syncDefault().catch((error) => {
+        this.defaultSynced = null;
+        throw error;
+      });
+    }
+    await this.defaultSynced;
+    const merchant = await this.prisma.merchant.findUnique({
+      where: { code: DEFAULT_MERCHANT_CODE },
+    });
+    if (!merchant.active) {
+      throw new UnauthorizedException('An X-API-KEY is required');
+    }
+    return this.toContext(merchant);
+  }
+
+  private async syncDefault(): Promise<void> {
+    const data = {
+      merchantId: this.config.merchantId,
+      clientId: this.config.clientId,
+      clientSecret: encrypt(this.config.clientSecret),
+      privateKey: encrypt(this.config.privateKey),
+      publicKey: this.config.publicKey,
+      danaPublicKey: this.config.danaPublickKey,
+      channelId: this.config.channelId,
+      tokenChannelId: this.config.tokenChannelId,
+    };
+    await this.prisma.merchant.upsert({
+      where: { code: DEFAULT_MERCHANT_CODE },
+      create: { ...data, code: DEFAULT_MERCHANT_CODE, name: 'Default' },
+      update: data,
+    });
+    this.logger.log(`Synced merchant ${DEFAULT_MERCHANT_CODE} from DANA_* env`);
+  }
+
+  private async findById(id: string): Promise<Merchant> {
+    const merchant = await this.prisma.merchant.findUnique({ where: { id } });
+    if (!merchant) {
+      throw new NotFoundException(`Merchant ${id} not found`);
+    }
+    return merchant;
+  }
+
+  private toContext(merchant: Merchant): MerchantContext {
+    return {
+      id: merchant.id,
+      code: merchant.code,
+      name: merchant.name,
+      merchantId: merchant.merchantId,
+      clientId: merchant.clientId,
+      clientSecret: decrypt(merchant.clientSecret),
+      privateKey: decrypt(merchant.privateKey),
+      publicKey: merchant.publicKey,
+      danaPublicKey: merchant.danaPublicKey,
+      channelId: merchant.channelId,
+      tokenChannelId: merchant.tokenChannelId,
+    };
+  }
+
+  private normalizeKeys(keys: {
+    privateKey: string;
+    publicKey: string;
+    danaPublicKey: string;
+  }) {
+    const errors: { [key: string]: string } = {};
+    const parse = (field: string, normalize: (value: string) => string) => {
+      try {
+        return normalize(keys[field]);
+      } catch {
+        errors[field] = `${field} is not a valid RSA key`;
+      }
+    };
+    const privateKey = parse('privateKey', normalizePrivateKey);
+    const publicKey = parse('publicKey', normalizePublicKey);
+    const danaPublicKey = parse('danaPublicKey', normalizePublicKey);
+
+    if (privateKey && publicKey && !isKeyPair(privateKey, publicKey)) {
+      errors.publicKey = 'publicKey does not match privateKey';
+    }
+    if (Object.keys(errors).length) {
+      throw new InvalidFormException(errors, 'Invalid merchant keys');
+    }
+    return { privateKey, publicKey, danaPublicKey };
+  }
+
+  private json(value: object): Prisma.InputJsonValue {
+    return value as Prisma.InputJsonObject;
+  }
+
+  private generateApiKey(): string {
+    return `mk_${crypto.randomBytes(32).toString('hex')}`;
+  }
+
+  private hashApiKey(apiKey: string): string {
+    return crypto.createHash('sha256').update(apiKey).digest('hex');
+  }
+
+  private conflictOrRethrow(error: unknown, payload: CreateMerchantDto) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    ) {
+      return new ConflictException(
+        `A merchant with code ${payload.code} or client ${payload.clientId} already exists`,
+      );
+    }
+    return error;
+  }
+}
@@ -0,0 +1,27 @@
+import { OrderType, Prisma } from '@prisma/client';
+
+export interface CreateOrderInput {
+  merchantId: string;
+  partnerReferenceNo: string;
+  type: OrderType;
+  amount: string;
+  currency: string;
+  payMethod?: string;
+  payOption?: string;
+  rawRequest?: Prisma.InputJsonValue;
+  returnUrl?: string;
+  expiresAt?: Date;
+}
+
+export interface TransitionOrderInput {
+  referenceNo?: string;
+  rawResponse?: Prisma.InputJsonValue;
+  reason?: string;
+  // QR code DANA issued when it accepted the order
+  qrContent?: string;
+  // only used when moving to PAID
+  paidAmount?: string;
+  payMethod?: string;
+  payOption?: string;
+  paidAt?: Date;
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+
+import { PrismaModule } from '../prisma/prisma.module';
+import { SubscriberModule } from '../subscriber/subscriber.module';
+import { OrderService } from './order.service';
+
+@Module({
+  imports: [PrismaModule, SubscriberModule],
+  providers: [OrderService],
+  exports: [OrderService],
+})
+export class OrderModule {}
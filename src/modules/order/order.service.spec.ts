@@ -0,0 +1,218 @@
+import { ConfigService } from '@nestjs/config';
+import { Order, OrderStatus, Prisma } from '@prisma/client';
+
+import { InvalidOrderTransitionException } from '../../exceptions/invalid.order.transition.exception';
+import { PrismaService } from '../prisma/prisma.service';
+import { SubscriberService } from '../subscriber/subscriber.service';
+import { OrderService } from './order.service';
+
+describe('OrderService', () => {
+  const paidAt = new Date('2024-05-02T10:00:00Z');
+
+  let order: Order;
+  let history: Record<string, unknown>[];
+  let payments: Record<string, unknown>[];
+  let updateMany: jest.Mock;
+  let enqueueOrderEvent: jest.Mock;
+  let service: OrderService;
+
+  beforeEach(() => {
+    order = {
+      id: 'order-id',
+      merchantId: 'merchant-1',
+      partnerReferenceNo: 'order-1',
+      referenceNo: null,
+      status: OrderStatus.EXPIRED,
+      payMethod: 'QRIS',
+      payOption: null,
+      amount: new Prisma.Decimal('10000.00'),
+      currency: 'IDR',
+      latePaidAt: null,
+      mismatchedPayment: null,
+    } as Order;
+    history = [];
+    payments = [];
+    // conditional like the real one, only an order matching where changes
+    updateMany = jest.fn(async ({ where, data }) => {
+      if (
+        !Object.entries(where).every(([field, value]) => order[field] === value)
+      ) {
+        return { count: 0 };
+      }
+      order = { ...order, ...data };
+      return { count: 1 };
+    });
+    enqueueOrderEvent = jest.fn();
+    const prisma: Record<string, any> = {
+      order: { findUnique: jest.fn(async () => order), updateMany },
+      orderStatusHistory: {
+        create: jest.fn(async ({ data }) => history.push(data)),
+      },
+      payment: { create: jest.fn(async ({ data }) => payments.push(data)) },
+      merchant: { findUnique: jest.fn(async () => ({ feeRules: null })) },
+    };
+    prisma.$transaction = jest.fn((fn) => fn(prisma));
+    service = new OrderService(
+      prisma as unknown as PrismaService,
+      { enqueueOrderEvent } as Partial<SubscriberService> as SubscriberService,
+      {
+        get: () => ({ QRIS: { percent: '0.7' } }),
+      } as Partial<ConfigService> as ConfigService,
+    );
+  });
+
+  describe('transition', () => {
+    it('should record the move, the payment and its fee, and queue the event', async () => {
+      order = { ...order, status: OrderStatus.PENDING };
+
+      const paid = await service.transition('order-1', OrderStatus.PAID, {
+        referenceNo: 'dana-1',
+        reason: 'finish-notify',
+        paidAmount: '10000.00',
+        paidAt,
+      });
+
+      expect(paid).toMatchObject({
+        status: OrderStatus.PAID,
+        referenceNo: 'dana-1',
+      });
+      expect(history).toEqual([
+        {
+          orderId: 'order-id',
+          fromStatus: OrderStatus.PENDING,
+          toStatus: OrderStatus.PAID,
+          reason: 'finish-notify',
+        },
+      ]);
+      expect(payments).toEqual([
+        expect.objectContaining({
+          orderId: 'order-id',
+          referenceNo: 'dana-1',
+          amount: '10000.00',
+          currency: 'IDR',
+          payMethod: 'QRIS',
+          feeRule: 'QRIS',
+          feeAmount: '70.00',
+          netAmount: '9930.00',
+          paidAt,
+        }),
+      ]);
+      expect(enqueueOrderEvent).toHaveBeenCalledWith(
+        expect.anything(),
+        paid,
+        OrderStatus.PENDING,
+      );
+    });
+
+    it('should refuse a move the lifecycle does not allow', async () => {
+      order = { ...order, status: OrderStatus.PAID };
+
+      await expect(
+        service.transition('order-1', OrderStatus.PENDING),
+      ).rejects.toBeInstanceOf(InvalidOrderTransitionException);
+      expect(updateMany).not.toHaveBeenCalled();
+      expect(history).toEqual([]);
+    });
+
+    it('should not apply a move another writer got to first', async () => {
+      order = { ...order, status: OrderStatus.PENDING };
+      updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(
+        service.transition('order-1', OrderStatus.PAID),
+      ).rejects.toBeInstanceOf(InvalidOrderTransitionException);
+      expect(history).toEqual([]);
+      expect(payments).toEqual([]);
+      expect(enqueueOrderEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncStatus', () => {
+    it('should walk an INIT order through PENDING', async () => {
+      order = { ...order, status: OrderStatus.INIT };
+
+      const synced = await service.syncStatus('order-1', OrderStatus.PAID, {
+        referenceNo: 'dana-1',
+      });
+
+      expect(synced.status).toBe(OrderStatus.PAID);
+      expect(
+        history.map(({ fromStatus, toStatus }) => [fromStatus, toStatus]),
+      ).toEqual([
+        [OrderStatus.INIT, OrderStatus.PENDING],
+        [OrderStatus.PENDING, OrderStatus.PAID],
+      ]);
+    });
+
+    it('should leave an order already in the reported status alone', async () => {
+      order = { ...order, status: OrderStatus.PAID };
+
+      await service.syncStatus('order-1', OrderStatus.PAID);
+
+      expect(updateMany).not.toHaveBeenCalled();
+      expect(enqueueOrderEvent).not.toHaveBeenCalled();
+    });
+
+    it('should ignore a late PENDING for a paid order', async () => {
+      order = { ...order, status: OrderStatus.PAID };
+
+      const synced = await service.syncStatus('order-1', OrderStatus.PENDING);
+
+      expect(synced.status).toBe(OrderStatus.PAID);
+      expect(updateMany).not.toHaveBeenCalled();
+    });
+
+    it.each([OrderStatus.EXPIRED, OrderStatus.CANCELLED, OrderStatus.FAILED])(
+      'should flag a payment DANA reports for a %s order',
+      async (status) => {
+        order = { ...order, status };
+
+        const synced = await service.syncStatus('order-1', OrderStatus.PAID, {
+          paidAt,
+        });
+
+        expect(synced).toMatchObject({ status, latePaidAt: paidAt });
+        expect(updateMany).toHaveBeenCalledWith({
+          where: { id: 'order-id', latePaidAt: null },
+          data: { latePaidAt: paidAt },
+        });
+      },
+    );
+
+    it('should not flag a refunded order', async () => {
+      order = { ...order, status: OrderStatus.REFUNDED };
+
+      const synced = await service.syncStatus('order-1', OrderStatus.PAID);
+
+      expect(synced.latePaidAt).toBeNull();
+      expect(updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should ignore other moves a closed order cannot make', async () => {
+      const synced = await service.syncStatus('order-1', OrderStatus.FAILED);
+
+      expect(synced.status).toBe(OrderStatus.EXPIRED);
+      expect(updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('flagPaymentMismatch', () => {
+    it('should record what was paid and leave the status alone', async () => {
+      order = { ...order, status: OrderStatus.PENDING };
+
+      const flagged = await service.flagPaymentMismatch(order, {
+        value: '5000.00',
+        currency: 'IDR',
+      });
+
+      expect(flagged).toMatchObject({
+        status: OrderStatus.PENDING,
+        mismatchedPayment: '5000.00 IDR',
+      });
+      expect(updateMany).toHaveBeenCalledWith({
+        where: { id: 'order-id', mismatchedPayment: null },
+        data: { mismatchedPayment: '5000.00 IDR' },
+      });
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Order, OrderStatus, Prisma } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { SubscriberService } from '../subscriber/subscriber.service';
+import { quoteFee } from '../fee/fee.engine';
+import { FeeRules } from '../fee/fee.interface';
+import { InvalidOrderTransitionException } from '../../exceptions/invalid.order.transition.exception';
+import { CreateOrderInput, TransitionOrderInput } from './order.interface';
+import { assertTransition, canTransition, isFinalStatus } from './order.state';
+
+@Injectable()
+export class OrderService {
+  private readonly logger = new Logger(OrderService.name);
+  private readonly feeRules: FeeRules;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly subscriberService: SubscriberService,
+    configService: ConfigService,
+  ) {
+    this.feeRules = configService.get<FeeRules>('fees') ?? {};
+  }
+
+  async create(input: CreateOrderInput): Promise<Order> {
+    return this.prisma
+      .$transaction(async (tx) => {
+        const order = await tx.order.create({
+          data: {
+            merchantId: input.merchantId,
+            partnerReferenceNo: input.partnerReferenceNo,
+            type: input.type,
+            amount: input.amount,
+            currency: input.currency,
+            payMethod: input.payMethod,
+            payOption: input.payOption,
+            rawRequest: input.rawRequest,
+            returnUrl: input.returnUrl,
+            expiresAt: input.expiresAt,
+            status: OrderStatus.INIT,
+          },
+        });
+        await tx.orderStatusHistory.create({
+          data: { orderId: order.id, toStatus: OrderStatus.INIT },
+        });
+        return order;
+      })
+      .catch((error) => {
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002'
+        ) {
+          throw new ConflictException(
+            `Order ${input.partnerReferenceNo} already exists`,
+          );
+        }
+        throw error;
+      });
+  }
+
+  /**
+   * Look up an order, limited to one tenant's orders when merchantId is given
+   */
+  async findByPartnerReferenceNo(
+    partnerReferenceNo: string,
+    merchantId?: string,
+  ): Promise<Order> {
+    const order = await this.prisma.order.findUnique({
+      where: { partnerReferenceNo, merchantId },
+    });
+    if (!order) {
+      throw new NotFoundException(`Order ${partnerReferenceNo} not found`);
+    }
+    return order;
+  }
+
+  async findById(id: string): Promise<Order> {
+    const order = await this.prisma.order.findUnique({ where: { id } });
+    if (!order) {
+      throw new NotFoundException(`Order ${id} not found`);
+    }
+    return order;
+  }
+
+  /**
+   * Bring a stored order in line with a status reported by DANA. Orders still
+   * in INIT are walked through PENDING first; moves the lifecycle does not
+   * allow (e.g. a late PENDING for a PAID order) are logged and ignored.
+   */
+  async syncStatus(
+    partnerReferenceNo: string,
+    to: OrderStatus,
+    input: TransitionOrderInput = {},
+  ): Promise<Order> {
+    let order = await this.findByPartnerReferenceNo(partnerReferenceNo);
+    if (order.status === to) {
+      return order;
+    }
+
+    if (
+      order.status === OrderStatus.INIT &&
+      !canTransition(OrderStatus.INIT, to) &&
+      canTransition(OrderStatus.PENDING, to)
+    ) {
+      order = await this.transition(partnerReferenceNo, OrderStatus.PENDING, {
+        referenceNo: input.referenceNo,
+      });
+    }
+
+    if (!canTransition(order.status, to)) {
+      if (to === OrderStatus.PAID && this.isClosedUnpaid(order.status)) {
+        return this.flagLatePayment(order, input);
+      }
+      this.logger.warn(
+        `Ignoring ${to} for order ${partnerReferenceNo} in ${order.status}`,
+      );
+      return order;
+    }
+    return this.transition(partnerReferenceNo, to, input);
+  }
+
+  /**
+   * Move an order to a new status, enforcing the lifecycle in order.state.ts.
+   * The update is conditional on the status we read, so a webhook racing a
+   * status poll cannot apply the same move twice.
+   */
+  async transition(
+    partnerReferenceNo: string,
+    to: OrderStatus,
+    input: TransitionOrderInput = {},
+  ): Promise<Order> {
+    return this.prisma.$transaction(async (tx) => {
+      const order = await tx.order.findUnique({
+        where: { partnerReferenceNo },
+      });
+      if (!order) {
+        throw new NotFoundException(`Order ${partnerReferenceNo} not found`);
+      }
+      assertTransition(order.status, to);
+
+      const { count } = await tx.order.updateMany({
+        where: { id: order.id, status: order.status },
+        data: {
+          status: to,
+          referenceNo: input.referenceNo ?? order.referenceNo,
+          rawResponse: input.rawResponse,
+          qrContent: input.qrContent,
+        },
+      });
+      if (count === 0) {
+        throw new InvalidOrderTransitionException(order.status, to);
+      }
+
+      await tx.orderStatusHistory.create({
+        data: {
+          orderId: order.id,
+          fromStatus: order.status,
+          toStatus: to,
+          reason: input.reason,
+        },
+      });
+
+      if (to === OrderStatus.PAID) {
+        const amount = input.paidAmount ?? order.amount;
+        const payMethod = input.payMethod ?? order.payMethod;
+        const payOption = input.payOption ?? order.payOption;
+        const merchant = await tx.merchant.findUnique({
+          where: { id: order.merchantId },
+          select: { feeRules: true },
+        });
+        const fee = quoteFee(
+          amount,
+          { payMethod, payOption },
+          this.feeRules,
+          (merchant?.feeRules ?? {}) as unknown as FeeRules,
+        );
+        await tx.payment.create({
+          data: {
+            orderId: order.id,
+            referenceNo: input.referenceNo ?? order.referenceNo,
+            amount,
+            currency: order.currency,
+            payMethod,
+            payOption,
+            feeRule: fee?.rule,
+            feeAmount: fee?.feeAmount,
+            netAmount: fee?.netAmount,
+            paidAt: input.paidAt ?? new Date(),
+            rawResponse: input.rawResponse,
+          },
+        });
+      }
+
+      const updated = await tx.order.findUnique({ where: { id: order.id } });
+      await this.subscriberService.enqueueOrderEvent(tx, updated, order.status);
+
+      this.logger.log(
+        `Order ${partnerReferenceNo} moved from ${order.status} to ${to}`,
+      );
+      return updated;
+    });
+  }
+
+  /**
+   * DANA took a payment for an order we had already closed. The status stays,
+   * latePaidAt marks the order for a refund or manual delivery.
+   */
+  private async flagLatePayment(
+    order: Order,
+    input: TransitionOrderInput,
+  ): Promise<Order> {
+    this.logger.error(
+      `Order ${order.partnerReferenceNo} was paid at DANA while ${order.status}, flagged for manual handling`,
+    );
+    await this.prisma.order.updateMany({
+      where: { id: order.id, latePaidAt: null },
+      data: { latePaidAt: input.paidAt ?? new Date() },
+    });
+    return this.prisma.order.findUnique({ where: { id: order.id } });
+  }
+
+  /**
+   * DANA reported a payment of another amount or currency than the order's.
+   * The order is not moved to PAID, mismatchedPayment keeps what was paid
+   * for a refund or manual settlement.
+   */
+  async flagPaymentMismatch(
+    order: Order,
+    paid: { value: string; currency: string },
+  ): Promise<Order> {
+    const reported = `${paid.value} ${paid.currency}`;
+    this.logger.error(
+      `Order ${order.partnerReferenceNo} of ${order.amount.toFixed(2)} ${order.currency} was paid ${reported} at DANA, flagged for manual handling`,
+    );
+    await this.prisma.order.updateMany({
+      where: { id: order.id, mismatchedPayment: null },
+      data: { mismatchedPayment: reported },
+    });
+    return this.prisma.order.findUnique({ where: { id: order.id } });
+  }
+
+  private isClosedUnpaid(status: OrderStatus): boolean {
+    return isFinalStatus(status) && status !== OrderStatus.REFUNDED;
+  }
+}
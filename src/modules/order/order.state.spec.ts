@@ -0,0 +1,33 @@
+import { OrderStatus } from '@prisma/client';
+
+import { InvalidOrderTransitionException } from '../../exceptions/invalid.order.transition.exception';
+import { assertTransition, canTransition, isFinalStatus } from './order.state';
+
+describe('order state machine', () => {
+  it('should follow the happy path to REFUNDED', () => {
+    expect(canTransition(OrderStatus.INIT, OrderStatus.PENDING)).toBe(true);
+    expect(canTransition(OrderStatus.PENDING, OrderStatus.PAID)).toBe(true);
+    expect(canTransition(OrderStatus.PAID, OrderStatus.REFUNDED)).toBe(true);
+  });
+
+  it('should not skip PENDING', () => {
+    expect(canTransition(OrderStatus.INIT, OrderStatus.PAID)).toBe(false);
+  });
+
+  it('should not refund an unpaid order', () => {
+    expect(canTransition(OrderStatus.CANCELLED, OrderStatus.REFUNDED)).toBe(
+      false,
+    );
+    expect(() =>
+      assertTransition(OrderStatus.EXPIRED, OrderStatus.REFUNDED),
+    ).toThrow(InvalidOrderTransitionException);
+  });
+
+  it('should treat FAILED, EXPIRED, CANCELLED and REFUNDED as final', () => {
+    expect(isFinalStatus(OrderStatus.FAILED)).toBe(true);
+    expect(isFinalStatus(OrderStatus.EXPIRED)).toBe(true);
+    expect(isFinalStatus(OrderStatus.CANCELLED)).toBe(true);
+    expect(isFinalStatus(OrderStatus.REFUNDED)).toBe(true);
+    expect(isFinalStatus(OrderStatus.PAID)).toBe(false);
+  });
+});
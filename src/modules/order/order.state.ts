@@ -0,0 +1,37 @@
+import { OrderStatus } from '@prisma/client';
+
+import { InvalidOrderTransitionException } from '../../exceptions/invalid.order.transition.exception';
+
+/**
+ * Allowed order lifecycle moves:
+ * INIT -> PENDING -> PAID/FAILED/EXPIRED/CANCELLED, PAID -> REFUNDED.
+ * INIT -> FAILED covers DANA rejecting the order outright.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.INIT]: [OrderStatus.PENDING, OrderStatus.FAILED],
+  [OrderStatus.PENDING]: [
+    OrderStatus.PAID,
+    OrderStatus.FAILED,
+    OrderStatus.EXPIRED,
+    OrderStatus.CANCELLED,
+  ],
+  [OrderStatus.PAID]: [OrderStatus.REFUNDED],
+  [OrderStatus.FAILED]: [],
+  [OrderStatus.EXPIRED]: [],
+  [OrderStatus.CANCELLED]: [],
+  [OrderStatus.REFUNDED]: [],
+};
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+export function assertTransition(from: OrderStatus, to: OrderStatus): void {
+  if (!canTransition(from, to)) {
+    throw new InvalidOrderTransitionException(from, to);
+  }
+}
+
+export function isFinalStatus(status: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[status].length === 0;
+}
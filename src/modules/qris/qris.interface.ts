@@ -0,0 +1,30 @@
+export interface QrisField {
+  tag: string;
+  value: string;
+}
+
+// tags 26-51, one per network the merchant accepts
+export interface QrisMerchantAccount {
+  tag: string;
+  globalUniqueId: string | null;
+  merchantPan: string | null;
+  merchantId: string | null;
+}
+
+/**
+ * The EMVCo merchant-presented QR fields we read. A static code leaves the
+ * amount to the payer, a dynamic one carries it in tag 54.
+ */
+export interface QrisPayload {
+  initiation: 'STATIC' | 'DYNAMIC' | null;
+  merchantAccounts: QrisMerchantAccount[];
+  merchantCategoryCode: string;
+  // ISO 4217 numeric, 360 is IDR
+  currency: string;
+  amount: string | null;
+  countryCode: string;
+  merchantName: string;
+  merchantCity: string;
+  postalCode: string | null;
+  crc: string;
+}
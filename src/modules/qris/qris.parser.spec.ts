@@ -0,0 +1,104 @@
+import { assertQrisAmount, crc16, parseQris, parseTlv } from './qris.parser';
+
+describe('QRIS parser', () => {
+  const tlv = (tag: string, value: string) =>
+    `${tag}${value.length.toString().padStart(2, '0')}${value}`;
+  const body = (amount = '10000.00') =>
+    tlv('00', '01') +
+    tlv('01', '12') +
+    tlv(
+      '26',
+      tlv('00', 'ID.DANA.WWW') +
+        tlv('01', '936009150000000001') +
+        tlv('02', '216620010001'),
+    ) +
+    tlv('52', '5812') +
+    tlv('53', '360') +
+    tlv('54', amount) +
+    tlv('58', 'ID') +
+    tlv('59', 'TOKO MAJU') +
+    tlv('60', 'JAKARTA') +
+    tlv('61', '10110');
+  const withCrc = (payload: string) =>
+    `${payload}6304${crc16(`${payload}6304`)}`;
+
+  it('should compute CRC-16/CCITT-FALSE', () => {
+    expect(crc16('123456789')).toBe('29B1');
+  });
+
+  it('should split fields by tag and length', () => {
+    expect(parseTlv('000201' + tlv('59', 'TOKO'))).toEqual([
+      { tag: '00', value: '01' },
+      { tag: '59', value: 'TOKO' },
+    ]);
+    expect(() => parseTlv('0005AB')).toThrow('tag 00 is truncated');
+    expect(() => parseTlv('00')).toThrow('malformed field at position 0');
+  });
+
+  it('should read the merchant fields', () => {
+    expect(parseQris(withCrc(body()))).toEqual({
+      initiation: 'DYNAMIC',
+      merchantAccounts: [
+        {
+          tag: '26',
+          globalUniqueId: 'ID.DANA.WWW',
+          merchantPan: '936009150000000001',
+          merchantId: '216620010001',
+        },
+      ],
+      merchantCategoryCode: '5812',
+      currency: '360',
+      amount: '10000.00',
+      countryCode: 'ID',
+      merchantName: 'TOKO MAJU',
+      merchantCity: 'JAKARTA',
+      postalCode: '10110',
+      crc: crc16(`${body()}6304`),
+    });
+  });
+
+  it('should reject a wrong checksum', () => {
+    const valid = withCrc(body());
+    const tampered = valid.replace('TOKO MAJU', 'TOKO LAIN');
+    expect(() => parseQris(tampered)).toThrow(/^CRC \w{4} does not match/);
+  });
+
+  it('should reject payloads without the mandatory fields', () => {
+    expect(() => parseQris(withCrc(tlv('59', 'TOKO')))).toThrow(
+      'payload format indicator (tag 00) must come first',
+    );
+    expect(() => parseQris(body())).toThrow('CRC (tag 63) must come last');
+    expect(() =>
+      parseQris(withCrc(tlv('00', '01') + tlv('53', '360'))),
+    ).toThrow(
+      'missing merchant category code (tag 52), country code (tag 58), merchant name (tag 59), merchant city (tag 60)',
+    );
+    expect(() => parseQris(withCrc(body('10.000')))).toThrow(
+      'amount 10.000 is not an amount',
+    );
+  });
+
+  it('should check the amount against the order', () => {
+    const payload = parseQris(withCrc(body('10000')));
+    expect(() => assertQrisAmount(payload, '10000.00')).not.toThrow();
+    expect(() => assertQrisAmount(payload, '12500')).toThrow(
+      'QR code asks for 10000, the order is 12500.00',
+    );
+
+    const open = parseQris(
+      withCrc(
+        tlv('00', '01') +
+          tlv('01', '11') +
+          tlv('52', '5812') +
+          tlv('53', '360') +
+          tlv('58', 'ID') +
+          tlv('59', 'TOKO MAJU') +
+          tlv('60', 'JAKARTA'),
+      ),
+    );
+    expect(open.initiation).toBe('STATIC');
+    expect(() => assertQrisAmount(open, '10000')).toThrow(
+      'QR code carries no amount',
+    );
+  });
+});
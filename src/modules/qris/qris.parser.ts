@@ -0,0 +1,136 @@
+import { Prisma } from '@prisma/client';
+
+import { QrisField, QrisMerchantAccount, QrisPayload } from './qris.interface';
+
+const FIELD_HEADER_REGEX = /^(\d{2})(\d{2})$/;
+const AMOUNT_REGEX = /^\d{1,13}(\.\d{1,2})?$/;
+const REQUIRED_TAGS = {
+  '52': 'merchant category code',
+  '53': 'currency',
+  '58': 'country code',
+  '59': 'merchant name',
+  '60': 'merchant city',
+};
+const INITIATION = { '11': 'STATIC', '12': 'DYNAMIC' } as const;
+
+/**
+ * Split an EMVCo payload into tag, two digit length and value triples
+ */
+export function parseTlv(content: string): QrisField[] {
+  const fields: QrisField[] = [];
+  let offset = 0;
+  while (offset < content.length) {
+    const header = FIELD_HEADER_REGEX.exec(content.slice(offset, offset + 4));
+    if (!header) {
+      throw new Error(`malformed field at position ${offset}`);
+    }
+    const length = parseInt(header[2], 10);
+    const value = content.slice(offset + 4, offset + 4 + length);
+    if (value.length !== length) {
+      throw new Error(`tag ${header[1]} is truncated`);
+    }
+    fields.push({ tag: header[1], value });
+    offset += 4 + length;
+  }
+  return fields;
+}
+
+/**
+ * Read a QRIS payload. It must open with the payload format indicator, end
+ * with a CRC (tag 63) over everything before the checksum and carry the
+ * mandatory merchant fields.
+ */
+export function parseQris(content: string): QrisPayload {
+  const fields = parseTlv(content);
+  if (fields[0]?.tag !== '00' || fields[0].value !== '01') {
+    throw new Error('payload format indicator (tag 00) must come first');
+  }
+  const last = fields[fields.length - 1];
+  if (last.tag !== '63' || last.value.length !== 4) {
+    throw new Error('CRC (tag 63) must come last');
+  }
+  const expected = crc16(content.slice(0, -4));
+  if (last.value.toUpperCase() !== expected) {
+    throw new Error(`CRC ${last.value} does not match ${expected}`);
+  }
+
+  const tags = new Map<string, string>();
+  for (const field of fields) {
+    if (tags.has(field.tag)) {
+      throw new Error(`tag ${field.tag} is repeated`);
+    }
+    tags.set(field.tag, field.value);
+  }
+  const missing = Object.entries(REQUIRED_TAGS)
+    .filter(([tag]) => !tags.get(tag))
+    .map(([tag, name]) => `${name} (tag ${tag})`);
+  if (missing.length) {
+    throw new Error(`missing ${missing.join(', ')}`);
+  }
+  const amount = tags.get('54') ?? null;
+  if (amount !== null && !AMOUNT_REGEX.test(amount)) {
+    throw new Error(`amount ${amount} is not an amount`);
+  }
+
+  return {
+    initiation: INITIATION[tags.get('01')] ?? null,
+    merchantAccounts: fields
+      .filter((field) => field.tag >= '26' && field.tag <= '51')
+      .map(parseMerchantAccount),
+    merchantCategoryCode: tags.get('52'),
+    currency: tags.get('53'),
+    amount,
+    countryCode: tags.get('58'),
+    merchantName: tags.get('59'),
+    merchantCity: tags.get('60'),
+    postalCode: tags.get('61') ?? null,
+    crc: last.value.toUpperCase(),
+  };
+}
+
+/**
+ * A dynamic code must ask for exactly the order amount
+ */
+export function assertQrisAmount(
+  payload: QrisPayload,
+  amount: Prisma.Decimal.Value,
+) {
+  if (payload.amount === null) {
+    throw new Error('QR code carries no amount');
+  }
+  if (!new Prisma.Decimal(payload.amount).equals(amount)) {
+    throw new Error(
+      `QR code asks for ${payload.amount}, the order is ${new Prisma.Decimal(amount).toFixed(2)}`,
+    );
+  }
+}
+
+// CRC-16/CCITT-FALSE as required by EMVCo tag 63
+export function crc16(input: string): string {
+  let crc = 0xffff;
+  for (const byte of Buffer.from(input, 'utf8')) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+function parseMerchantAccount(field: QrisField): QrisMerchantAccount {
+  let subfields: QrisField[] = [];
+  try {
+    subfields = parseTlv(field.value);
+  } catch (error) {
+    throw new Error(`merchant account (tag ${field.tag}): ${error.message}`);
+  }
+  const value = (tag: string) =>
+    subfields.find((subfield) => subfield.tag === tag)?.value ?? null;
+  return {
+    tag: field.tag,
+    globalUniqueId: value('00'),
+    merchantPan: value('01'),
+    merchantId: value('02'),
+  };
+}
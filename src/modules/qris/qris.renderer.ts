@@ -0,0 +1,22 @@
+import * as QRCode from 'qrcode';
+
+export const QRIS_IMAGE_SIZES = { min: 128, max: 1024, default: 384 };
+
+// level M is what QRIS issuers print, the quiet zone is the spec's four modules
+const RENDER_OPTIONS = { errorCorrectionLevel: 'M', margin: 4 } as const;
+
+export function renderQrisPng(content: string, size: number): Promise<Buffer> {
+  return QRCode.toBuffer(content, {
+    ...RENDER_OPTIONS,
+    type: 'png',
+    width: size,
+  });
+}
+
+export function renderQrisSvg(content: string, size: number): Promise<string> {
+  return QRCode.toString(content, {
+    ...RENDER_OPTIONS,
+    type: 'svg',
+    width: size,
+  });
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+
+import { PrismaModule } from '../prisma/prisma.module';
+import { OrderModule } from '../order/order.module';
+import { RefundService } from './refund.service';
+
+@Module({
+  imports: [PrismaModule, OrderModule],
+  providers: [RefundService],
+  exports: [RefundService],
+})
+export class RefundModule {}
@@ -0,0 +1,202 @@
+import {
+  Order,
+  OrderStatus,
+  Payment,
+  Prisma,
+  Refund,
+  RefundStatus,
+} from '@prisma/client';
+
+import { OrderService } from '../order/order.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RefundService } from './refund.service';
+
+describe('RefundService', () => {
+  const order = {
+    id: 'order-id',
+    partnerReferenceNo: 'order-1',
+    status: OrderStatus.PAID,
+  } as Order;
+  const payment = {
+    id: 'payment-id',
+    orderId: order.id,
+    amount: new Prisma.Decimal('10000.00'),
+    currency: 'IDR',
+  } as Payment;
+
+  let refunds: Map<string, Refund>;
+  let prisma: Record<string, any>;
+  let syncStatus: jest.Mock;
+  let service: RefundService;
+
+  const sum = (paymentId: string, statuses: RefundStatus[]) =>
+    [...refunds.values()]
+      .filter(
+        (refund) =>
+          refund.paymentId === paymentId && statuses.includes(refund.status),
+      )
+      .reduce<Prisma.Decimal | null>(
+        (total, refund) => (total ?? new Prisma.Decimal(0)).plus(refund.amount),
+        null,
+      );
+
+  beforeEach(() => {
+    refunds = new Map();
+    prisma = {
+      payment: {
+        findUnique: jest.fn(async () => ({ ...payment, order })),
+      },
+      refund: {
+        findUnique: jest.fn(async ({ where }) =>
+          refunds.get(where.partnerRefundNo),
+        ),
+        create: jest.fn(async ({ data }) => {
+          const refund = {
+            id: `id-${data.partnerRefundNo}`,
+            status: RefundStatus.PENDING,
+            refundNo: null,
+            ...data,
+          } as Refund;
+          refunds.set(refund.partnerRefundNo, refund);
+          return refund;
+        }),
+        updateMany: jest.fn(async ({ where, data }) => {
+          const refund = [...refunds.values()].find(
+            (row) => row.id === where.id && row.status === where.status,
+          );
+          if (!refund) {
+            return { count: 0 };
+          }
+          refunds.set(refund.partnerRefundNo, { ...refund, ...data });
+          return { count: 1 };
+        }),
+        aggregate: jest.fn(async ({ where }) => ({
+          _sum: {
+            amount: sum(where.paymentId, where.status.in ?? [where.status]),
+          },
+        })),
+      },
+      $queryRaw: jest.fn(),
+    };
+    prisma.$transaction = jest.fn((fn) => fn(prisma));
+    syncStatus = jest.fn();
+    service = new RefundService(
+      prisma as unknown as PrismaService,
+      {
+        syncStatus,
+      } as Partial<OrderService> as OrderService,
+    );
+  });
+
+  describe('reserve', () => {
+    it('should book a PENDING refund and lock the payment', async () => {
+      const refund = await service.reserve(order, '4000.00', 'damaged', 'r-1');
+
+      expect(refund).toMatchObject({
+        partnerRefundNo: 'r-1',
+        paymentId: payment.id,
+        status: RefundStatus.PENDING,
+      });
+      expect(refund.amount.toFixed(2)).toBe('4000.00');
+      expect(prisma.$queryRaw).toHaveBeenCalled();
+    });
+
+    it('should reject a refund above the captured amount', async () => {
+      await expect(
+        service.reserve(order, '10000.01', undefined, 'r-1'),
+      ).rejects.toThrow('exceeds refundable amount 10000.00');
+      expect(refunds.size).toBe(0);
+    });
+
+    it('should count PENDING refunds as taken', async () => {
+      await service.reserve(order, '6000.00', undefined, 'r-1');
+
+      await expect(
+        service.reserve(order, '5000.00', undefined, 'r-2'),
+      ).rejects.toThrow('exceeds refundable amount 4000.00');
+    });
+
+    it('should not count FAILED refunds', async () => {
+      await service.reserve(order, '6000.00', undefined, 'r-1');
+      await service.complete('r-1', RefundStatus.FAILED);
+
+      await expect(
+        service.reserve(order, '10000.00', undefined, 'r-2'),
+      ).resolves.toMatchObject({ partnerRefundNo: 'r-2' });
+    });
+
+    it('should refuse a replayed partnerRefundNo', async () => {
+      await service.reserve(order, '1000.00', undefined, 'r-1');
+
+      await expect(
+        service.reserve(order, '1000.00', undefined, 'r-1'),
+      ).rejects.toThrow('Refund r-1 has already been requested');
+    });
+
+    it('should answer a partnerRefundNo booked concurrently with 409', async () => {
+      prisma.refund.create.mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError('duplicate', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      const error = await service
+        .reserve(order, '1000.00', undefined, 'r-1')
+        .catch((e) => e);
+
+      expect(error.getStatus()).toBe(409);
+      expect(error.message).toBe('Refund r-1 has already been requested');
+    });
+
+    it('should only refund PAID orders', async () => {
+      await expect(
+        service.reserve({ ...order, status: OrderStatus.PENDING }, '1000.00'),
+      ).rejects.toThrow('only PAID orders can be refunded');
+    });
+  });
+
+  describe('complete', () => {
+    it('should keep the order PAID after a partial refund', async () => {
+      await service.reserve(order, '4000.00', undefined, 'r-1');
+
+      const refund = await service.complete('r-1', RefundStatus.SUCCESS, {
+        refundNo: 'dana-r-1',
+      });
+
+      expect(refund).toMatchObject({
+        status: RefundStatus.SUCCESS,
+        refundNo: 'dana-r-1',
+      });
+      expect(refund.refundedAt).toBeInstanceOf(Date);
+      expect(syncStatus).not.toHaveBeenCalled();
+      await expect(service.refundableAmount(payment.id)).resolves.toEqual(
+        new Prisma.Decimal('6000.00'),
+      );
+    });
+
+    it('should mark the order REFUNDED once partial refunds settle it in full', async () => {
+      await service.reserve(order, '4000.00', undefined, 'r-1');
+      await service.complete('r-1', RefundStatus.SUCCESS);
+      await service.reserve(order, '6000.00', undefined, 'r-2');
+      await service.complete('r-2', RefundStatus.SUCCESS);
+
+      expect(syncStatus).toHaveBeenCalledTimes(1);
+      expect(syncStatus).toHaveBeenCalledWith(
+        order.partnerReferenceNo,
+        OrderStatus.REFUNDED,
+        { reason: 'fully refunded by r-2' },
+      );
+    });
+
+    it('should leave a settled refund alone', async () => {
+      await service.reserve(order, '10000.00', undefined, 'r-1');
+      await service.complete('r-1', RefundStatus.FAILED);
+
+      const refund = await service.complete('r-1', RefundStatus.SUCCESS);
+
+      expect(refund.status).toBe(RefundStatus.FAILED);
+      expect(syncStatus).not.toHaveBeenCalled();
+    });
+  });
+});
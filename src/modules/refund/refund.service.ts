@@ -0,0 +1,214 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  Order,
+  OrderStatus,
+  Prisma,
+  Refund,
+  RefundStatus,
+} from '@prisma/client';
+import * as crypto from 'crypto';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { OrderService } from '../order/order.service';
+
+@Injectable()
+export class RefundService {
+  private readonly logger = new Logger(RefundService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly orderService: OrderService,
+  ) {}
+
+  /**
+   * Book a PENDING refund against the order's payment. The payment row is
+   * locked so concurrent partial refunds can never add up to more than the
+   * captured amount.
+   */
+  async reserve(
+    order: Order,
+    amount: string,
+    reason?: string,
+    partnerRefundNo: string = crypto.randomUUID(),
+  ): Promise<Refund> {
+    if (order.status !== OrderStatus.PAID) {
+      throw new ConflictException(
+        `Order ${order.partnerReferenceNo} is ${order.status}, only PAID orders can be refunded`,
+      );
+    }
+    const refundAmount = new Prisma.Decimal(amount);
+    if (refundAmount.lte(0)) {
+      throw new BadRequestException('Refund amount must be positive');
+    }
+
+    return this.prisma
+      .$transaction(async (tx) => {
+        const existing = await tx.refund.findUnique({
+          where: { partnerRefundNo },
+        });
+        if (existing) {
+          throw new ConflictException(
+            `Refund ${partnerRefundNo} has already been requested`,
+          );
+        }
+
+        const payment = await tx.payment.findUnique({
+          where: { orderId: order.id },
+        });
+        if (!payment) {
+          throw new NotFoundException(
+            `Order ${order.partnerReferenceNo} has no captured payment`,
+          );
+        }
+        await tx.$queryRaw`SELECT id FROM payments WHERE id = ${payment.id} FOR UPDATE`;
+
+        const refunded = await this.sumActiveRefunds(tx, payment.id);
+        const refundable = payment.amount.minus(refunded);
+        if (refundAmount.gt(refundable)) {
+          throw new BadRequestException(
+            `Refund of ${refundAmount.toFixed(2)} exceeds refundable amount ${refundable.toFixed(2)}`,
+          );
+        }
+
+        return tx.refund.create({
+          data: {
+            orderId: order.id,
+            paymentId: payment.id,
+            partnerRefundNo,
+            amount: refundAmount,
+            currency: payment.currency,
+            reason,
+          },
+        });
+      })
+      .catch((error) => {
+        // the same partnerRefundNo booked on another payment at the same time
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002'
+        ) {
+          throw new ConflictException(
+            `Refund ${partnerRefundNo} has already been requested`,
+          );
+        }
+        throw error;
+      });
+  }
+
+  async findByPartnerRefundNo(partnerRefundNo: string): Promise<Refund> {
+    const refund = await this.prisma.refund.findUnique({
+      where: { partnerRefundNo },
+    });
+    if (!refund) {
+      throw new NotFoundException(`Refund ${partnerRefundNo} not found`);
+    }
+    return refund;
+  }
+
+  async findByOrder(orderId: string): Promise<Refund[]> {
+    return this.prisma.refund.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async attachRequest(
+    partnerRefundNo: string,
+    rawRequest: Prisma.InputJsonValue,
+  ): Promise<Refund> {
+    return this.prisma.refund.update({
+      where: { partnerRefundNo },
+      data: { rawRequest },
+    });
+  }
+
+  /**
+   * Apply a final refund result coming from the refund API or a refund
+   * webhook. Already settled refunds are left untouched so a late or
+   * repeated notification cannot flip them.
+   */
+  async complete(
+    partnerRefundNo: string,
+    status: Exclude<RefundStatus, 'PENDING'>,
+    data: {
+      refundNo?: string;
+      rawResponse?: Prisma.InputJsonValue;
+      refundedAt?: Date;
+    } = {},
+  ): Promise<Refund> {
+    const refund = await this.findByPartnerRefundNo(partnerRefundNo);
+    if (refund.status !== RefundStatus.PENDING) {
+      if (refund.status !== status) {
+        this.logger.warn(
+          `Refund ${partnerRefundNo} is already ${refund.status}, ignoring ${status}`,
+        );
+      }
+      return refund;
+    }
+
+    const { count } = await this.prisma.refund.updateMany({
+      where: { id: refund.id, status: RefundStatus.PENDING },
+      data: {
+        status,
+        refundNo: data.refundNo ?? refund.refundNo,
+        rawResponse: data.rawResponse,
+        refundedAt:
+          status === RefundStatus.SUCCESS
+            ? (data.refundedAt ?? new Date())
+            : null,
+      },
+    });
+    const updated = await this.findByPartnerRefundNo(partnerRefundNo);
+    if (count > 0 && status === RefundStatus.SUCCESS) {
+      await this.markOrderRefundedIfSettled(updated);
+    }
+    return updated;
+  }
+
+  async refundableAmount(paymentId: string): Promise<Prisma.Decimal> {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id: paymentId },
+    });
+    const refunded = await this.sumActiveRefunds(this.prisma, paymentId);
+    return payment.amount.minus(refunded);
+  }
+
+  private async markOrderRefundedIfSettled(refund: Refund): Promise<void> {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id: refund.paymentId },
+      include: { order: true },
+    });
+    const { _sum } = await this.prisma.refund.aggregate({
+      where: { paymentId: payment.id, status: RefundStatus.SUCCESS },
+      _sum: { amount: true },
+    });
+    if (_sum.amount?.gte(payment.amount)) {
+      await this.orderService.syncStatus(
+        payment.order.partnerReferenceNo,
+        OrderStatus.REFUNDED,
+        { reason: `fully refunded by ${refund.partnerRefundNo}` },
+      );
+    }
+  }
+
+  // PENDING refunds count too, DANA may still accept them
+  private async sumActiveRefunds(
+    tx: Prisma.TransactionClient,
+    paymentId: string,
+  ): Promise<Prisma.Decimal> {
+    const { _sum } = await tx.refund.aggregate({
+      where: {
+        paymentId,
+        status: { in: [RefundStatus.PENDING, RefundStatus.SUCCESS] },
+      },
+      _sum: { amount: true },
+    });
+    return _sum.amount ?? new Prisma.Decimal(0);
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  Res,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
+
+import { AdminGuard } from '../../guards/admin.guard';
+import { InvalidFormException } from '../../exceptions/invalid.form.exception';
+import {
+  DEFAULT_MERCHANT_CODE,
+  MerchantService,
+} from '../merchant/merchant.service';
+import { ImportSettlementDto } from './settlement.dto';
+import {
+  SettlementImportResult,
+  SettlementReport,
+} from './settlement.interface';
+import { SettlementFile, SettlementService } from './settlement.service';
+
+const MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+@Controller('settlements')
+@UseGuards(AdminGuard)
+export class SettlementController {
+  constructor(
+    private readonly settlementService: SettlementService,
+    private readonly merchantService: MerchantService,
+  ) {}
+
+  /**
+   * Import a DANA settlement report, sent as multipart field `file`
+   */
+  @Post('import')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_FILE_SIZE } }),
+  )
+  async import(
+    @UploadedFile() file: SettlementFile | undefined,
+    @Body() payload: ImportSettlementDto,
+  ): Promise<SettlementImportResult> {
+    if (!file) {
+      throw new InvalidFormException(
+        { file: 'file is required' },
+        'Invalid request',
+      );
+    }
+    const merchant = await this.merchantService.findByCode(
+      payload.merchant || DEFAULT_MERCHANT_CODE,
+    );
+    return await this.settlementService.import(
+      merchant,
+      file,
+      payload.settlementDate,
+    );
+  }
+
+  @Get(':date/report')
+  async report(
+    @Param('date') date: string,
+    @Query('merchant') code?: string,
+  ): Promise<SettlementReport> {
+    const merchant = await this.merchantService.findByCode(
+      code || DEFAULT_MERCHANT_CODE,
+    );
+    return await this.settlementService.report(merchant, date);
+  }
+
+  @Get(':date/report.csv')
+  async reportCsv(
+    @Param('date') date: string,
+    @Res({ passthrough: true }) res: Response,
+    @Query('merchant') code?: string,
+  ): Promise<string> {
+    const merchant = await this.merchantService.findByCode(
+      code || DEFAULT_MERCHANT_CODE,
+    );
+    const csv = await this.settlementService.reportCsv(merchant, date);
+    res.set({
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="settlement-${merchant.code}-${date}.csv"`,
+    });
+    return csv;
+  }
+}
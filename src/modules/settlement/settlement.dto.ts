@@ -0,0 +1,15 @@
+import { IsOptional, IsString, Matches } from 'class-validator';
+
+export class ImportSettlementDto {
+  // tenant the report belongs to, the default merchant when absent
+  @IsOptional()
+  @IsString()
+  merchant?: string;
+
+  // for reports without a settlement date column
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'settlementDate must be a YYYY-MM-DD date',
+  })
+  settlementDate?: string;
+}
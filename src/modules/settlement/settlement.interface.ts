@@ -0,0 +1,102 @@
+import { SettlementLineType } from '@prisma/client';
+
+/**
+ * A transaction row of a DANA settlement report, amounts as decimal strings
+ */
+export interface SettlementRow {
+  lineNo: number;
+  // YYYY-MM-DD
+  settlementDate: string;
+  type: SettlementLineType;
+  partnerReferenceNo?: string;
+  referenceNo?: string;
+  amount: string;
+  fee?: string;
+  netAmount?: string;
+  transactionTime?: Date;
+  raw: Record<string, string>;
+}
+
+export type SettlementLineStatus =
+  | 'MATCHED'
+  // no order or refund of ours carries the line's references
+  | 'MISSING'
+  // the references were already settled by an earlier line
+  | 'DUPLICATE'
+  | 'AMOUNT_MISMATCH'
+  | 'FEE_MISMATCH'
+  // DANA settled something we do not consider paid or refunded
+  | 'STATUS_MISMATCH';
+
+// an order or refund of ours as the matcher sees it
+export interface SettlementRecord {
+  type: SettlementLineType;
+  id: string;
+  // our reference and DANA's
+  references: string[];
+  amount: string;
+  status: string;
+  // whether DANA should settle it in this status
+  settleable: boolean;
+  // recorded when the payment was stored, refunds carry none
+  expectedFee: string | null;
+  paidAt: Date | null;
+}
+
+export interface SettlementLineInput {
+  id: string;
+  fileName: string;
+  lineNo: number;
+  type: SettlementLineType;
+  partnerReferenceNo: string | null;
+  referenceNo: string | null;
+  amount: string;
+  fee: string | null;
+  netAmount: string | null;
+}
+
+export interface SettlementReportLine extends SettlementLineInput {
+  status: SettlementLineStatus;
+  recordId: string | null;
+  recordStatus: string | null;
+  expectedAmount: string | null;
+  expectedFee: string | null;
+  note: string | null;
+}
+
+// a payment of ours in the report window that no line of the report settles
+export interface SettlementUnreportedRecord {
+  status: 'MISSING_IN_REPORT';
+  type: SettlementLineType;
+  recordId: string;
+  partnerReferenceNo: string | null;
+  referenceNo: string | null;
+  recordStatus: string;
+  expectedAmount: string;
+  expectedFee: string | null;
+  note: string;
+}
+
+export interface SettlementReport {
+  merchant: string;
+  settlementDate: string;
+  summary: {
+    lines: number;
+    statuses: Record<SettlementLineStatus, number>;
+    paymentAmount: string;
+    refundAmount: string;
+    feeAmount: string;
+    netAmount: string;
+    missingInReport: number;
+  };
+  lines: SettlementReportLine[];
+  missingInReport: SettlementUnreportedRecord[];
+}
+
+export interface SettlementImportResult {
+  id: string;
+  fileName: string;
+  lineCount: number;
+  importedAt: Date;
+  settlementDates: string[];
+}
@@ -0,0 +1,204 @@
+import { SettlementLineType } from '@prisma/client';
+
+import { SettlementLineInput, SettlementRecord } from './settlement.interface';
+import {
+  findUnreported,
+  matchSettlementLines,
+  referenceKey,
+  summarize,
+} from './settlement.matcher';
+
+describe('matchSettlementLines', () => {
+  const line = (overrides: Partial<SettlementLineInput> = {}) => ({
+    id: 'line',
+    fileName: 'settlement.csv',
+    lineNo: 1,
+    type: SettlementLineType.PAYMENT,
+    partnerReferenceNo: 'order-1',
+    referenceNo: 'dana-1',
+    amount: '10000.00',
+    fee: '70.00',
+    netAmount: '9930.00',
+    ...overrides,
+  });
+  const records: SettlementRecord[] = [
+    {
+      type: SettlementLineType.PAYMENT,
+      id: 'order-id-1',
+      references: ['order-1', 'dana-1'],
+      amount: '10000',
+      status: 'PAID',
+      settleable: true,
+      expectedFee: '70',
+      paidAt: new Date('2024-05-01T03:00:00.000Z'),
+    },
+    {
+      type: SettlementLineType.PAYMENT,
+      id: 'order-id-2',
+      references: ['order-2', null],
+      amount: '5000',
+      status: 'PENDING',
+      settleable: false,
+      expectedFee: null,
+      paidAt: null,
+    },
+    {
+      type: SettlementLineType.REFUND,
+      id: 'refund-id-1',
+      references: ['refund-1', 'dana-rf-1'],
+      amount: '2500',
+      status: 'SUCCESS',
+      settleable: true,
+      expectedFee: null,
+      paidAt: null,
+    },
+  ];
+
+  const statusOf = (input: Partial<SettlementLineInput>) =>
+    matchSettlementLines([line(input)], records)[0];
+
+  it('should match by either reference', () => {
+    expect(statusOf({})).toMatchObject({
+      status: 'MATCHED',
+      recordId: 'order-id-1',
+      expectedAmount: '10000.00',
+      expectedFee: '70.00',
+    });
+    expect(statusOf({ partnerReferenceNo: null }).status).toBe('MATCHED');
+    expect(
+      statusOf({
+        type: SettlementLineType.REFUND,
+        partnerReferenceNo: null,
+        referenceNo: 'dana-rf-1',
+        amount: '2500.00',
+        fee: null,
+        netAmount: null,
+      }).recordId,
+    ).toBe('refund-id-1');
+  });
+
+  it('should not match a refund line to a payment', () => {
+    expect(statusOf({ type: SettlementLineType.REFUND }).status).toBe(
+      'MISSING',
+    );
+  });
+
+  it('should flag unknown references as missing', () => {
+    expect(
+      statusOf({ partnerReferenceNo: 'nope', referenceNo: null }),
+    ).toMatchObject({ status: 'MISSING', recordId: null });
+  });
+
+  it('should flag a different amount', () => {
+    expect(statusOf({ amount: '9000.00', netAmount: '8930.00' })).toMatchObject(
+      {
+        status: 'AMOUNT_MISMATCH',
+        note: 'settled 9000.00, expected 10000.00',
+      },
+    );
+  });
+
+  it('should flag a fee other than the one we expected', () => {
+    expect(statusOf({ fee: '100.00', netAmount: '9900.00' })).toMatchObject({
+      status: 'FEE_MISMATCH',
+      note: 'charged fee 100.00, expected 70.00',
+    });
+  });
+
+  it('should flag a fee that does not add up to the net amount', () => {
+    expect(statusOf({ netAmount: '9900.00' }).status).toBe('FEE_MISMATCH');
+  });
+
+  it('should flag a settled order we do not consider paid', () => {
+    expect(
+      statusOf({
+        partnerReferenceNo: 'order-2',
+        referenceNo: null,
+        amount: '5000.00',
+        fee: null,
+        netAmount: null,
+      }),
+    ).toMatchObject({ status: 'STATUS_MISMATCH', recordStatus: 'PENDING' });
+  });
+
+  it('should flag repeated references as duplicates', () => {
+    const [first, second] = matchSettlementLines(
+      [line(), line({ lineNo: 2, partnerReferenceNo: null })],
+      records,
+    );
+    expect(first.status).toBe('MATCHED');
+    expect(second.status).toBe('DUPLICATE');
+
+    const [late] = matchSettlementLines(
+      [line()],
+      records,
+      new Set([referenceKey(SettlementLineType.PAYMENT, 'dana-1')]),
+    );
+    expect(late.status).toBe('DUPLICATE');
+  });
+
+  it('should flag payments in the window that no line settles', () => {
+    const paid: SettlementRecord[] = [
+      records[0],
+      {
+        ...records[0],
+        id: 'order-id-3',
+        references: ['order-3', 'dana-3'],
+        amount: '7500',
+        expectedFee: '52.5',
+        paidAt: new Date('2024-05-01T04:00:00.000Z'),
+      },
+    ];
+
+    expect(
+      findUnreported(matchSettlementLines([line()], records), paid),
+    ).toEqual([
+      {
+        status: 'MISSING_IN_REPORT',
+        type: SettlementLineType.PAYMENT,
+        recordId: 'order-id-3',
+        partnerReferenceNo: 'order-3',
+        referenceNo: 'dana-3',
+        recordStatus: 'PAID',
+        expectedAmount: '7500.00',
+        expectedFee: '52.50',
+        note: 'paid at 2024-05-01T04:00:00.000Z, not in the report',
+      },
+    ]);
+  });
+
+  it('should count a payment settled with a mismatch as reported', () => {
+    const lines = matchSettlementLines([line({ amount: '9000.00' })], records);
+
+    expect(lines[0].status).toBe('AMOUNT_MISMATCH');
+    expect(findUnreported(lines, [records[0]])).toEqual([]);
+  });
+
+  it('should summarize the lines', () => {
+    const lines = matchSettlementLines(
+      [
+        line(),
+        line({
+          lineNo: 2,
+          type: SettlementLineType.REFUND,
+          partnerReferenceNo: 'refund-1',
+          referenceNo: null,
+          amount: '2500.00',
+          fee: null,
+          netAmount: '-2500.00',
+        }),
+      ],
+      records,
+    );
+
+    expect(summarize(lines)).toMatchObject({
+      lines: 2,
+      statuses: { MATCHED: 2, MISSING: 0 },
+      paymentAmount: '10000.00',
+      refundAmount: '2500.00',
+      feeAmount: '70.00',
+      netAmount: '7430.00',
+      missingInReport: 0,
+    });
+  });
+});
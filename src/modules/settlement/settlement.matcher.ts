@@ -0,0 +1,180 @@
+import { Prisma, SettlementLineType } from '@prisma/client';
+
+import {
+  SettlementLineInput,
+  SettlementLineStatus,
+  SettlementRecord,
+  SettlementReport,
+  SettlementReportLine,
+  SettlementUnreportedRecord,
+} from './settlement.interface';
+
+export const SETTLEMENT_LINE_STATUSES: SettlementLineStatus[] = [
+  'MATCHED',
+  'MISSING',
+  'DUPLICATE',
+  'AMOUNT_MISMATCH',
+  'FEE_MISMATCH',
+  'STATUS_MISMATCH',
+];
+
+/**
+ * Match settlement lines to our orders and refunds by either reference.
+ * Lines are judged in order, the first problem found wins: references
+ * already seen (in settledBefore or an earlier line) make a DUPLICATE, no
+ * record a MISSING, then amount and status are checked. The fee must be
+ * the one we expected when the payment was stored and add up with the
+ * line's net amount (amount - fee = netAmount).
+ */
+export function matchSettlementLines(
+  lines: SettlementLineInput[],
+  records: SettlementRecord[],
+  settledBefore: Set<string> = new Set(),
+): SettlementReportLine[] {
+  const byReference = new Map<string, SettlementRecord>();
+  for (const record of records) {
+    for (const reference of record.references.filter(Boolean)) {
+      byReference.set(referenceKey(record.type, reference), record);
+    }
+  }
+
+  const seen = new Set(settledBefore);
+  return lines.map((line) => {
+    const keys = [line.partnerReferenceNo, line.referenceNo]
+      .filter(Boolean)
+      .map((reference) => referenceKey(line.type, reference));
+    const duplicate = keys.some((key) => seen.has(key));
+    keys.forEach((key) => seen.add(key));
+    const record = keys
+      .map((key) => byReference.get(key))
+      .find((found) => found);
+
+    const result: SettlementReportLine = {
+      ...line,
+      status: 'MATCHED',
+      recordId: record?.id ?? null,
+      recordStatus: record?.status ?? null,
+      expectedAmount: record
+        ? new Prisma.Decimal(record.amount).toFixed(2)
+        : null,
+      expectedFee: record?.expectedFee
+        ? new Prisma.Decimal(record.expectedFee).toFixed(2)
+        : null,
+      note: null,
+    };
+    const fail = (status: SettlementLineStatus, note: string) =>
+      Object.assign(result, { status, note });
+
+    if (duplicate) {
+      return fail('DUPLICATE', 'references were already settled');
+    }
+    if (!record) {
+      return fail(
+        'MISSING',
+        `no ${line.type.toLowerCase()} with these references`,
+      );
+    }
+    if (!new Prisma.Decimal(line.amount).equals(record.amount)) {
+      return fail(
+        'AMOUNT_MISMATCH',
+        `settled ${line.amount}, expected ${result.expectedAmount}`,
+      );
+    }
+    if (!record.settleable) {
+      return fail(
+        'STATUS_MISMATCH',
+        `our ${line.type.toLowerCase()} is ${record.status}`,
+      );
+    }
+    if (
+      line.fee !== null &&
+      result.expectedFee !== null &&
+      !new Prisma.Decimal(line.fee).equals(result.expectedFee)
+    ) {
+      return fail(
+        'FEE_MISMATCH',
+        `charged fee ${line.fee}, expected ${result.expectedFee}`,
+      );
+    }
+    if (
+      line.fee !== null &&
+      line.netAmount !== null &&
+      // refunds may list their net amount as negative
+      !new Prisma.Decimal(line.amount)
+        .minus(line.fee)
+        .equals(new Prisma.Decimal(line.netAmount).abs())
+    ) {
+      return fail(
+        'FEE_MISMATCH',
+        `amount ${line.amount} - fee ${line.fee} is not net ${line.netAmount}`,
+      );
+    }
+    return result;
+  });
+}
+
+/**
+ * The reverse pass: payments of ours that should have been settled with the
+ * report but that none of its lines carries. A line found for the record
+ * counts as settling it whatever its status, mismatches are flagged there.
+ */
+export function findUnreported(
+  lines: SettlementReportLine[],
+  payments: SettlementRecord[],
+): SettlementUnreportedRecord[] {
+  const reported = new Set(lines.map((line) => line.recordId));
+  return payments
+    .filter((record) => !reported.has(record.id))
+    .map((record) => {
+      const [partnerReferenceNo = null, referenceNo = null] = record.references;
+      return {
+        status: 'MISSING_IN_REPORT',
+        type: record.type,
+        recordId: record.id,
+        partnerReferenceNo,
+        referenceNo,
+        recordStatus: record.status,
+        expectedAmount: new Prisma.Decimal(record.amount).toFixed(2),
+        expectedFee: record.expectedFee
+          ? new Prisma.Decimal(record.expectedFee).toFixed(2)
+          : null,
+        note: record.paidAt
+          ? `paid at ${record.paidAt.toISOString()}, not in the report`
+          : 'not in the report',
+      };
+    });
+}
+
+export function summarize(
+  lines: SettlementReportLine[],
+  unreported: SettlementUnreportedRecord[] = [],
+): SettlementReport['summary'] {
+  const statuses = Object.fromEntries(
+    SETTLEMENT_LINE_STATUSES.map((status) => [status, 0]),
+  ) as Record<SettlementLineStatus, number>;
+  const sum = (values: (string | null)[]) =>
+    values
+      .filter((value) => value !== null)
+      .reduce((total, value) => total.plus(value), new Prisma.Decimal(0))
+      .toFixed(2);
+
+  lines.forEach((line) => statuses[line.status]++);
+  const ofType = (type: SettlementLineType) =>
+    lines.filter((line) => line.type === type).map((line) => line.amount);
+  return {
+    lines: lines.length,
+    statuses,
+    paymentAmount: sum(ofType(SettlementLineType.PAYMENT)),
+    refundAmount: sum(ofType(SettlementLineType.REFUND)),
+    feeAmount: sum(lines.map((line) => line.fee)),
+    netAmount: sum(lines.map((line) => line.netAmount)),
+    missingInReport: unreported.length,
+  };
+}
+
+export function referenceKey(
+  type: SettlementLineType,
+  reference: string,
+): string {
+  return `${type}:${reference}`;
+}
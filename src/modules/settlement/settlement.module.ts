@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+
+import { PrismaModule } from '../prisma/prisma.module';
+import { MerchantModule } from '../merchant/merchant.module';
+import { SettlementService } from './settlement.service';
+import { SettlementController } from './settlement.controller';
+
+@Module({
+  imports: [PrismaModule, MerchantModule],
+  providers: [SettlementService],
+  controllers: [SettlementController],
+})
+export class SettlementModule {}
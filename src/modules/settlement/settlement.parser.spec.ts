@@ -0,0 +1,82 @@
+import { SettlementLineType } from '@prisma/client';
+
+import { InvalidFormException } from '../../exceptions/invalid.form.exception';
+import { parseDate, parseSettlementCsv } from './settlement.parser';
+
+describe('parseSettlementCsv', () => {
+  it('should map DANA headers to settlement rows', () => {
+    const [row] = parseSettlementCsv(
+      [
+        'Settlement Date,Transaction Time,Transaction Type,Merchant Trans ID,Acquirement ID,Amount,Fee,Net Amount',
+        '2024-05-02,2024-05-01 10:00:00,PAYMENT,order-1,2024050100001,"10,000.00",70.00,9930.00',
+      ].join('\n'),
+    );
+
+    expect(row).toMatchObject({
+      lineNo: 1,
+      settlementDate: '2024-05-02',
+      type: SettlementLineType.PAYMENT,
+      partnerReferenceNo: 'order-1',
+      referenceNo: '2024050100001',
+      amount: '10000.00',
+      fee: '70.00',
+      netAmount: '9930.00',
+      transactionTime: new Date('2024-05-01T03:00:00Z'),
+    });
+    expect(row.raw['Merchant Trans ID']).toBe('order-1');
+  });
+
+  it('should read negative untyped amounts as refunds', () => {
+    const [row] = parseSettlementCsv(
+      'referenceNo,amount\nrf-1,-500',
+      '2024-05-02',
+    );
+
+    expect(row).toMatchObject({
+      type: SettlementLineType.REFUND,
+      amount: '500',
+      settlementDate: '2024-05-02',
+    });
+  });
+
+  it('should require the settlement date from somewhere', () => {
+    expect(() => parseSettlementCsv('referenceNo,amount\nref-1,100')).toThrow(
+      InvalidFormException,
+    );
+  });
+
+  it('should report every bad row by line number', () => {
+    const error = (() => {
+      try {
+        parseSettlementCsv(
+          'referenceNo,amount,type\nref-1,abc,PAYMENT\n,100,PAYMENT\nref-3,100,CHARGEBACK',
+          '2024-05-02',
+        );
+      } catch (e) {
+        return e as InvalidFormException;
+      }
+    })();
+
+    expect(error.getFieldErrors()).toEqual({
+      'line 1': 'amount abc is not an amount',
+      'line 2': 'row has no reference number',
+      'line 3': 'unknown transaction type CHARGEBACK',
+    });
+  });
+});
+
+describe('parseDate', () => {
+  it.each([
+    ['2024-05-02', '2024-05-02'],
+    ['20240502', '2024-05-02'],
+    ['02/05/2024', '2024-05-02'],
+  ])('should read %s', (value, date) => {
+    expect(parseDate(value, 'date')).toBe(date);
+  });
+
+  it('should refuse impossible dates', () => {
+    expect(() => parseDate('2024-02-30', 'date')).toThrow(
+      'date 2024-02-30 is not a date',
+    );
+  });
+});
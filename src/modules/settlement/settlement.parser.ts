@@ -0,0 +1,208 @@
+import { SettlementLineType } from '@prisma/client';
+
+import { InvalidFormException } from '../../exceptions/invalid.form.exception';
+import { parseCsv } from '../../shared/utils/csv';
+import { SettlementRow } from './settlement.interface';
+
+type Column = keyof Omit<SettlementRow, 'lineNo' | 'raw'>;
+
+// header names seen in DANA reports, compared lowercase without punctuation
+const HEADER_ALIASES: Record<Column, string[]> = {
+  settlementDate: ['settlementdate', 'settledate', 'settledat'],
+  transactionTime: [
+    'transactiontime',
+    'transactiondate',
+    'trxdate',
+    'createdtime',
+    'paidtime',
+  ],
+  type: ['transactiontype', 'trxtype', 'type'],
+  partnerReferenceNo: [
+    'partnerreferenceno',
+    'merchanttransid',
+    'merchantorderno',
+    'partnerrefundno',
+  ],
+  referenceNo: [
+    'referenceno',
+    'acquirementid',
+    'danareferenceno',
+    'transactionid',
+    'refundno',
+  ],
+  amount: ['amount', 'grossamount', 'transactionamount'],
+  fee: ['fee', 'feeamount', 'mdr', 'mdramount'],
+  netAmount: ['netamount', 'settlementamount', 'net'],
+};
+
+const PAYMENT_TYPES = ['PAYMENT', 'PAY', 'SALE', 'PURCHASE', 'ACQUIRING'];
+const REFUND_TYPES = ['REFUND', 'REF'];
+const MAX_REPORTED_ERRORS = 20;
+const AMOUNT_REGEX = /^-?\d+(\.\d{1,2})?$/;
+// report times without an offset are Jakarta time
+const WIB_OFFSET = '+07:00';
+
+/**
+ * Read a DANA settlement report. Columns are found by header name, rows
+ * without a settlement date column fall back to settlementDate. Every row
+ * needs a reference and an amount; all problems are reported at once.
+ */
+export function parseSettlementCsv(
+  text: string,
+  settlementDate?: string,
+): SettlementRow[] {
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    throw new InvalidFormException({ file: 'file is empty' }, 'Invalid file');
+  }
+  const columns = mapColumns(header);
+  const missing = ['amount'].filter((column) => columns[column] === undefined);
+  if (
+    columns.partnerReferenceNo === undefined &&
+    columns.referenceNo === undefined
+  ) {
+    missing.push('partnerReferenceNo or referenceNo');
+  }
+  if (columns.settlementDate === undefined && !settlementDate) {
+    missing.push('settlementDate');
+  }
+  if (missing.length) {
+    throw new InvalidFormException(
+      { file: `missing column ${missing.join(', ')}` },
+      'Invalid file',
+    );
+  }
+
+  const errors: { [key: string]: string } = {};
+  const rows: SettlementRow[] = [];
+  records.forEach((cells, index) => {
+    const lineNo = index + 1;
+    const cell = (column: Column) =>
+      columns[column] === undefined
+        ? undefined
+        : cells[columns[column]]?.trim() || undefined;
+    try {
+      rows.push(parseRow(lineNo, cell, header, cells, settlementDate));
+    } catch (error) {
+      if (Object.keys(errors).length < MAX_REPORTED_ERRORS) {
+        errors[`line ${lineNo}`] = error.message;
+      }
+    }
+  });
+  if (Object.keys(errors).length) {
+    throw new InvalidFormException(errors, 'Invalid settlement rows');
+  }
+  if (!rows.length) {
+    throw new InvalidFormException(
+      { file: 'file has no rows' },
+      'Invalid file',
+    );
+  }
+  return rows;
+}
+
+function mapColumns(header: string[]): Partial<Record<Column, number>> {
+  const normalized = header.map((name) =>
+    name.toLowerCase().replace(/[^a-z0-9]/g, ''),
+  );
+  const columns: Partial<Record<Column, number>> = {};
+  for (const [column, aliases] of Object.entries(HEADER_ALIASES)) {
+    const index = normalized.findIndex((name) => aliases.includes(name));
+    if (index >= 0) {
+      columns[column] = index;
+    }
+  }
+  return columns;
+}
+
+function parseRow(
+  lineNo: number,
+  cell: (column: Column) => string | undefined,
+  header: string[],
+  cells: string[],
+  settlementDate?: string,
+): SettlementRow {
+  const partnerReferenceNo = cell('partnerReferenceNo');
+  const referenceNo = cell('referenceNo');
+  if (!partnerReferenceNo && !referenceNo) {
+    throw new Error('row has no reference number');
+  }
+
+  const amount = parseAmount(cell('amount'), 'amount');
+  const rawType = cell('type')?.toUpperCase();
+  let type: SettlementLineType;
+  if (!rawType) {
+    type = amount.startsWith('-')
+      ? SettlementLineType.REFUND
+      : SettlementLineType.PAYMENT;
+  } else if (PAYMENT_TYPES.includes(rawType)) {
+    type = SettlementLineType.PAYMENT;
+  } else if (REFUND_TYPES.includes(rawType)) {
+    type = SettlementLineType.REFUND;
+  } else {
+    throw new Error(`unknown transaction type ${rawType}`);
+  }
+
+  const fee = cell('fee');
+  const netAmount = cell('netAmount');
+  const transactionTime = cell('transactionTime');
+  return {
+    lineNo,
+    settlementDate: parseDate(
+      cell('settlementDate') ?? settlementDate,
+      'settlementDate',
+    ),
+    type,
+    partnerReferenceNo,
+    referenceNo,
+    // refunds may be listed as negative amounts, we store them positive
+    amount: amount.replace(/^-/, ''),
+    fee: fee && parseAmount(fee, 'fee').replace(/^-/, ''),
+    netAmount: netAmount && parseAmount(netAmount, 'netAmount'),
+    transactionTime: transactionTime && parseTime(transactionTime),
+    raw: Object.fromEntries(
+      header.map((name, index) => [name, cells[index] ?? '']),
+    ),
+  };
+}
+
+function parseAmount(value: string | undefined, name: string): string {
+  // thousands separators, e.g. 10,000.00
+  const amount = value?.replace(/,/g, '');
+  if (!amount || !AMOUNT_REGEX.test(amount)) {
+    throw new Error(`${name} ${value ?? ''} is not an amount`.trim());
+  }
+  return amount;
+}
+
+// YYYY-MM-DD, YYYYMMDD or DD/MM/YYYY
+export function parseDate(value: string | undefined, name: string): string {
+  const ymd = /^(\d{4})-?(\d{2})-?(\d{2})$/.exec(value || '');
+  const dmy = /^(\d{2})\/(\d{2})\/(\d{4})$/.exec(value || '');
+  const date = ymd
+    ? `${ymd[1]}-${ymd[2]}-${ymd[3]}`
+    : dmy && `${dmy[3]}-${dmy[2]}-${dmy[1]}`;
+  const parsed = date && new Date(`${date}T00:00:00Z`);
+  if (
+    parsed &&
+    !isNaN(parsed.getTime()) &&
+    parsed.toISOString().startsWith(date)
+  ) {
+    return date;
+  }
+  throw new Error(`${name} ${value ?? ''} is not a date`.trim());
+}
+
+function parseTime(value: string): Date {
+  let iso = value.replace(' ', 'T');
+  if (/^\d{4}-\d{2}-\d{2}$/.test(iso)) {
+    iso += 'T00:00:00';
+  }
+  const time = new Date(
+    /(Z|[+-]\d{2}:?\d{2})$/.test(iso) ? iso : `${iso}${WIB_OFFSET}`,
+  );
+  if (isNaN(time.getTime())) {
+    throw new Error(`transactionTime ${value} is not a time`);
+  }
+  return time;
+}
@@ -0,0 +1,333 @@
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import {
+  Order,
+  OrderStatus,
+  Payment,
+  Prisma,
+  RefundStatus,
+  SettlementLine,
+  SettlementLineType,
+} from '@prisma/client';
+import * as crypto from 'crypto';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { MerchantContext } from '../merchant/merchant.interface';
+import { InvalidFormException } from '../../exceptions/invalid.form.exception';
+import { toCsv } from '../../shared/utils/csv';
+import {
+  SettlementImportResult,
+  SettlementLineInput,
+  SettlementRecord,
+  SettlementReport,
+} from './settlement.interface';
+import {
+  findUnreported,
+  matchSettlementLines,
+  referenceKey,
+  summarize,
+} from './settlement.matcher';
+import { parseDate, parseSettlementCsv } from './settlement.parser';
+
+// orders DANA settles a payment for
+const SETTLED_ORDER_STATUSES: OrderStatus[] = [
+  OrderStatus.PAID,
+  OrderStatus.REFUNDED,
+];
+
+const CSV_COLUMNS = [
+  'fileName',
+  'lineNo',
+  'type',
+  'partnerReferenceNo',
+  'referenceNo',
+  'amount',
+  'fee',
+  'netAmount',
+  'status',
+  'expectedAmount',
+  'expectedFee',
+  'recordStatus',
+  'note',
+] as const;
+
+export interface SettlementFile {
+  originalname: string;
+  buffer: Buffer;
+}
+
+@Injectable()
+export class SettlementService {
+  private readonly logger = new Logger(SettlementService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Store the lines of a DANA settlement report. Matching happens when a
+   * report is requested, so records that settle later are picked up.
+   */
+  async import(
+    merchant: MerchantContext,
+    file: SettlementFile,
+    settlementDate?: string,
+  ): Promise<SettlementImportResult> {
+    const rows = parseSettlementCsv(
+      file.buffer.toString('utf8'),
+      settlementDate,
+    );
+    const fileHash = crypto
+      .createHash('sha256')
+      .update(file.buffer)
+      .digest('hex');
+
+    try {
+      const settlement = await this.prisma.$transaction(async (tx) => {
+        const created = await tx.settlementImport.create({
+          data: {
+            merchantId: merchant.id,
+            fileName: file.originalname,
+            fileHash,
+            lineCount: rows.length,
+          },
+        });
+        await tx.settlementLine.createMany({
+          data: rows.map((row) => ({
+            importId: created.id,
+            merchantId: merchant.id,
+            settlementDate: this.toDate(row.settlementDate),
+            lineNo: row.lineNo,
+            type: row.type,
+            partnerReferenceNo: row.partnerReferenceNo,
+            referenceNo: row.referenceNo,
+            amount: row.amount,
+            fee: row.fee,
+            netAmount: row.netAmount,
+            transactionTime: row.transactionTime,
+            raw: row.raw,
+          })),
+        });
+        return created;
+      });
+
+      this.logger.log(
+        `Imported ${rows.length} settlement lines of ${file.originalname} for ${merchant.code}`,
+      );
+      return {
+        id: settlement.id,
+        fileName: settlement.fileName,
+        lineCount: settlement.lineCount,
+        importedAt: settlement.importedAt,
+        settlementDates: [
+          ...new Set(rows.map((row) => row.settlementDate)),
+        ].sort(),
+      };
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          `${file.originalname} was already imported`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Settlement lines of a date matched against our orders and refunds, and
+   * our payments made while the report's transactions ran that it misses
+   */
+  async report(
+    merchant: MerchantContext,
+    date: string,
+  ): Promise<SettlementReport> {
+    const day = this.parseDateParam(date);
+    const settlementDate = this.toDate(day);
+    const lines = await this.prisma.settlementLine.findMany({
+      where: { merchantId: merchant.id, settlementDate },
+      include: { import: { select: { fileName: true, importedAt: true } } },
+      orderBy: [{ import: { importedAt: 'asc' } }, { lineNo: 'asc' }],
+    });
+    const references = [
+      ...new Set(
+        lines
+          .flatMap((line) => [line.partnerReferenceNo, line.referenceNo])
+          .filter(Boolean),
+      ),
+    ];
+
+    const [records, settledBefore, paidInWindow] = await Promise.all([
+      this.findRecords(merchant, references),
+      this.findSettledBefore(merchant, settlementDate, references),
+      this.findPaidInWindow(merchant, lines),
+    ]);
+    const matched = matchSettlementLines(
+      lines.map((line) => this.toInput(line, line.import.fileName)),
+      records,
+      settledBefore,
+    );
+    const missingInReport = findUnreported(matched, paidInWindow);
+    return {
+      merchant: merchant.code,
+      settlementDate: day,
+      summary: summarize(matched, missingInReport),
+      lines: matched,
+      missingInReport,
+    };
+  }
+
+  async reportCsv(merchant: MerchantContext, date: string): Promise<string> {
+    const { lines, missingInReport } = await this.report(merchant, date);
+    const rows: Partial<Record<(typeof CSV_COLUMNS)[number], unknown>>[] = [
+      ...lines,
+      ...missingInReport,
+    ];
+    return toCsv([
+      [...CSV_COLUMNS],
+      ...rows.map((row) => CSV_COLUMNS.map((column) => row[column])),
+    ]);
+  }
+
+  private async findRecords(
+    merchant: MerchantContext,
+    references: string[],
+  ): Promise<SettlementRecord[]> {
+    if (!references.length) {
+      return [];
+    }
+    const [orders, refunds] = await Promise.all([
+      this.prisma.order.findMany({
+        where: {
+          merchantId: merchant.id,
+          OR: [
+            { partnerReferenceNo: { in: references } },
+            { referenceNo: { in: references } },
+          ],
+        },
+        include: { payment: true },
+      }),
+      this.prisma.refund.findMany({
+        where: {
+          order: { merchantId: merchant.id },
+          OR: [
+            { partnerRefundNo: { in: references } },
+            { refundNo: { in: references } },
+          ],
+        },
+      }),
+    ]);
+
+    return [
+      ...orders.map((order) => this.toRecord(order)),
+      ...refunds.map((refund) => ({
+        type: SettlementLineType.REFUND,
+        id: refund.id,
+        references: [refund.partnerRefundNo, refund.refundNo],
+        amount: refund.amount.toString(),
+        status: refund.status,
+        settleable: refund.status === RefundStatus.SUCCESS,
+        expectedFee: null,
+        paidAt: null,
+      })),
+    ];
+  }
+
+  // orders paid between the first and last transaction of the report, none
+  // when its lines carry no transaction time
+  private async findPaidInWindow(
+    merchant: MerchantContext,
+    lines: SettlementLine[],
+  ): Promise<SettlementRecord[]> {
+    const times = lines
+      .filter((line) => line.type === SettlementLineType.PAYMENT)
+      .map((line) => line.transactionTime?.getTime())
+      .filter((time) => time !== undefined && time !== null);
+    if (!times.length) {
+      return [];
+    }
+    const orders = await this.prisma.order.findMany({
+      where: {
+        merchantId: merchant.id,
+        status: { in: SETTLED_ORDER_STATUSES },
+        payment: {
+          paidAt: {
+            gte: new Date(Math.min(...times)),
+            lte: new Date(Math.max(...times)),
+          },
+        },
+      },
+      include: { payment: true },
+    });
+    return orders.map((order) => this.toRecord(order));
+  }
+
+  private toRecord(
+    order: Order & { payment: Payment | null },
+  ): SettlementRecord {
+    return {
+      type: SettlementLineType.PAYMENT,
+      id: order.id,
+      references: [order.partnerReferenceNo, order.referenceNo],
+      amount: (order.payment?.amount ?? order.amount).toString(),
+      status: order.status,
+      settleable: SETTLED_ORDER_STATUSES.includes(order.status),
+      expectedFee: order.payment?.feeAmount?.toString() ?? null,
+      paidAt: order.payment?.paidAt ?? null,
+    };
+  }
+
+  // references settled on earlier dates, lines repeating them are duplicates
+  private async findSettledBefore(
+    merchant: MerchantContext,
+    settlementDate: Date,
+    references: string[],
+  ): Promise<Set<string>> {
+    if (!references.length) {
+      return new Set();
+    }
+    const earlier = await this.prisma.settlementLine.findMany({
+      where: {
+        merchantId: merchant.id,
+        settlementDate: { lt: settlementDate },
+        OR: [
+          { partnerReferenceNo: { in: references } },
+          { referenceNo: { in: references } },
+        ],
+      },
+      select: { type: true, partnerReferenceNo: true, referenceNo: true },
+    });
+    return new Set(
+      earlier.flatMap((line) =>
+        [line.partnerReferenceNo, line.referenceNo]
+          .filter(Boolean)
+          .map((reference) => referenceKey(line.type, reference)),
+      ),
+    );
+  }
+
+  private toInput(line: SettlementLine, fileName: string): SettlementLineInput {
+    return {
+      id: line.id,
+      fileName,
+      lineNo: line.lineNo,
+      type: line.type,
+      partnerReferenceNo: line.partnerReferenceNo,
+      referenceNo: line.referenceNo,
+      amount: line.amount.toFixed(2),
+      fee: line.fee?.toFixed(2) ?? null,
+      netAmount: line.netAmount?.toFixed(2) ?? null,
+    };
+  }
+
+  private parseDateParam(date: string): string {
+    try {
+      return parseDate(date, 'date');
+    } catch (error) {
+      throw new InvalidFormException({ date: error.message }, 'Invalid date');
+    }
+  }
+
+  private toDate(date: string): Date {
+    return new Date(`${date}T00:00:00.000Z`);
+  }
+}
@@ -0,0 +1,185 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+  Req,
+  Res,
+} from '@nestjs/common';
+import { RawBodyRequest } from '@nestjs/common';
+import { Request, Response } from 'express';
+
+import { SimulatorService } from './simulator.service';
+import { SimulatorNotifyDto, SimulatorScenarioDto } from './simulator.dto';
+import {
+  SimulatedOrder,
+  SimulatorCallOptions,
+  SimulatorEndpoint,
+  SimulatorResponse,
+} from './simulator.interface';
+
+/**
+ * DANA SNAP endpoints, served under the same relative paths as
+ * api.sandbox.dana.id so DANA_BASE_URL can point here. The QRIS APIs want a
+ * B2B access token, like DANA's.
+ */
+@Controller('simulator')
+export class SimulatorController {
+  constructor(private readonly simulatorService: SimulatorService) {}
+
+  @Post('v1.0/access-token/b2b.htm')
+  async accessToken(@Req() req: RawBodyRequest<Request>, @Res() res: Response) {
+    return this.run(req, res, 'access-token', '73', () =>
+      this.simulatorService.accessToken(),
+    );
+  }
+
+  @Post('v1.0/qr/qr-mpm-generate.htm')
+  async generateQr(@Req() req: RawBodyRequest<Request>, @Res() res: Response) {
+    return this.run(
+      req,
+      res,
+      'qr-generate',
+      '47',
+      () => this.simulatorService.generateQr(req.body, req.get('x-partner-id')),
+      { bearer: true },
+    );
+  }
+
+  @Post('payment-gateway/v1.0/debit/payment-host-to-host.htm')
+  async debitPayment(
+    @Req() req: RawBodyRequest<Request>,
+    @Res() res: Response,
+  ) {
+    return this.run(req, res, 'debit-payment', '54', () =>
+      this.simulatorService.debitPayment(req.body, req.get('x-partner-id')),
+    );
+  }
+
+  @Post('v1.0/payment-gateway/consult-pay.htm')
+  async consultPay(@Req() req: RawBodyRequest<Request>, @Res() res: Response) {
+    return this.run(req, res, 'consult-pay', '00', () =>
+      this.simulatorService.consultPay(),
+    );
+  }
+
+  @Post('v1.0/qr/qr-mpm-query.htm')
+  async queryQr(@Req() req: RawBodyRequest<Request>, @Res() res: Response) {
+    return this.run(
+      req,
+      res,
+      'query',
+      '51',
+      () => this.simulatorService.query('51', req.body),
+      { bearer: true },
+    );
+  }
+
+  @Post('payment-gateway/v1.0/debit/status.htm')
+  async queryDebit(@Req() req: RawBodyRequest<Request>, @Res() res: Response) {
+    return this.run(req, res, 'query', '55', () =>
+      this.simulatorService.query('55', req.body),
+    );
+  }
+
+  @Post('v1.0/qr/qr-mpm-refund.htm')
+  async refundQr(@Req() req: RawBodyRequest<Request>, @Res() res: Response) {
+    return this.run(
+      req,
+      res,
+      'refund',
+      '78',
+      () => this.simulatorService.refund('78', req.body),
+      { bearer: true },
+    );
+  }
+
+  @Post('payment-gateway/v1.0/debit/refund.htm')
+  async refundDebit(@Req() req: RawBodyRequest<Request>, @Res() res: Response) {
+    return this.run(req, res, 'refund', '58', () =>
+      this.simulatorService.refund('58', req.body),
+    );
+  }
+
+  @Post('v1.0/qr/qr-mpm-cancel.htm')
+  async cancelQr(@Req() req: RawBodyRequest<Request>, @Res() res: Response) {
+    return this.run(
+      req,
+      res,
+      'cancel',
+      '77',
+      () => this.simulatorService.cancel('77', req.body),
+      { bearer: true },
+    );
+  }
+
+  @Post('payment-gateway/v1.0/debit/cancel.htm')
+  async cancelDebit(@Req() req: RawBodyRequest<Request>, @Res() res: Response) {
+    return this.run(req, res, 'cancel', '57', () =>
+      this.simulatorService.cancel('57', req.body),
+    );
+  }
+
+  /**
+   * Scenario controls
+   */
+  @Put('control/scenario')
+  setScenario(@Body() payload: SimulatorScenarioDto) {
+    return this.simulatorService.setScenario(
+      { scenario: payload.scenario, delayMs: payload.delayMs ?? 35000 },
+      payload.endpoints,
+    );
+  }
+
+  @Get('control/orders')
+  listOrders(): SimulatedOrder[] {
+    return this.simulatorService.listOrders();
+  }
+
+  @Post('control/orders/:partnerReferenceNo/notify')
+  @HttpCode(HttpStatus.OK)
+  async notify(
+    @Param('partnerReferenceNo') partnerReferenceNo: string,
+    @Body() payload: SimulatorNotifyDto,
+  ): Promise<SimulatedOrder> {
+    return await this.simulatorService.notify(
+      partnerReferenceNo,
+      payload.status,
+    );
+  }
+
+  @Delete('control')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  reset(): void {
+    this.simulatorService.reset();
+  }
+
+  private async run(
+    req: RawBodyRequest<Request>,
+    res: Response,
+    endpoint: SimulatorEndpoint,
+    serviceCode: string,
+    handler: () => SimulatorResponse,
+    options?: SimulatorCallOptions,
+  ) {
+    const result = await this.simulatorService.handle(
+      endpoint,
+      serviceCode,
+      {
+        // strip our own prefix, DANA paths are signed relative to its host
+        path: req.originalUrl.split('?')[0].replace(/^.*?\/simulator/, ''),
+        headers: req.headers,
+        body: req.body,
+        rawBody: req.rawBody?.toString(),
+      },
+      handler,
+      options,
+    );
+    res.status(result.httpStatus).json(result.body);
+  }
+}
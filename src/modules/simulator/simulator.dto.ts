@@ -0,0 +1,39 @@
+import { IsArray, IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+import { SimulatorEndpoint, SimulatorScenario } from './simulator.interface';
+
+export class SimulatorScenarioDto {
+  @IsIn(['success', 'decline', 'timeout', 'duplicate_notify'])
+  scenario: SimulatorScenario;
+
+  // endpoints the scenario applies to, all when omitted
+  @IsOptional()
+  @IsArray()
+  @IsIn(
+    [
+      'access-token',
+      'qr-generate',
+      'debit-payment',
+      'consult-pay',
+      'query',
+      'refund',
+      'cancel',
+      'notify',
+    ],
+    { each: true },
+  )
+  endpoints?: SimulatorEndpoint[];
+
+  // how long 'timeout' holds the response, defaults to 35s
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(120000)
+  delayMs?: number;
+}
+
+export class SimulatorNotifyDto {
+  @IsOptional()
+  @IsIn(['00', '05', '06'])
+  status?: string;
+}
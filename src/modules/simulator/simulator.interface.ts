@@ -0,0 +1,49 @@
+export type SimulatorScenario =
+  | 'success'
+  | 'decline'
+  | 'timeout'
+  | 'duplicate_notify';
+
+export type SimulatorEndpoint =
+  | 'access-token'
+  | 'qr-generate'
+  | 'debit-payment'
+  | 'consult-pay'
+  | 'query'
+  | 'refund'
+  | 'cancel'
+  | 'notify';
+
+export interface SimulatorCallOptions {
+  // the API wants a B2B access token issued by accessToken()
+  bearer?: boolean;
+}
+
+export interface SimulatorScenarioSetting {
+  scenario: SimulatorScenario;
+  // how long 'timeout' holds the response
+  delayMs: number;
+}
+
+export interface SimulatedOrder {
+  // X-PARTNER-ID of the merchant that created it
+  clientId: string;
+  partnerReferenceNo: string;
+  referenceNo: string;
+  kind: 'QRIS' | 'DEBIT';
+  amount: string;
+  currency: string;
+  // SNAP latestTransactionStatus
+  status: string;
+  refundedAmount: number;
+  refunds: { partnerRefundNo: string; refundNo: string; amount: string }[];
+  payMethod?: string;
+  payOption?: string;
+  createdAt: Date;
+  finishedAt?: Date;
+}
+
+export interface SimulatorResponse {
+  httpStatus: number;
+  body: Record<string, any>;
+}
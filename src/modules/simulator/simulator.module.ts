@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+
+import { MerchantModule } from '../merchant/merchant.module';
+import { SimulatorController } from './simulator.controller';
+import { SimulatorService } from './simulator.service';
+
+/**
+ * Local DANA sandbox, only mounted when DANA_SIMULATOR=true
+ */
+@Module({
+  imports: [HttpModule, MerchantModule],
+  providers: [SimulatorService],
+  controllers: [SimulatorController],
+})
+export class SimulatorModule {}
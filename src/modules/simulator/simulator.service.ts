@@ -0,0 +1,440 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import * as crypto from 'crypto';
+
+import { DanaSignatureService } from '../dana/dana.signature';
+import { MerchantService } from '../merchant/merchant.service';
+import { crc16 } from '../qris/qris.parser';
+import { API_PREFIX } from '../../shared/constants/global.constants';
+import {
+  SimulatedOrder,
+  SimulatorCallOptions,
+  SimulatorEndpoint,
+  SimulatorResponse,
+  SimulatorScenarioSetting,
+} from './simulator.interface';
+
+export interface SimulatorRequest {
+  path: string;
+  headers: Record<string, any>;
+  body: Record<string, any>;
+  rawBody?: string;
+}
+
+const STATUS_DESC = {
+  '00': 'SUCCESS',
+  '01': 'INITIATED',
+  '02': 'PAYING',
+  '03': 'PENDING',
+  '04': 'REFUNDED',
+  '05': 'CANCELLED',
+  '06': 'FAILED',
+  '07': 'NOT_FOUND',
+};
+
+/**
+ * In-memory stand-in for DANA's SNAP APIs. It checks our signatures with the
+ * public key of the merchant named by X-PARTNER-ID, and our B2B tokens where
+ * DANA asks for one, and signs its notifications with its own key pair, the
+ * public half of which each merchant must trust as its DANA public key.
+ */
+@Injectable()
+export class SimulatorService {
+  private readonly logger = new Logger(SimulatorService.name);
+  private signatureService = new DanaSignatureService();
+  private readonly orders = new Map<string, SimulatedOrder>();
+  private readonly scenarios = new Map<
+    SimulatorEndpoint,
+    SimulatorScenarioSetting
+  >();
+  private readonly tokens = new Set<string>();
+  private readonly privateKey: string;
+
+  constructor(
+    private readonly merchantService: MerchantService,
+    private readonly httpService: HttpService,
+  ) {
+    this.privateKey = process.env.DANA_SIMULATOR_PRIVATE_KEY;
+    if (!this.privateKey) {
+      const keys = crypto.generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+        publicKeyEncoding: { type: 'spki', format: 'der' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'der' },
+      });
+      this.privateKey = keys.privateKey.toString('base64');
+      this.logger.warn(
+        `No DANA_SIMULATOR_PRIVATE_KEY set, notifications are signed with a generated key. Trust it with DANA_PUBLIC_KEY=${keys.publicKey.toString('base64')}`,
+      );
+    }
+  }
+
+  setScenario(
+    setting: SimulatorScenarioSetting,
+    endpoints?: SimulatorEndpoint[],
+  ): Record<string, SimulatorScenarioSetting> {
+    const targets: SimulatorEndpoint[] = endpoints?.length
+      ? endpoints
+      : [
+          'access-token',
+          'qr-generate',
+          'debit-payment',
+          'consult-pay',
+          'query',
+          'refund',
+          'cancel',
+          'notify',
+        ];
+    targets.forEach((endpoint) => this.scenarios.set(endpoint, setting));
+    return Object.fromEntries(this.scenarios);
+  }
+
+  reset(): void {
+    this.orders.clear();
+    this.scenarios.clear();
+    this.tokens.clear();
+  }
+
+  listOrders(): SimulatedOrder[] {
+    return [...this.orders.values()];
+  }
+
+  /**
+   * Run one simulated API call: signature and token checks, scenario, then
+   * the handler
+   */
+  async handle(
+    endpoint: SimulatorEndpoint,
+    serviceCode: string,
+    request: SimulatorRequest,
+    handler: () => SimulatorResponse,
+    options: SimulatorCallOptions = {},
+  ): Promise<SimulatorResponse> {
+    if (!(await this.hasValidSignature(endpoint, request))) {
+      return this.reply(
+        401,
+        serviceCode,
+        '00',
+        'Unauthorized. Invalid Signature',
+      );
+    }
+    if (options.bearer && !this.hasValidToken(request)) {
+      return this.reply(401, serviceCode, '01', 'Invalid Token (B2B)');
+    }
+
+    const setting = this.scenarioFor(endpoint);
+    if (setting.scenario === 'timeout') {
+      await new Promise((resolve) => setTimeout(resolve, setting.delayMs));
+    }
+    if (setting.scenario === 'decline') {
+      return this.reply(403, serviceCode, '05', 'Do Not Honor');
+    }
+    return handler();
+  }
+
+  accessToken(): SimulatorResponse {
+    const accessToken = crypto.randomBytes(24).toString('hex');
+    this.tokens.add(accessToken);
+    return this.reply(200, '73', '00', 'Successful', {
+      accessToken,
+      tokenType: 'Bearer',
+      expiresIn: '900',
+    });
+  }
+
+  generateQr(body: Record<string, any>, clientId: string): SimulatorResponse {
+    const order = this.createOrder('QRIS', body, clientId);
+    return this.reply(200, '47', '00', 'Successful', {
+      referenceNo: order.referenceNo,
+      partnerReferenceNo: order.partnerReferenceNo,
+      qrContent: this.qrContent(order),
+      qrUrl: `https://simulator.dana.local/qr/${order.referenceNo}`,
+      merchantName: 'DANA SIMULATOR',
+    });
+  }
+
+  debitPayment(body: Record<string, any>, clientId: string): SimulatorResponse {
+    const order = this.createOrder('DEBIT', body, clientId);
+    order.payMethod = body.payOptionDetails?.payMethod;
+    order.payOption = body.payOptionDetails?.payOption;
+    return this.reply(200, '54', '00', 'Successful', {
+      referenceNo: order.referenceNo,
+      partnerReferenceNo: order.partnerReferenceNo,
+      webRedirectUrl: `https://simulator.dana.local/cashier/${order.referenceNo}`,
+    });
+  }
+
+  consultPay(): SimulatorResponse {
+    return this.reply(200, '00', '00', 'Successful', {
+      paymentInfos: [
+        { payMethod: 'BALANCE', payOption: '' },
+        { payMethod: 'NETWORK_PAY', payOption: 'NETWORK_PAY_PG_OVO' },
+        { payMethod: 'VIRTUAL_ACCOUNT', payOption: 'VIRTUAL_ACCOUNT_BCA' },
+        { payMethod: 'VIRTUAL_ACCOUNT', payOption: 'VIRTUAL_ACCOUNT_MANDIRI' },
+        { payMethod: 'CREDIT_CARD', payOption: 'CREDIT_CARD_VISA' },
+      ],
+    });
+  }
+
+  query(serviceCode: string, body: Record<string, any>): SimulatorResponse {
+    const order = this.orders.get(body.originalPartnerReferenceNo);
+    if (!order) {
+      return this.reply(404, serviceCode, '01', 'Transaction Not Found');
+    }
+    return this.reply(200, serviceCode, '00', 'Successful', {
+      originalPartnerReferenceNo: order.partnerReferenceNo,
+      originalReferenceNo: order.referenceNo,
+      serviceCode: body.serviceCode,
+      latestTransactionStatus: order.status,
+      transactionStatusDesc: STATUS_DESC[order.status],
+      transAmount: { value: order.amount, currency: order.currency },
+      paidTime:
+        order.status === '00' || order.status === '04'
+          ? this.signatureService.getTimestamp(order.finishedAt)
+          : undefined,
+    });
+  }
+
+  refund(serviceCode: string, body: Record<string, any>): SimulatorResponse {
+    const order = this.orders.get(body.originalPartnerReferenceNo);
+    if (!order) {
+      return this.reply(404, serviceCode, '01', 'Transaction Not Found');
+    }
+    if (order.status !== '00' && order.status !== '04') {
+      return this.reply(403, serviceCode, '15', 'Transaction Not Permitted');
+    }
+    const amount = parseFloat(body.refundAmount?.value);
+    if (!(amount > 0) || order.refundedAmount + amount > +order.amount) {
+      return this.reply(403, serviceCode, '14', 'Insufficient Funds');
+    }
+
+    const refundNo = crypto.randomUUID();
+    order.refundedAmount += amount;
+    order.refunds.push({
+      partnerRefundNo: body.partnerRefundNo,
+      refundNo,
+      amount: amount.toFixed(2),
+    });
+    order.status = '04';
+    return this.reply(200, serviceCode, '00', 'Successful', {
+      originalPartnerReferenceNo: order.partnerReferenceNo,
+      originalReferenceNo: order.referenceNo,
+      refundNo,
+      partnerRefundNo: body.partnerRefundNo,
+      refundAmount: body.refundAmount,
+      refundTime: this.signatureService.getTimestamp(),
+    });
+  }
+
+  cancel(serviceCode: string, body: Record<string, any>): SimulatorResponse {
+    const order = this.orders.get(body.originalPartnerReferenceNo);
+    if (!order) {
+      return this.reply(404, serviceCode, '01', 'Transaction Not Found');
+    }
+    if (order.status === '00' || order.status === '04') {
+      return this.reply(403, serviceCode, '15', 'Transaction Not Permitted');
+    }
+    order.status = '05';
+    order.finishedAt = new Date();
+    return this.reply(200, serviceCode, '00', 'Successful', {
+      originalPartnerReferenceNo: order.partnerReferenceNo,
+      originalReferenceNo: order.referenceNo,
+      cancelTime: this.signatureService.getTimestamp(order.finishedAt),
+    });
+  }
+
+  /**
+   * Finish an order and push a signed finish-notify to our webhook
+   */
+  async notify(
+    partnerReferenceNo: string,
+    status = '00',
+  ): Promise<SimulatedOrder> {
+    const order = this.orders.get(partnerReferenceNo);
+    if (!order) {
+      throw new NotFoundException(
+        `Simulated order ${partnerReferenceNo} not found`,
+      );
+    }
+    order.status = status;
+    order.finishedAt = new Date();
+
+    const setting = this.scenarioFor('notify');
+    const deliveries = setting.scenario === 'duplicate_notify' ? 2 : 1;
+    for (let i = 0; i < deliveries; i++) {
+      await this.pushNotify(order);
+    }
+    return order;
+  }
+
+  private async pushNotify(order: SimulatedOrder): Promise<void> {
+    const merchant = await this.merchantService.findByClientId(order.clientId);
+    if (!merchant) {
+      this.logger.error(
+        `Notify ${order.partnerReferenceNo} skipped, unknown client ${order.clientId}`,
+      );
+      return;
+    }
+    const notifyUrl =
+      process.env.DANA_SIMULATOR_NOTIFY_URL ||
+      `http://localhost:${process.env.PORT || 3000}${API_PREFIX}/dana/webhook/${merchant.code}`;
+    const body = JSON.stringify({
+      originalPartnerReferenceNo: order.partnerReferenceNo,
+      originalReferenceNo: order.referenceNo,
+      merchantId: merchant.merchantId,
+      amount: { value: order.amount, currency: order.currency },
+      latestTransactionStatus: order.status,
+      transactionStatusDesc: STATUS_DESC[order.status],
+      createdTime: this.signatureService.getTimestamp(order.createdAt),
+      finishedTime: this.signatureService.getTimestamp(order.finishedAt),
+      additionalInfo: {
+        paymentInfo: {
+          payMethod: order.payMethod || 'BALANCE',
+          payOption: order.payOption,
+          paidTime: this.signatureService.getTimestamp(order.finishedAt),
+        },
+        refundHistory: order.refunds.map((refund) => ({
+          ...refund,
+          refundAmount: { value: refund.amount, currency: order.currency },
+          refundStatus: 'SUCCESS',
+        })),
+      },
+    });
+    const timestamp = this.signatureService.getTimestamp();
+    const signature = this.signatureService.generateSignature(
+      this.signatureService.prepareSignatureData(
+        'POST',
+        new URL(notifyUrl).pathname,
+        body,
+        timestamp,
+      ),
+      this.privateKey,
+    );
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post(notifyUrl, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            'X-TIMESTAMP': timestamp,
+            'X-SIGNATURE': signature,
+            'X-PARTNER-ID': merchant.clientId,
+            'X-EXTERNAL-ID': crypto.randomUUID(),
+          },
+          validateStatus: () => true,
+        }),
+      );
+      this.logger.log(
+        `Notify ${order.partnerReferenceNo} answered ${response.status} ${JSON.stringify(response.data)}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Notify ${order.partnerReferenceNo} failed: ${error.message}`,
+      );
+    }
+  }
+
+  private createOrder(
+    kind: SimulatedOrder['kind'],
+    body: Record<string, any>,
+    clientId: string,
+  ): SimulatedOrder {
+    const existing = this.orders.get(body.partnerReferenceNo);
+    if (existing) {
+      return existing;
+    }
+    const order: SimulatedOrder = {
+      clientId,
+      partnerReferenceNo: body.partnerReferenceNo,
+      referenceNo: crypto.randomUUID().replace(/-/g, ''),
+      kind,
+      amount: body.amount?.value,
+      currency: body.amount?.currency || 'IDR',
+      status: '01',
+      refundedAmount: 0,
+      refunds: [],
+      createdAt: new Date(),
+    };
+    this.orders.set(order.partnerReferenceNo, order);
+    return order;
+  }
+
+  private async hasValidSignature(
+    endpoint: SimulatorEndpoint,
+    request: SimulatorRequest,
+  ): Promise<boolean> {
+    const timestamp = request.headers['x-timestamp'];
+    const signature = request.headers['x-signature'];
+    const clientId =
+      endpoint === 'access-token'
+        ? request.headers['x-client-key']
+        : request.headers['x-partner-id'];
+    if (!timestamp || !signature || typeof clientId !== 'string') {
+      return false;
+    }
+    const merchant = await this.merchantService.findByClientId(clientId);
+    if (!merchant) {
+      return false;
+    }
+    const content =
+      endpoint === 'access-token'
+        ? `${request.headers['x-client-key']}|${timestamp}`
+        : this.signatureService.prepareSignatureData(
+            'POST',
+            request.path,
+            request.rawBody || JSON.stringify(request.body),
+            timestamp,
+          );
+    return this.signatureService.verifySignature(
+      content,
+      merchant.publicKey,
+      signature,
+    );
+  }
+
+  private hasValidToken(request: SimulatorRequest): boolean {
+    const [scheme, token] = `${request.headers['authorization'] ?? ''}`.split(
+      ' ',
+    );
+    return scheme === 'Bearer' && this.tokens.has(token);
+  }
+
+  private scenarioFor(endpoint: SimulatorEndpoint): SimulatorScenarioSetting {
+    return this.scenarios.get(endpoint) || { scenario: 'success', delayMs: 0 };
+  }
+
+  // a static QRIS payload carrying the order amount in tag 54
+  private qrContent(order: SimulatedOrder): string {
+    const tlv = (tag: string, value: string) =>
+      `${tag}${value.length.toString().padStart(2, '0')}${value}`;
+    const payload =
+      tlv('00', '01') +
+      tlv('01', '12') +
+      tlv('26', tlv('00', 'ID.DANA.WWW') + tlv('01', order.referenceNo)) +
+      tlv('52', '5812') +
+      tlv('53', '360') +
+      tlv('54', order.amount) +
+      tlv('58', 'ID') +
+      tlv('59', 'DANA SIMULATOR') +
+      tlv('60', 'JAKARTA') +
+      '6304';
+    return payload + crc16(payload);
+  }
+
+  private reply(
+    httpStatus: number,
+    serviceCode: string,
+    caseCode: string,
+    responseMessage: string,
+    data: Record<string, any> = {},
+  ): SimulatorResponse {
+    return {
+      httpStatus,
+      body: {
+        responseCode: `${httpStatus}${serviceCode}${caseCode}`,
+        responseMessage,
+        ...data,
+      },
+    };
+  }
+}
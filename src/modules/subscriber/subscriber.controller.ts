@@ -0,0 +1,60 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseEnumPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { DeliveryStatus, Subscriber, SubscriberDelivery } from '@prisma/client';
+
+import { AdminGuard } from '../../guards/admin.guard';
+import { SubscriberService } from './subscriber.service';
+import { CreateSubscriberDto, UpdateSubscriberDto } from './subscriber.dto';
+
+@Controller('subscribers')
+@UseGuards(AdminGuard)
+export class SubscriberController {
+  constructor(private readonly subscriberService: SubscriberService) {}
+
+  /**
+   * Register an endpoint for order events, the secret is only returned here
+   */
+  @Post()
+  async create(@Body() payload: CreateSubscriberDto): Promise<Subscriber> {
+    return await this.subscriberService.create(payload);
+  }
+
+  @Get()
+  async findAll(): Promise<Omit<Subscriber, 'secret'>[]> {
+    return await this.subscriberService.findAll();
+  }
+
+  @Patch(':id')
+  async update(
+    @Param('id') id: string,
+    @Body() payload: UpdateSubscriberDto,
+  ): Promise<Omit<Subscriber, 'secret'>> {
+    return await this.subscriberService.update(id, payload);
+  }
+
+  /**
+   * Delivery log of a subscriber, newest first
+   */
+  @Get(':id/deliveries')
+  async findDeliveries(
+    @Param('id') id: string,
+    @Query('status', new ParseEnumPipe(DeliveryStatus, { optional: true }))
+    status?: DeliveryStatus,
+  ): Promise<SubscriberDelivery[]> {
+    return await this.subscriberService.findDeliveries(id, status);
+  }
+
+  @Post('deliveries/:id/retry')
+  async retryDelivery(@Param('id') id: string): Promise<SubscriberDelivery> {
+    return await this.subscriberService.retryDelivery(id);
+  }
+}
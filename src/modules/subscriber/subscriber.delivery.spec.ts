@@ -0,0 +1,38 @@
+import * as crypto from 'crypto';
+
+import { retryDelaySeconds, signPayload } from './subscriber.delivery';
+
+describe('subscriber delivery', () => {
+  const config = { baseDelaySeconds: 30, maxDelaySeconds: 600 };
+
+  it('should sign timestamp and body with the subscriber secret', () => {
+    const body = JSON.stringify({ type: 'order.paid' });
+    const expected = crypto
+      .createHmac('sha256', 'secret')
+      .update(`1700000000.${body}`)
+      .digest('hex');
+
+    expect(signPayload('secret', '1700000000', body)).toBe(
+      `sha256=${expected}`,
+    );
+    expect(signPayload('other', '1700000000', body)).not.toBe(
+      `sha256=${expected}`,
+    );
+  });
+
+  it('should double the delay on every attempt', () => {
+    const upper = () => 1;
+    expect(retryDelaySeconds(1, config, upper)).toBe(30);
+    expect(retryDelaySeconds(2, config, upper)).toBe(60);
+    expect(retryDelaySeconds(3, config, upper)).toBe(120);
+  });
+
+  it('should cap the delay', () => {
+    expect(retryDelaySeconds(10, config, () => 1)).toBe(600);
+  });
+
+  it('should jitter within the upper half of the window', () => {
+    expect(retryDelaySeconds(2, config, () => 0)).toBe(30);
+    expect(retryDelaySeconds(2, config, () => 0.5)).toBe(45);
+  });
+});
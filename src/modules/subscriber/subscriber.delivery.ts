@@ -0,0 +1,33 @@
+import * as crypto from 'crypto';
+
+import { SubscriberConfig } from '../../configs/config.interface';
+
+/**
+ * Signature sent as `X-Signature: sha256=<hex>`, computed over
+ * `<X-Timestamp>.<raw body>` so receivers can reject replayed bodies.
+ */
+export function signPayload(
+  secret: string,
+  timestamp: string,
+  body: string,
+): string {
+  const digest = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Exponential backoff for the given failed attempt (1-based), capped at
+ * maxDelaySeconds, with jitter over the upper half of the window.
+ */
+export function retryDelaySeconds(
+  attempts: number,
+  config: Pick<SubscriberConfig, 'baseDelaySeconds' | 'maxDelaySeconds'>,
+  random: () => number = Math.random,
+): number {
+  const exponential = config.baseDelaySeconds * 2 ** Math.max(attempts - 1, 0);
+  const capped = Math.min(exponential, config.maxDelaySeconds);
+  return Math.round(capped / 2 + (random() * capped) / 2);
+}
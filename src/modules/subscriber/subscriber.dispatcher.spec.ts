@@ -0,0 +1,242 @@
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import {
+  DeliveryStatus,
+  OrderStatus,
+  Subscriber,
+  SubscriberDelivery,
+} from '@prisma/client';
+import { of, throwError } from 'rxjs';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { SubscriberConfig } from '../../configs/config.interface';
+import { signPayload } from './subscriber.delivery';
+import { SubscriberDispatcher } from './subscriber.dispatcher';
+
+describe('SubscriberDispatcher', () => {
+  const config: SubscriberConfig = {
+    pollIntervalMs: 1000,
+    batchSize: 10,
+    timeoutMs: 5000,
+    maxAttempts: 3,
+    baseDelaySeconds: 30,
+    maxDelaySeconds: 600,
+  };
+  const subscriber = {
+    id: 'subscriber-1',
+    url: 'https://shop.example.com/hooks',
+    secret: 'secret',
+    active: true,
+  } as Subscriber;
+  const payload = { type: 'order.paid', partnerReferenceNo: 'order-1' };
+
+  let rows: Map<string, SubscriberDelivery>;
+  let deliveries: ReturnType<typeof subscriberDelivery>;
+  let post: jest.Mock;
+  let dispatcher: SubscriberDispatcher;
+
+  // the subset of prisma.subscriberDelivery the dispatcher uses, in memory
+  const subscriberDelivery = () => ({
+    findMany: jest.fn(async ({ where, take }) =>
+      [...rows.values()]
+        .filter(
+          (row) =>
+            row.status === where.status &&
+            row.nextAttemptAt.getTime() <= where.nextAttemptAt.lte.getTime(),
+        )
+        .slice(0, take)
+        .map((row) => ({ ...row, subscriber })),
+    ),
+    updateMany: jest.fn(async ({ where, data }) => {
+      const row = rows.get(where.id);
+      if (
+        row.status !== where.status ||
+        row.nextAttemptAt.getTime() !== where.nextAttemptAt.getTime()
+      ) {
+        return { count: 0 };
+      }
+      rows.set(row.id, { ...row, ...data });
+      return { count: 1 };
+    }),
+    update: jest.fn(async ({ where, data }) => {
+      rows.set(where.id, { ...rows.get(where.id), ...data });
+      return rows.get(where.id);
+    }),
+  });
+  const queue = (overrides: Partial<SubscriberDelivery> = {}) => {
+    const delivery = {
+      id: `delivery-${rows.size + 1}`,
+      subscriberId: subscriber.id,
+      eventId: 'event-1',
+      eventType: OrderStatus.PAID,
+      payload,
+      status: DeliveryStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: new Date(Date.now() - 1000),
+      lastStatusCode: null,
+      lastError: null,
+      deliveredAt: null,
+      ...overrides,
+    } as SubscriberDelivery;
+    rows.set(delivery.id, delivery);
+    return delivery.id;
+  };
+  const answer = (status: number) => of({ status, data: {} });
+  const secondsAhead = (id: string) =>
+    (rows.get(id).nextAttemptAt.getTime() - Date.now()) / 1000;
+
+  beforeEach(() => {
+    rows = new Map();
+    deliveries = subscriberDelivery();
+    post = jest.fn().mockReturnValue(answer(200));
+    dispatcher = new SubscriberDispatcher(
+      { subscriberDelivery: deliveries } as unknown as PrismaService,
+      { post } as Partial<HttpService> as HttpService,
+      {} as SchedulerRegistry,
+      { get: () => config } as Partial<ConfigService> as ConfigService,
+    );
+  });
+
+  it('should post a signed event and mark it delivered', async () => {
+    const id = queue();
+
+    await dispatcher.dispatchDue();
+
+    const [url, body, { headers }] = post.mock.calls[0];
+    expect(url).toBe(subscriber.url);
+    expect(JSON.parse(body)).toEqual(payload);
+    expect(headers).toMatchObject({
+      'X-Event-Id': 'event-1',
+      'X-Event-Type': OrderStatus.PAID,
+      'X-Signature': signPayload('secret', headers['X-Timestamp'], body),
+    });
+    expect(rows.get(id)).toMatchObject({
+      status: DeliveryStatus.DELIVERED,
+      attempts: 1,
+      lastStatusCode: 200,
+      lastError: null,
+      deliveredAt: expect.any(Date),
+    });
+  });
+
+  it('should schedule a retry after a non-2xx answer', async () => {
+    const id = queue();
+    post.mockReturnValue(answer(503));
+
+    await dispatcher.dispatchDue();
+
+    expect(rows.get(id)).toMatchObject({
+      status: DeliveryStatus.PENDING,
+      attempts: 1,
+      lastStatusCode: 503,
+      lastError: 'HTTP 503',
+    });
+    // first retry waits within the upper half of baseDelaySeconds
+    expect(secondsAhead(id)).toBeGreaterThanOrEqual(14);
+    expect(secondsAhead(id)).toBeLessThanOrEqual(30);
+
+    await dispatcher.dispatchDue();
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+
+  it('should schedule a retry when the subscriber cannot be reached', async () => {
+    const id = queue({ attempts: 1 });
+    post.mockReturnValue(throwError(() => new Error('connect ECONNREFUSED')));
+
+    await dispatcher.dispatchDue();
+
+    expect(rows.get(id)).toMatchObject({
+      status: DeliveryStatus.PENDING,
+      attempts: 2,
+      lastStatusCode: null,
+      lastError: 'connect ECONNREFUSED',
+    });
+    expect(secondsAhead(id)).toBeGreaterThanOrEqual(29);
+  });
+
+  it('should dead-letter a delivery that used up its attempts', async () => {
+    const id = queue({ attempts: config.maxAttempts - 1 });
+    post.mockReturnValue(answer(500));
+
+    await dispatcher.dispatchDue();
+
+    expect(rows.get(id)).toMatchObject({
+      status: DeliveryStatus.DEAD,
+      attempts: config.maxAttempts,
+      lastError: 'HTTP 500',
+    });
+    await dispatcher.dispatchDue();
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail deliveries to an inactive subscriber without posting', async () => {
+    const id = queue();
+    subscriber.active = false;
+
+    try {
+      await dispatcher.dispatchDue();
+    } finally {
+      subscriber.active = true;
+    }
+
+    expect(post).not.toHaveBeenCalled();
+    expect(rows.get(id)).toMatchObject({
+      status: DeliveryStatus.PENDING,
+      attempts: 1,
+      lastError: 'subscriber is inactive',
+    });
+  });
+
+  describe('leases', () => {
+    it('should lease a delivery while it is being posted', async () => {
+      const id = queue();
+      let leasedUntil: number;
+      post.mockImplementation(() => {
+        leasedUntil = secondsAhead(id);
+        return answer(200);
+      });
+
+      await dispatcher.dispatchDue();
+
+      expect(leasedUntil).toBeGreaterThan((config.timeoutMs * 2) / 1000 - 1);
+    });
+
+    it('should skip a delivery another instance leased first', async () => {
+      const id = queue();
+      deliveries.findMany.mockImplementationOnce(async () => {
+        const found = [{ ...rows.get(id), subscriber }];
+        // the other instance claims it between our read and our claim
+        rows.set(id, {
+          ...rows.get(id),
+          nextAttemptAt: new Date(Date.now() + 10000),
+        });
+        return found;
+      });
+
+      await dispatcher.dispatchDue();
+
+      expect(post).not.toHaveBeenCalled();
+      expect(rows.get(id).attempts).toBe(0);
+    });
+
+    it('should reclaim a delivery whose lease ran out', async () => {
+      // an instance leased it, then died before recording the outcome
+      const id = queue({ nextAttemptAt: new Date(Date.now() + 10000) });
+      await dispatcher.dispatchDue();
+      expect(post).not.toHaveBeenCalled();
+
+      rows.set(id, {
+        ...rows.get(id),
+        nextAttemptAt: new Date(Date.now() - 1),
+      });
+      await dispatcher.dispatchDue();
+
+      expect(post).toHaveBeenCalledTimes(1);
+      expect(rows.get(id)).toMatchObject({
+        status: DeliveryStatus.DELIVERED,
+        attempts: 1,
+      });
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { DeliveryStatus, Subscriber, SubscriberDelivery } from '@prisma/client';
+import { firstValueFrom } from 'rxjs';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { SubscriberConfig } from '../../configs/config.interface';
+import { retryDelaySeconds, signPayload } from './subscriber.delivery';
+
+const DISPATCH_INTERVAL = 'subscriber-dispatch';
+
+/**
+ * Pushes queued order events to subscriber endpoints. Failed deliveries are
+ * retried with exponential backoff and dead-lettered after maxAttempts.
+ */
+@Injectable()
+export class SubscriberDispatcher implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SubscriberDispatcher.name);
+  private readonly config: SubscriberConfig;
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly httpService: HttpService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    configService: ConfigService,
+  ) {
+    this.config = configService.get<SubscriberConfig>('subscribers');
+  }
+
+  onModuleInit() {
+    const interval = setInterval(
+      () => this.dispatchDue(),
+      this.config.pollIntervalMs,
+    );
+    this.schedulerRegistry.addInterval(DISPATCH_INTERVAL, interval);
+  }
+
+  onModuleDestroy() {
+    if (this.schedulerRegistry.doesExist('interval', DISPATCH_INTERVAL)) {
+      this.schedulerRegistry.deleteInterval(DISPATCH_INTERVAL);
+    }
+  }
+
+  async dispatchDue(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      const due = await this.prisma.subscriberDelivery.findMany({
+        where: {
+          status: DeliveryStatus.PENDING,
+          nextAttemptAt: { lte: new Date() },
+        },
+        include: { subscriber: true },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: this.config.batchSize,
+      });
+      for (const delivery of due) {
+        if (await this.claim(delivery)) {
+          await this.deliver(delivery, delivery.subscriber);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Subscriber dispatch failed: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // lease the row so another instance polling at the same time skips it
+  private async claim(delivery: SubscriberDelivery): Promise<boolean> {
+    const leaseUntil = new Date(Date.now() + this.config.timeoutMs * 2);
+    const { count } = await this.prisma.subscriberDelivery.updateMany({
+      where: {
+        id: delivery.id,
+        status: DeliveryStatus.PENDING,
+        nextAttemptAt: delivery.nextAttemptAt,
+      },
+      data: { nextAttemptAt: leaseUntil },
+    });
+    return count === 1;
+  }
+
+  private async deliver(
+    delivery: SubscriberDelivery,
+    subscriber: Subscriber,
+  ): Promise<void> {
+    const attempts = delivery.attempts + 1;
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    if (!subscriber.active) {
+      await this.fail(delivery, attempts, null, 'subscriber is inactive');
+      return;
+    }
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post(subscriber.url, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Event-Id': delivery.eventId,
+            'X-Event-Type': delivery.eventType,
+            'X-Timestamp': timestamp,
+            'X-Signature': signPayload(subscriber.secret, timestamp, body),
+          },
+          timeout: this.config.timeoutMs,
+          validateStatus: () => true,
+        }),
+      );
+
+      if (response.status >= 200 && response.status < 300) {
+        await this.prisma.subscriberDelivery.update({
+          where: { id: delivery.id },
+          data: {
+            status: DeliveryStatus.DELIVERED,
+            attempts,
+            lastStatusCode: response.status,
+            lastError: null,
+            deliveredAt: new Date(),
+          },
+        });
+        return;
+      }
+      await this.fail(
+        delivery,
+        attempts,
+        response.status,
+        `HTTP ${response.status}`,
+      );
+    } catch (error) {
+      await this.fail(delivery, attempts, null, error.message);
+    }
+  }
+
+  private async fail(
+    delivery: SubscriberDelivery,
+    attempts: number,
+    statusCode: number | null,
+    reason: string,
+  ): Promise<void> {
+    const dead = attempts >= this.config.maxAttempts;
+    const delay = retryDelaySeconds(attempts, this.config);
+    await this.prisma.subscriberDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: dead ? DeliveryStatus.DEAD : DeliveryStatus.PENDING,
+        attempts,
+        lastStatusCode: statusCode,
+        lastError: reason,
+        nextAttemptAt: new Date(Date.now() + delay * 1000),
+      },
+    });
+    const message = `Delivery ${delivery.id} of ${delivery.eventType} failed (${reason}), attempt ${attempts}`;
+    if (dead) {
+      this.logger.error(`${message}, moved to dead-letter`);
+    } else {
+      this.logger.warn(`${message}, retrying in ${delay}s`);
+    }
+  }
+}
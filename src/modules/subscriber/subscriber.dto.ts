@@ -0,0 +1,80 @@
+import { OrderStatus } from '@prisma/client';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  IsUUID,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+export class CreateSubscriberDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsUrl({ require_tld: false })
+  url: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(OrderStatus, { each: true })
+  events: OrderStatus[];
+
+  // restrict to one merchant's orders, all merchants when omitted
+  @IsOptional()
+  @IsUUID()
+  merchantId?: string;
+
+  // generated when omitted
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  secret?: string;
+}
+
+export class UpdateSubscriberDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  url?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(OrderStatus, { each: true })
+  events?: OrderStatus[];
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
+
+export interface OrderEventPayload {
+  id: string;
+  type: string;
+  createdAt: string;
+  data: {
+    orderId: string;
+    merchantId: string;
+    partnerReferenceNo: string;
+    referenceNo?: string;
+    status: OrderStatus;
+    previousStatus?: OrderStatus;
+    amount: string;
+    currency: string;
+    payMethod?: string;
+    payOption?: string;
+  };
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+
+import { PrismaModule } from '../prisma/prisma.module';
+import { SubscriberService } from './subscriber.service';
+import { SubscriberDispatcher } from './subscriber.dispatcher';
+import { SubscriberController } from './subscriber.controller';
+
+@Module({
+  imports: [HttpModule, PrismaModule],
+  providers: [SubscriberService, SubscriberDispatcher],
+  controllers: [SubscriberController],
+  exports: [SubscriberService],
+})
+export class SubscriberModule {}
@@ -0,0 +1,162 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  DeliveryStatus,
+  Order,
+  OrderStatus,
+  Prisma,
+  Subscriber,
+  SubscriberDelivery,
+} from '@prisma/client';
+import * as crypto from 'crypto';
+
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  CreateSubscriberDto,
+  OrderEventPayload,
+  UpdateSubscriberDto,
+} from './subscriber.dto';
+
+// everything but the secret, which is only shown once on creation
+const PUBLIC_FIELDS = {
+  id: true,
+  name: true,
+  url: true,
+  events: true,
+  merchantId: true,
+  active: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.SubscriberSelect;
+
+@Injectable()
+export class SubscriberService {
+  private readonly logger = new Logger(SubscriberService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(payload: CreateSubscriberDto): Promise<Subscriber> {
+    return this.prisma.subscriber.create({
+      data: {
+        name: payload.name,
+        url: payload.url,
+        events: payload.events,
+        merchantId: payload.merchantId,
+        secret: payload.secret || crypto.randomBytes(32).toString('hex'),
+      },
+    });
+  }
+
+  async findAll(): Promise<Omit<Subscriber, 'secret'>[]> {
+    return this.prisma.subscriber.findMany({
+      select: PUBLIC_FIELDS,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async update(
+    id: string,
+    payload: UpdateSubscriberDto,
+  ): Promise<Omit<Subscriber, 'secret'>> {
+    await this.findById(id);
+    return this.prisma.subscriber.update({
+      where: { id },
+      data: payload,
+      select: PUBLIC_FIELDS,
+    });
+  }
+
+  async findById(id: string): Promise<Subscriber> {
+    const subscriber = await this.prisma.subscriber.findUnique({
+      where: { id },
+    });
+    if (!subscriber) {
+      throw new NotFoundException(`Subscriber ${id} not found`);
+    }
+    return subscriber;
+  }
+
+  async findDeliveries(
+    subscriberId: string,
+    status?: DeliveryStatus,
+  ): Promise<SubscriberDelivery[]> {
+    await this.findById(subscriberId);
+    return this.prisma.subscriberDelivery.findMany({
+      where: { subscriberId, status },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+  }
+
+  /**
+   * Put a delivery (typically a dead-lettered one) back in the queue
+   */
+  async retryDelivery(id: string): Promise<SubscriberDelivery> {
+    const delivery = await this.prisma.subscriberDelivery.findUnique({
+      where: { id },
+    });
+    if (!delivery) {
+      throw new NotFoundException(`Delivery ${id} not found`);
+    }
+    return this.prisma.subscriberDelivery.update({
+      where: { id },
+      data: {
+        status: DeliveryStatus.PENDING,
+        attempts: 0,
+        nextAttemptAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Queue an order status change for every active subscriber listening to it.
+   * Runs inside the order's transaction so no state change is ever missed.
+   */
+  async enqueueOrderEvent(
+    tx: Prisma.TransactionClient,
+    order: Order,
+    previousStatus?: OrderStatus,
+  ): Promise<void> {
+    const subscribers = await tx.subscriber.findMany({
+      where: {
+        active: true,
+        events: { has: order.status },
+        OR: [{ merchantId: null }, { merchantId: order.merchantId }],
+      },
+      select: { id: true },
+    });
+    if (!subscribers.length) {
+      return;
+    }
+
+    const event: OrderEventPayload = {
+      id: crypto.randomUUID(),
+      type: `order.${order.status.toLowerCase()}`,
+      createdAt: new Date().toISOString(),
+      data: {
+        orderId: order.id,
+        merchantId: order.merchantId,
+        partnerReferenceNo: order.partnerReferenceNo,
+        referenceNo: order.referenceNo ?? undefined,
+        status: order.status,
+        previousStatus,
+        amount: order.amount.toFixed(2),
+        currency: order.currency,
+        payMethod: order.payMethod ?? undefined,
+        payOption: order.payOption ?? undefined,
+      },
+    };
+
+    await tx.subscriberDelivery.createMany({
+      data: subscribers.map((subscriber) => ({
+        subscriberId: subscriber.id,
+        eventId: event.id,
+        eventType: order.status,
+        orderId: order.id,
+        payload: { ...event, data: { ...event.data } },
+      })),
+    });
+    this.logger.log(
+      `Queued ${event.type} of ${order.partnerReferenceNo} for ${subscribers.length} subscriber(s)`,
+    );
+  }
+}
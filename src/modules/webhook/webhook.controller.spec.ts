@@ -0,0 +1,142 @@
+import { ConfigType } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { Request, Response } from 'express';
+
+import { danaConfig } from '../dana/dana.config';
+import { DanaSignatureService } from '../dana/dana.signature';
+import { DanaWebhookVerifier } from '../dana/dana.webhook.verifier';
+import { MerchantContext } from '../merchant/merchant.interface';
+import { MerchantService } from '../merchant/merchant.service';
+import { WebhookController } from './webhook.controller';
+import { InboundWebhook, WebhookInboxService } from './webhook.inbox.service';
+
+describe('WebhookController', () => {
+  const path = '/api/v1/dana/webhook/brand-a';
+  const payload = {
+    originalPartnerReferenceNo: 'order-1',
+    latestTransactionStatus: '00',
+    amount: { value: '10000.00', currency: 'IDR' },
+  };
+  const rawBody = JSON.stringify(payload, null, 2);
+  const signatureService = new DanaSignatureService();
+  const keyPair = () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: 'pkcs8', format: 'der' },
+      publicKeyEncoding: { type: 'spki', format: 'der' },
+    });
+    return {
+      privateKey: privateKey.toString('base64'),
+      publicKey: publicKey.toString('base64'),
+    };
+  };
+  const dana = keyPair();
+  const other = keyPair();
+  const merchant = {
+    id: 'merchant-1',
+    code: 'brand-a',
+    danaPublicKey: dana.publicKey,
+  } as MerchantContext;
+
+  let receive: jest.Mock;
+  let status: jest.Mock;
+  let controller: WebhookController;
+
+  const deliver = (body: string, privateKey: string) => {
+    const timestamp = signatureService.getTimestamp();
+    const signature = signatureService.generateSignature(
+      signatureService.prepareSignatureData('POST', path, rawBody, timestamp),
+      privateKey,
+    );
+    return controller.handleWebhook(
+      'brand-a',
+      JSON.parse(body),
+      signature,
+      timestamp,
+      Buffer.from(body),
+      {
+        method: 'POST',
+        originalUrl: `${path}?retry=1`,
+        headers: {},
+      } as Request,
+      { status } as Partial<Response> as Response,
+    );
+  };
+  const verification = () =>
+    (receive.mock.calls[0][0] as InboundWebhook).verification;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    receive = jest.fn(async ({ verification }: InboundWebhook) =>
+      verification.valid
+        ? {
+            httpStatus: 200,
+            response: {
+              responseCode: '2005200',
+              responseMessage: 'Successful',
+            },
+          }
+        : {
+            httpStatus: 401,
+            response: {
+              responseCode: '4015200',
+              responseMessage: 'Unauthorized. Invalid Signature',
+            },
+          },
+    );
+    status = jest.fn();
+    controller = new WebhookController(
+      { receive } as Partial<WebhookInboxService> as WebhookInboxService,
+      new DanaWebhookVerifier({
+        webhookToleranceSeconds: 300,
+      } as ConfigType<typeof danaConfig>),
+      {
+        findByCode: jest.fn(async () => merchant),
+      } as Partial<MerchantService> as MerchantService,
+    );
+  });
+
+  it("should accept a notification signed with the tenant's DANA key", async () => {
+    await expect(deliver(rawBody, dana.privateKey)).resolves.toEqual({
+      responseCode: '2005200',
+      responseMessage: 'Successful',
+    });
+
+    expect(status).toHaveBeenCalledWith(200);
+    expect(receive).toHaveBeenCalledWith(
+      expect.objectContaining({
+        merchantId: 'merchant-1',
+        rawBody,
+        payload,
+        verification: { valid: true },
+      }),
+    );
+  });
+
+  it('should reject a notification signed with another key', async () => {
+    const response = await deliver(rawBody, other.privateKey);
+
+    expect(response.responseCode).toBe('4015200');
+    expect(status).toHaveBeenCalledWith(401);
+    expect(verification()).toEqual({
+      valid: false,
+      reason: 'signature mismatch',
+    });
+  });
+
+  it('should reject a body changed after signing', async () => {
+    await deliver(
+      JSON.stringify({
+        ...payload,
+        amount: { value: '1.00', currency: 'IDR' },
+      }),
+      dana.privateKey,
+    );
+
+    expect(status).toHaveBeenCalledWith(401);
+    expect(verification().valid).toBe(false);
+  });
+});
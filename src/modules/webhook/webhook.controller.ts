@@ -0,0 +1,87 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  RawBody,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { WebhookInbox } from '@prisma/client';
+
+import { AdminGuard } from '../../guards/admin.guard';
+import { DanaWebhookVerifier } from '../dana/dana.webhook.verifier';
+import { MerchantService } from '../merchant/merchant.service';
+import { NotifyResponseDto } from './webhook.dto';
+import { WebhookInboxService } from './webhook.inbox.service';
+
+@Controller('dana')
+export class WebhookController {
+  private readonly logger = new Logger(WebhookController.name);
+
+  constructor(
+    private readonly inboxService: WebhookInboxService,
+    private readonly webhookVerifier: DanaWebhookVerifier,
+    private readonly merchantService: MerchantService,
+  ) {}
+
+  /**
+   * DANA finish-notify, answered in the SNAP responseCode format. Each tenant
+   * registers /dana/webhook/<code> with DANA; the bare route is the default
+   * merchant's.
+   */
+  @Post(['webhook', 'webhook/:merchantCode'])
+  @HttpCode(HttpStatus.OK)
+  async handleWebhook(
+    @Param('merchantCode') merchantCode: string | undefined,
+    @Body() payload: Record<string, any>,
+    @Headers('X-SIGNATURE') signature: string,
+    @Headers('X-TIMESTAMP') timestamp: string,
+    @RawBody() rawBody: Buffer,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<NotifyResponseDto> {
+    const merchant = merchantCode
+      ? await this.merchantService.findByCode(merchantCode)
+      : await this.merchantService.getDefault();
+    const verification = this.webhookVerifier.verify(
+      {
+        method: req.method,
+        path: req.originalUrl.split('?')[0],
+        rawBody: rawBody?.toString() || '',
+        timestamp,
+        signature,
+      },
+      merchant.danaPublicKey,
+    );
+
+    const result = await this.inboxService.receive({
+      merchantId: merchant.id,
+      rawBody: rawBody?.toString() || JSON.stringify(payload),
+      headers: req.headers,
+      payload,
+      verification,
+    });
+
+    this.logger.log(
+      `Finish-notify ${payload?.originalPartnerReferenceNo} for ${merchant.code}: ${result.response.responseCode}`,
+    );
+    res.status(result.httpStatus);
+    return result.response;
+  }
+
+  /**
+   * Re-run a stored DANA notification (admin only)
+   */
+  @Post('webhooks/:id/replay')
+  @UseGuards(AdminGuard)
+  async replay(@Param('id') id: string): Promise<WebhookInbox> {
+    return await this.inboxService.replay(id);
+  }
+}
@@ -0,0 +1,94 @@
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  ValidateNested,
+} from 'class-validator';
+
+export class NotifyAmountDto {
+  @Matches(/^\d+(\.\d{1,2})?$/)
+  value: string;
+
+  @IsString()
+  currency: string;
+}
+
+export interface NotifyPaymentInfo {
+  payMethod?: string;
+  payOption?: string;
+  paidTime?: string;
+}
+
+export interface NotifyRefundHistory {
+  refundNo?: string;
+  partnerRefundNo?: string;
+  refundAmount?: { value: string; currency: string };
+  refundStatus?: string;
+  refundDate?: string;
+  reason?: string;
+}
+
+export interface NotifyAdditionalInfo {
+  paymentInfo?: NotifyPaymentInfo;
+  refundHistory?: NotifyRefundHistory[];
+  [key: string]: any;
+}
+
+/**
+ * SNAP finish-notify body, shared by QRIS (service 52) and payment gateway
+ * (service 56) notifications
+ */
+export class FinishNotifyDto {
+  @IsString()
+  @IsNotEmpty()
+  originalPartnerReferenceNo: string;
+
+  @IsOptional()
+  @IsString()
+  originalReferenceNo?: string;
+
+  @IsOptional()
+  @IsString()
+  merchantId?: string;
+
+  @IsOptional()
+  @IsString()
+  subMerchantId?: string;
+
+  @ValidateNested()
+  @Type(() => NotifyAmountDto)
+  amount: NotifyAmountDto;
+
+  @IsIn(['00', '01', '02', '03', '04', '05', '06', '07'])
+  latestTransactionStatus: string;
+
+  @IsOptional()
+  @IsString()
+  transactionStatusDesc?: string;
+
+  @IsOptional()
+  @IsString()
+  createdTime?: string;
+
+  @IsOptional()
+  @IsString()
+  finishedTime?: string;
+
+  @IsOptional()
+  @IsObject()
+  additionalInfo?: NotifyAdditionalInfo;
+}
+
+export class NotifyResponseDto {
+  responseCode: string;
+  responseMessage: string;
+}
+
+export interface NotifyResult {
+  httpStatus: number;
+  response: NotifyResponseDto;
+}
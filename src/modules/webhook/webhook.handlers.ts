@@ -0,0 +1,129 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Order, OrderStatus, Prisma, RefundStatus } from '@prisma/client';
+import { instanceToPlain } from 'class-transformer';
+
+import { OrderService } from '../order/order.service';
+import { RefundService } from '../refund/refund.service';
+import { DANA_TRANSACTION_STATUS } from '../../shared/constants/dana.constants';
+import { FinishNotifyDto } from './webhook.dto';
+
+export const FINISH_NOTIFY_HANDLERS = 'FINISH_NOTIFY_HANDLERS';
+
+/**
+ * Applies one kind of finish-notify to our stored order. Handlers are picked
+ * by the notification's `latestTransactionStatus`.
+ */
+export interface FinishNotifyHandler {
+  readonly statuses: string[];
+  handle(notify: FinishNotifyDto, order: Order): Promise<void>;
+}
+
+@Injectable()
+export class PaidNotifyHandler implements FinishNotifyHandler {
+  readonly statuses = ['00'];
+
+  constructor(private readonly orderService: OrderService) {}
+
+  async handle(notify: FinishNotifyDto, order: Order): Promise<void> {
+    // a payment of another amount must not settle the order
+    if (
+      notify.amount.currency !== order.currency ||
+      !new Prisma.Decimal(notify.amount.value).equals(order.amount)
+    ) {
+      await this.orderService.flagPaymentMismatch(order, notify.amount);
+      return;
+    }
+    const paymentInfo = notify.additionalInfo?.paymentInfo;
+    const paidTime = paymentInfo?.paidTime || notify.finishedTime;
+    await this.orderService.syncStatus(
+      order.partnerReferenceNo,
+      OrderStatus.PAID,
+      {
+        referenceNo: notify.originalReferenceNo,
+        rawResponse: instanceToPlain(notify),
+        reason: 'finish-notify',
+        paidAmount: notify.amount.value,
+        payMethod: paymentInfo?.payMethod,
+        payOption: paymentInfo?.payOption,
+        paidAt: paidTime ? new Date(paidTime) : undefined,
+      },
+    );
+  }
+}
+
+@Injectable()
+export class PendingNotifyHandler implements FinishNotifyHandler {
+  readonly statuses = ['01', '02', '03'];
+
+  constructor(private readonly orderService: OrderService) {}
+
+  async handle(notify: FinishNotifyDto, order: Order): Promise<void> {
+    await this.orderService.syncStatus(
+      order.partnerReferenceNo,
+      OrderStatus.PENDING,
+      { referenceNo: notify.originalReferenceNo, reason: 'finish-notify' },
+    );
+  }
+}
+
+@Injectable()
+export class ClosedNotifyHandler implements FinishNotifyHandler {
+  readonly statuses = ['05', '06'];
+
+  constructor(private readonly orderService: OrderService) {}
+
+  async handle(notify: FinishNotifyDto, order: Order): Promise<void> {
+    let status = DANA_TRANSACTION_STATUS[notify.latestTransactionStatus];
+    // DANA reports an order closed by its own timeout as cancelled
+    if (
+      status === OrderStatus.CANCELLED &&
+      order.expiresAt &&
+      order.expiresAt.getTime() <= Date.now()
+    ) {
+      status = OrderStatus.EXPIRED;
+    }
+    await this.orderService.syncStatus(order.partnerReferenceNo, status, {
+      referenceNo: notify.originalReferenceNo,
+      rawResponse: instanceToPlain(notify),
+      reason: notify.transactionStatusDesc || 'finish-notify',
+    });
+  }
+}
+
+@Injectable()
+export class RefundNotifyHandler implements FinishNotifyHandler {
+  private readonly logger = new Logger(RefundNotifyHandler.name);
+  readonly statuses = ['04'];
+
+  constructor(private readonly refundService: RefundService) {}
+
+  async handle(notify: FinishNotifyDto, order: Order): Promise<void> {
+    const history = notify.additionalInfo?.refundHistory || [];
+    const known = await this.refundService.findByOrder(order.id);
+
+    for (const item of history) {
+      const refund = known.find(
+        (r) => r.partnerRefundNo === item.partnerRefundNo,
+      );
+      if (!refund) {
+        this.logger.warn(
+          `Refund ${item.partnerRefundNo || item.refundNo} of order ${order.partnerReferenceNo} is not in our ledger`,
+        );
+        continue;
+      }
+      const status = `${item.refundStatus}`.toUpperCase();
+      if (status !== 'SUCCESS' && !status.startsWith('FAIL')) {
+        continue;
+      }
+      await this.refundService.complete(
+        refund.partnerRefundNo,
+        status === 'SUCCESS' ? RefundStatus.SUCCESS : RefundStatus.FAILED,
+        {
+          refundNo: item.refundNo,
+          rawResponse: { ...item },
+          refundedAt: item.refundDate ? new Date(item.refundDate) : undefined,
+        },
+      );
+    }
+  }
+}
@@ -0,0 +1,217 @@
+import { Prisma, WebhookInbox, WebhookInboxStatus } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { NotifyResult } from './webhook.dto';
+import { InboundWebhook, WebhookInboxService } from './webhook.inbox.service';
+import { WebhookService } from './webhook.service';
+
+describe('WebhookInboxService', () => {
+  const payload = {
+    originalPartnerReferenceNo: 'order-1',
+    originalReferenceNo: 'dana-1',
+    latestTransactionStatus: '00',
+  };
+  const inbound: InboundWebhook = {
+    merchantId: 'merchant-1',
+    rawBody: JSON.stringify(payload),
+    headers: {},
+    payload,
+    verification: { valid: true },
+  };
+  const answer = (httpStatus: number, responseMessage: string) => ({
+    httpStatus,
+    response: { responseCode: `${httpStatus}5600`, responseMessage },
+  });
+  const ok = answer(200, 'Successful');
+
+  let rows: Map<string, WebhookInbox>;
+  let inbox: ReturnType<typeof webhookInbox>;
+  let handleFinishNotify: jest.Mock<Promise<NotifyResult>>;
+  let service: WebhookInboxService;
+
+  // the subset of prisma.webhookInbox the inbox uses, in memory
+  const webhookInbox = () => {
+    const byKey = (key: string) =>
+      [...rows.values()].find((row) => row.dedupeKey === key);
+    const apply = (row: WebhookInbox, data: Record<string, any>) => {
+      const updated = { ...row, updatedAt: new Date() };
+      Object.entries(data).forEach(([field, value]) => {
+        updated[field] =
+          value?.increment !== undefined ? row[field] + value.increment : value;
+      });
+      rows.set(row.id, updated);
+      return updated;
+    };
+    return {
+      create: jest.fn(async ({ data }) => {
+        if (data.dedupeKey && byKey(data.dedupeKey)) {
+          throw new Prisma.PrismaClientKnownRequestError('duplicate', {
+            code: 'P2002',
+            clientVersion: 'test',
+          });
+        }
+        const row = {
+          id: `inbox-${rows.size + 1}`,
+          status: WebhookInboxStatus.RECEIVED,
+          deliveries: 1,
+          attempts: 0,
+          response: null,
+          httpStatus: null,
+          ...data,
+        } as WebhookInbox;
+        return apply(row, {});
+      }),
+      findUnique: jest.fn(async ({ where }) =>
+        where.id ? rows.get(where.id) : byKey(where.dedupeKey),
+      ),
+      update: jest.fn(async ({ where, data }) =>
+        apply(rows.get(where.id), data),
+      ),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const row = rows.get(where.id);
+        if (row.updatedAt.getTime() !== where.updatedAt.getTime()) {
+          return { count: 0 };
+        }
+        apply(row, data);
+        return { count: 1 };
+      }),
+    };
+  };
+
+  const only = () => [...rows.values()][0];
+  const age = (minutes: number) => {
+    const row = only();
+    rows.set(row.id, {
+      ...row,
+      updatedAt: new Date(Date.now() - minutes * 60 * 1000),
+    });
+  };
+
+  beforeEach(() => {
+    rows = new Map();
+    inbox = webhookInbox();
+    handleFinishNotify = jest.fn().mockResolvedValue(ok);
+    service = new WebhookInboxService(
+      { webhookInbox: inbox } as unknown as PrismaService,
+      {
+        handleFinishNotify,
+        serverError: jest.fn(async (_, message = 'Internal Server Error') =>
+          answer(500, message),
+        ),
+        unauthorized: jest.fn(async () => answer(401, 'Unauthorized')),
+      } as Partial<WebhookService> as WebhookService,
+    );
+  });
+
+  it('should store and apply a new notification', async () => {
+    await expect(service.receive(inbound)).resolves.toEqual(ok);
+
+    expect(handleFinishNotify).toHaveBeenCalledWith(payload, 'merchant-1');
+    expect(only()).toMatchObject({
+      dedupeKey: 'dana-1:00',
+      status: WebhookInboxStatus.PROCESSED,
+      httpStatus: 200,
+      response: ok.response,
+      attempts: 1,
+    });
+  });
+
+  it('should record a notification with a bad signature without applying it', async () => {
+    const result = await service.receive({
+      ...inbound,
+      verification: { valid: false, reason: 'signature mismatch' },
+    });
+
+    expect(result.httpStatus).toBe(401);
+    expect(handleFinishNotify).not.toHaveBeenCalled();
+    expect(only()).toMatchObject({
+      status: WebhookInboxStatus.REJECTED,
+      signatureError: 'signature mismatch',
+    });
+  });
+
+  describe('redeliveries', () => {
+    it('should answer a processed notification from the stored response', async () => {
+      await service.receive(inbound);
+
+      await expect(service.receive(inbound)).resolves.toEqual(ok);
+
+      expect(handleFinishNotify).toHaveBeenCalledTimes(1);
+      expect(only().deliveries).toBe(2);
+    });
+
+    it('should apply a processed notification again when its stored answer is unusable', async () => {
+      await service.receive(inbound);
+      rows.set(only().id, { ...only(), response: 'Successful' });
+
+      await expect(service.receive(inbound)).resolves.toEqual(ok);
+
+      expect(handleFinishNotify).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not apply a notification another delivery is applying', async () => {
+      let finish: (result: NotifyResult) => void;
+      handleFinishNotify.mockReturnValueOnce(
+        new Promise((resolve) => (finish = resolve)),
+      );
+      const first = service.receive(inbound);
+      await new Promise(setImmediate);
+
+      const second = await service.receive(inbound);
+      finish(ok);
+
+      expect(second).toEqual(answer(500, 'Notification Is Being Processed'));
+      await expect(first).resolves.toEqual(ok);
+      expect(handleFinishNotify).toHaveBeenCalledTimes(1);
+      expect(only()).toMatchObject({
+        status: WebhookInboxStatus.PROCESSED,
+        deliveries: 2,
+      });
+    });
+
+    it('should answer a delivery that loses the insert race as in flight', async () => {
+      // both deliveries looked the key up before either inserted it
+      inbox.findUnique.mockResolvedValueOnce(null);
+      await service.receive(inbound);
+      inbox.findUnique.mockResolvedValueOnce(null);
+
+      await expect(service.receive(inbound)).resolves.toEqual(
+        answer(500, 'Notification Is Being Processed'),
+      );
+      expect(handleFinishNotify).toHaveBeenCalledTimes(1);
+    });
+
+    it('should take over a notification whose delivery died', async () => {
+      handleFinishNotify.mockReturnValueOnce(new Promise(() => undefined));
+      service.receive(inbound);
+      await new Promise(setImmediate);
+      age(5);
+
+      await expect(service.receive(inbound)).resolves.toEqual(ok);
+
+      expect(handleFinishNotify).toHaveBeenCalledTimes(2);
+      expect(only().status).toBe(WebhookInboxStatus.PROCESSED);
+    });
+
+    it('should retry a notification that failed', async () => {
+      handleFinishNotify.mockRejectedValueOnce(new Error('db down'));
+      await expect(service.receive(inbound)).resolves.toEqual(
+        answer(500, 'Internal Server Error'),
+      );
+      expect(only()).toMatchObject({
+        status: WebhookInboxStatus.FAILED,
+        lastError: 'db down',
+      });
+
+      await expect(service.receive(inbound)).resolves.toEqual(ok);
+
+      expect(handleFinishNotify).toHaveBeenCalledTimes(2);
+      expect(only()).toMatchObject({
+        status: WebhookInboxStatus.PROCESSED,
+        deliveries: 2,
+        attempts: 2,
+        lastError: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, WebhookInbox, WebhookInboxStatus } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { DanaWebhookVerification } from '../dana/dana.webhook.verifier';
+import { NotifyResponseDto, NotifyResult } from './webhook.dto';
+import { WebhookService } from './webhook.service';
+
+// a RECEIVED entry untouched this long belongs to a delivery that died
+const IN_FLIGHT_TIMEOUT_MS = 2 * 60 * 1000;
+
+export interface InboundWebhook {
+  merchantId: string;
+  rawBody: string;
+  headers: Record<string, any>;
+  payload: Record<string, any>;
+  verification: DanaWebhookVerification;
+}
+
+/**
+ * Stores every DANA notification before applying it. DANA retries until it
+ * gets a 2xx, so a delivery whose key was already PROCESSED is answered with
+ * the stored response instead of being applied again, and one arriving while
+ * an earlier delivery is still being applied is told to come back later.
+ */
+@Injectable()
+export class WebhookInboxService {
+  private readonly logger = new Logger(WebhookInboxService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly webhookService: WebhookService,
+  ) {}
+
+  async receive(inbound: InboundWebhook): Promise<NotifyResult> {
+    const { payload, verification } = inbound;
+
+    if (!verification.valid) {
+      const result = await this.webhookService.unauthorized(payload);
+      await this.prisma.webhookInbox.create({
+        data: {
+          ...this.describe(inbound),
+          status: WebhookInboxStatus.REJECTED,
+          httpStatus: result.httpStatus,
+          responseCode: result.response.responseCode,
+          response: { ...result.response },
+        },
+      });
+      return result;
+    }
+
+    const dedupeKey = this.dedupeKey(payload);
+    let entry = dedupeKey
+      ? await this.prisma.webhookInbox.findUnique({ where: { dedupeKey } })
+      : null;
+
+    if (entry) {
+      const stored =
+        entry.status === WebhookInboxStatus.PROCESSED
+          ? this.storedResult(entry)
+          : null;
+      if (stored) {
+        await this.countDelivery(entry);
+        this.logger.log(
+          `Duplicate DANA notification ${dedupeKey} acknowledged`,
+        );
+        return stored;
+      }
+      if (!(await this.claim(entry))) {
+        this.logger.warn(`DANA notification ${dedupeKey} already in flight`);
+        return this.inFlight(payload);
+      }
+    } else {
+      try {
+        entry = await this.prisma.webhookInbox.create({
+          data: { ...this.describe(inbound), dedupeKey },
+        });
+      } catch (error) {
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002'
+        ) {
+          // a concurrent delivery of the same notification won the insert
+          this.logger.warn(`DANA notification ${dedupeKey} already in flight`);
+          return this.inFlight(payload);
+        }
+        throw error;
+      }
+    }
+
+    return this.process(entry);
+  }
+
+  /**
+   * Re-run a stored notification, e.g. after fixing a handler bug
+   */
+  async replay(id: string): Promise<WebhookInbox> {
+    const entry = await this.prisma.webhookInbox.findUnique({ where: { id } });
+    if (!entry) {
+      throw new NotFoundException(`Webhook ${id} not found`);
+    }
+    if (!entry.signatureValid) {
+      throw new ConflictException(
+        `Webhook ${id} failed signature verification and cannot be replayed`,
+      );
+    }
+    await this.process(entry);
+    return this.prisma.webhookInbox.findUnique({ where: { id } });
+  }
+
+  private async process(entry: WebhookInbox): Promise<NotifyResult> {
+    let result: NotifyResult;
+    try {
+      result = await this.webhookService.handleFinishNotify(
+        JSON.parse(entry.rawBody),
+        entry.merchantId ?? undefined,
+      );
+    } catch (error) {
+      this.logger.error(`Webhook ${entry.id} crashed: ${error.message}`);
+      result = await this.webhookService.serverError({
+        originalPartnerReferenceNo: entry.partnerReferenceNo,
+      });
+      await this.prisma.webhookInbox.update({
+        where: { id: entry.id },
+        data: {
+          status: WebhookInboxStatus.FAILED,
+          attempts: { increment: 1 },
+          lastError: error.message,
+        },
+      });
+      return result;
+    }
+
+    const succeeded = result.httpStatus < 500;
+    await this.prisma.webhookInbox.update({
+      where: { id: entry.id },
+      data: {
+        status: succeeded
+          ? WebhookInboxStatus.PROCESSED
+          : WebhookInboxStatus.FAILED,
+        httpStatus: result.httpStatus,
+        responseCode: result.response.responseCode,
+        response: { ...result.response },
+        attempts: { increment: 1 },
+        lastError: succeeded ? null : result.response.responseMessage,
+        processedAt: succeeded ? new Date() : null,
+      },
+    });
+    return result;
+  }
+
+  /**
+   * Take over a known notification that is not being applied right now: a
+   * FAILED one, a PROCESSED one without a usable answer, or a RECEIVED one
+   * whose delivery died. The updatedAt check lets one delivery win.
+   */
+  private async claim(entry: WebhookInbox): Promise<boolean> {
+    const inFlight =
+      entry.status === WebhookInboxStatus.RECEIVED &&
+      Date.now() - entry.updatedAt.getTime() < IN_FLIGHT_TIMEOUT_MS;
+    if (inFlight) {
+      await this.countDelivery(entry);
+      return false;
+    }
+    const { count } = await this.prisma.webhookInbox.updateMany({
+      where: { id: entry.id, updatedAt: entry.updatedAt },
+      data: {
+        status: WebhookInboxStatus.RECEIVED,
+        deliveries: { increment: 1 },
+      },
+    });
+    return count > 0;
+  }
+
+  private async countDelivery(entry: WebhookInbox): Promise<void> {
+    await this.prisma.webhookInbox.update({
+      where: { id: entry.id },
+      data: { deliveries: { increment: 1 } },
+    });
+  }
+
+  // answered 5xx so DANA delivers it again once the running one is done
+  private inFlight(payload: Record<string, any>): Promise<NotifyResult> {
+    return this.webhookService.serverError(
+      payload,
+      'Notification Is Being Processed',
+    );
+  }
+
+  private storedResult(entry: WebhookInbox): NotifyResult | null {
+    const response = entry.response;
+    if (!entry.httpStatus || !this.isNotifyResponse(response)) {
+      this.logger.warn(`Webhook ${entry.id} has no usable stored answer`);
+      return null;
+    }
+    return {
+      httpStatus: entry.httpStatus,
+      response: {
+        responseCode: response.responseCode,
+        responseMessage: response.responseMessage,
+      },
+    };
+  }
+
+  private isNotifyResponse(
+    value: Prisma.JsonValue,
+  ): value is Prisma.JsonObject & NotifyResponseDto {
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value) &&
+      typeof value.responseCode === 'string' &&
+      typeof value.responseMessage === 'string'
+    );
+  }
+
+  private describe(inbound: InboundWebhook) {
+    const { payload, verification } = inbound;
+    return {
+      merchantId: inbound.merchantId,
+      partnerReferenceNo: this.asString(payload?.originalPartnerReferenceNo),
+      referenceNo: this.asString(payload?.originalReferenceNo),
+      transactionStatus: this.asString(payload?.latestTransactionStatus),
+      rawBody: inbound.rawBody,
+      headers: inbound.headers,
+      signatureValid: verification.valid,
+      signatureError: verification.reason,
+    };
+  }
+
+  // refunds share status 04, so each refund outcome gets its own key
+  private dedupeKey(payload: Record<string, any>): string | null {
+    const reference =
+      this.asString(payload?.originalReferenceNo) ||
+      this.asString(payload?.originalPartnerReferenceNo);
+    const status = this.asString(payload?.latestTransactionStatus);
+    if (!reference || !status) {
+      return null;
+    }
+    const refunds = Array.isArray(payload.additionalInfo?.refundHistory)
+      ? payload.additionalInfo.refundHistory
+          .map((r) => `${r.partnerRefundNo || r.refundNo}=${r.refundStatus}`)
+          .sort()
+          .join(',')
+      : '';
+    return refunds
+      ? `${reference}:${status}:${refunds}`
+      : `${reference}:${status}`;
+  }
+
+  private asString(value: unknown): string | undefined {
+    return typeof value === 'string' && value ? value : undefined;
+  }
+}
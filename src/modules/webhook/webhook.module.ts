@@ -0,0 +1,43 @@
+import { Module } from '@nestjs/common';
+
+import { PrismaModule } from '../prisma/prisma.module';
+import { OrderModule } from '../order/order.module';
+import { RefundModule } from '../refund/refund.module';
+import { MerchantModule } from '../merchant/merchant.module';
+import { DanaWebhookVerifier } from '../dana/dana.webhook.verifier';
+import { WebhookController } from './webhook.controller';
+import { WebhookService } from './webhook.service';
+import { WebhookInboxService } from './webhook.inbox.service';
+import {
+  ClosedNotifyHandler,
+  FINISH_NOTIFY_HANDLERS,
+  PaidNotifyHandler,
+  PendingNotifyHandler,
+  RefundNotifyHandler,
+} from './webhook.handlers';
+
+@Module({
+  imports: [PrismaModule, OrderModule, RefundModule, MerchantModule],
+  providers: [
+    WebhookService,
+    WebhookInboxService,
+    DanaWebhookVerifier,
+    PaidNotifyHandler,
+    PendingNotifyHandler,
+    ClosedNotifyHandler,
+    RefundNotifyHandler,
+    {
+      provide: FINISH_NOTIFY_HANDLERS,
+      useFactory: (...handlers) => handlers,
+      inject: [
+        PaidNotifyHandler,
+        PendingNotifyHandler,
+        ClosedNotifyHandler,
+        RefundNotifyHandler,
+      ],
+    },
+  ],
+  controllers: [WebhookController],
+  exports: [WebhookService],
+})
+export class WebhookModule {}
@@ -0,0 +1,283 @@
+import { NotFoundException } from '@nestjs/common';
+import {
+  Order,
+  OrderStatus,
+  OrderType,
+  Prisma,
+  RefundStatus,
+} from '@prisma/client';
+
+import { OrderService } from '../order/order.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RefundService } from '../refund/refund.service';
+import {
+  ClosedNotifyHandler,
+  PaidNotifyHandler,
+  PendingNotifyHandler,
+  RefundNotifyHandler,
+} from './webhook.handlers';
+import { WebhookService } from './webhook.service';
+
+describe('WebhookService', () => {
+  const notify = (latestTransactionStatus: string, extra = {}) => ({
+    originalPartnerReferenceNo: 'order-1',
+    originalReferenceNo: 'dana-1',
+    latestTransactionStatus,
+    amount: { value: '10000.00', currency: 'IDR' },
+    ...extra,
+  });
+
+  let order: Order;
+  let syncStatus: jest.Mock;
+  let flagPaymentMismatch: jest.Mock;
+  let refundService: { findByOrder: jest.Mock; complete: jest.Mock };
+  let service: WebhookService;
+
+  beforeEach(() => {
+    order = {
+      id: 'order-id',
+      merchantId: 'merchant-1',
+      partnerReferenceNo: 'order-1',
+      type: OrderType.QRIS,
+      amount: new Prisma.Decimal('10000.00'),
+      currency: 'IDR',
+      status: OrderStatus.PENDING,
+      expiresAt: new Date(Date.now() + 60 * 1000),
+    } as Order;
+    syncStatus = jest.fn();
+    flagPaymentMismatch = jest.fn();
+    refundService = {
+      findByOrder: jest.fn(async () => [
+        { partnerRefundNo: 'r-1' },
+        { partnerRefundNo: 'r-2' },
+      ]),
+      complete: jest.fn(),
+    };
+    const orderService = {
+      syncStatus,
+      flagPaymentMismatch,
+    } as Partial<OrderService> as OrderService;
+    service = new WebhookService(
+      {
+        order: {
+          findUnique: jest.fn(async ({ where }) =>
+            where.partnerReferenceNo === order.partnerReferenceNo &&
+            [undefined, order.merchantId].includes(where.merchantId)
+              ? order
+              : null,
+          ),
+        },
+      } as unknown as PrismaService,
+      [
+        new PaidNotifyHandler(orderService),
+        new PendingNotifyHandler(orderService),
+        new ClosedNotifyHandler(orderService),
+        new RefundNotifyHandler(refundService as unknown as RefundService),
+      ],
+    );
+  });
+
+  it('should answer a bad signature with 401 and the QRIS service code', async () => {
+    await expect(service.unauthorized(notify('00'))).resolves.toEqual({
+      httpStatus: 401,
+      response: {
+        responseCode: '4015200',
+        responseMessage: 'Unauthorized. Invalid Signature',
+      },
+    });
+  });
+
+  it('should mark an order paid', async () => {
+    const result = await service.handleFinishNotify(
+      notify('00', {
+        finishedTime: '2024-05-02T17:00:00+07:00',
+        additionalInfo: {
+          paymentInfo: {
+            payMethod: 'BALANCE',
+            paidTime: '2024-05-02T16:59:00+07:00',
+          },
+        },
+      }),
+      'merchant-1',
+    );
+
+    expect(result).toEqual({
+      httpStatus: 200,
+      response: { responseCode: '2005200', responseMessage: 'Successful' },
+    });
+    expect(syncStatus).toHaveBeenCalledWith('order-1', OrderStatus.PAID, {
+      referenceNo: 'dana-1',
+      rawResponse: expect.objectContaining({ latestTransactionStatus: '00' }),
+      reason: 'finish-notify',
+      paidAmount: '10000.00',
+      payMethod: 'BALANCE',
+      payOption: undefined,
+      paidAt: new Date('2024-05-02T09:59:00Z'),
+    });
+  });
+
+  it.each([
+    ['less', { value: '9999.99', currency: 'IDR' }],
+    ['more', { value: '10000.01', currency: 'IDR' }],
+    ['another currency', { value: '10000.00', currency: 'USD' }],
+  ])(
+    'should flag a payment of %s instead of marking the order paid',
+    async (_, amount) => {
+      const result = await service.handleFinishNotify(
+        notify('00', { amount }),
+        'merchant-1',
+      );
+
+      expect(result.httpStatus).toBe(200);
+      expect(flagPaymentMismatch).toHaveBeenCalledWith(order, amount);
+      expect(syncStatus).not.toHaveBeenCalled();
+    },
+  );
+
+  it('should accept the amount of the order written differently', async () => {
+    await service.handleFinishNotify(
+      notify('00', { amount: { value: '10000', currency: 'IDR' } }),
+      'merchant-1',
+    );
+
+    expect(flagPaymentMismatch).not.toHaveBeenCalled();
+    expect(syncStatus).toHaveBeenCalledWith(
+      'order-1',
+      OrderStatus.PAID,
+      expect.any(Object),
+    );
+  });
+
+  it.each(['01', '02', '03'])(
+    'should keep an order pending on %s',
+    async (status) => {
+      await service.handleFinishNotify(notify(status), 'merchant-1');
+
+      expect(syncStatus).toHaveBeenCalledWith('order-1', OrderStatus.PENDING, {
+        referenceNo: 'dana-1',
+        reason: 'finish-notify',
+      });
+    },
+  );
+
+  it.each([
+    ['05', OrderStatus.CANCELLED],
+    ['06', OrderStatus.FAILED],
+  ])('should close an order on %s', async (status, expected) => {
+    await service.handleFinishNotify(
+      notify(status, { transactionStatusDesc: 'closed by DANA' }),
+      'merchant-1',
+    );
+
+    expect(syncStatus).toHaveBeenCalledWith('order-1', expected, {
+      referenceNo: 'dana-1',
+      rawResponse: expect.any(Object),
+      reason: 'closed by DANA',
+    });
+  });
+
+  it('should expire an order DANA cancelled after it ran out', async () => {
+    order.expiresAt = new Date(Date.now() - 1000);
+
+    await service.handleFinishNotify(notify('05'), 'merchant-1');
+
+    expect(syncStatus).toHaveBeenCalledWith(
+      'order-1',
+      OrderStatus.EXPIRED,
+      expect.any(Object),
+    );
+  });
+
+  it('should settle the refunds it knows and skip the rest', async () => {
+    await service.handleFinishNotify(
+      notify('04', {
+        additionalInfo: {
+          refundHistory: [
+            {
+              partnerRefundNo: 'r-1',
+              refundNo: 'dana-r-1',
+              refundStatus: 'SUCCESS',
+              refundDate: '2024-05-03T10:00:00+07:00',
+            },
+            { partnerRefundNo: 'r-2', refundStatus: 'FAIL' },
+            { partnerRefundNo: 'r-3', refundStatus: 'SUCCESS' },
+            { partnerRefundNo: 'r-1', refundStatus: 'PROCESSING' },
+          ],
+        },
+      }),
+      'merchant-1',
+    );
+
+    expect(refundService.findByOrder).toHaveBeenCalledWith('order-id');
+    expect(refundService.complete).toHaveBeenCalledTimes(2);
+    expect(refundService.complete).toHaveBeenCalledWith(
+      'r-1',
+      RefundStatus.SUCCESS,
+      expect.objectContaining({
+        refundNo: 'dana-r-1',
+        refundedAt: new Date('2024-05-03T03:00:00Z'),
+      }),
+    );
+    expect(refundService.complete).toHaveBeenCalledWith(
+      'r-2',
+      RefundStatus.FAILED,
+      expect.any(Object),
+    );
+    expect(syncStatus).not.toHaveBeenCalled();
+  });
+
+  it('should reject a notification missing mandatory fields', async () => {
+    const result = await service.handleFinishNotify(
+      { ...notify('00'), amount: { value: 'ten', currency: 'IDR' } },
+      'merchant-1',
+    );
+
+    expect(result).toEqual({
+      httpStatus: 400,
+      response: {
+        responseCode: '4005202',
+        responseMessage: 'Invalid Mandatory Field amount',
+      },
+    });
+    expect(syncStatus).not.toHaveBeenCalled();
+  });
+
+  it("should not find another tenant's order", async () => {
+    const result = await service.handleFinishNotify(notify('00'), 'merchant-2');
+
+    expect(result.response.responseCode).toBe('4045201');
+    expect(syncStatus).not.toHaveBeenCalled();
+  });
+
+  it('should answer 5xx when applying the notification fails', async () => {
+    syncStatus.mockRejectedValueOnce(new Error('db down'));
+
+    const result = await service.handleFinishNotify(notify('00'), 'merchant-1');
+
+    expect(result.httpStatus).toBe(500);
+    expect(result.response.responseCode).toBe('5005201');
+  });
+
+  it('should answer 404 when the handler cannot find the order', async () => {
+    syncStatus.mockRejectedValueOnce(new NotFoundException());
+
+    const result = await service.handleFinishNotify(notify('00'), 'merchant-1');
+
+    expect(result.response.responseCode).toBe('4045201');
+  });
+
+  it('should acknowledge a status no handler takes', async () => {
+    const result = await service.handleFinishNotify(notify('07'), 'merchant-1');
+
+    expect(result.httpStatus).toBe(200);
+    expect(syncStatus).not.toHaveBeenCalled();
+  });
+
+  it('should use the debit service code for payment gateway orders', async () => {
+    order.type = OrderType.PAYMENT_GATEWAY;
+
+    const result = await service.handleFinishNotify(notify('00'), 'merchant-1');
+
+    expect(result.response.responseCode).toBe('2005600');
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { OrderType } from '@prisma/client';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { FinishNotifyDto, NotifyResult } from './webhook.dto';
+import {
+  FINISH_NOTIFY_HANDLERS,
+  FinishNotifyHandler,
+} from './webhook.handlers';
+
+// SNAP service codes of the finish-notify APIs
+const QRIS_NOTIFY_SERVICE = '52';
+const DEBIT_NOTIFY_SERVICE = '56';
+
+@Injectable()
+export class WebhookService {
+  private readonly logger = new Logger(WebhookService.name);
+  private readonly handlers = new Map<string, FinishNotifyHandler>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(FINISH_NOTIFY_HANDLERS) handlers: FinishNotifyHandler[],
+  ) {
+    handlers.forEach((handler) => this.register(handler));
+  }
+
+  register(handler: FinishNotifyHandler): void {
+    handler.statuses.forEach((status) => this.handlers.set(status, handler));
+  }
+
+  /**
+   * Apply a DANA finish-notify and build the SNAP answer. Anything but a
+   * 2xx makes DANA retry, so only our own failures answer 5xx. Orders of
+   * other tenants than the one the notify was routed to are not found.
+   */
+  async handleFinishNotify(
+    payload: Record<string, any>,
+    merchantId?: string,
+  ): Promise<NotifyResult> {
+    const serviceCode = await this.serviceCode(payload);
+    const notify = plainToInstance(FinishNotifyDto, payload);
+    const errors = await validate(notify);
+    if (errors.length) {
+      const fields = errors.map((e) => e.property).join(', ');
+      return this.respond(
+        HttpStatus.BAD_REQUEST,
+        serviceCode,
+        '02',
+        `Invalid Mandatory Field ${fields}`,
+      );
+    }
+
+    const order = await this.prisma.order.findUnique({
+      where: {
+        partnerReferenceNo: notify.originalPartnerReferenceNo,
+        merchantId,
+      },
+    });
+    if (!order) {
+      return this.respond(
+        HttpStatus.NOT_FOUND,
+        serviceCode,
+        '01',
+        'Transaction Not Found',
+      );
+    }
+
+    const handler = this.handlers.get(notify.latestTransactionStatus);
+    if (!handler) {
+      this.logger.warn(
+        `No handler for status ${notify.latestTransactionStatus} of order ${order.partnerReferenceNo}`,
+      );
+      return this.respond(HttpStatus.OK, serviceCode, '00', 'Successful');
+    }
+
+    try {
+      await handler.handle(notify, order);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        return this.respond(
+          HttpStatus.NOT_FOUND,
+          serviceCode,
+          '01',
+          'Transaction Not Found',
+        );
+      }
+      this.logger.error(
+        `Finish-notify for ${order.partnerReferenceNo} failed: ${error.message}`,
+      );
+      return this.serverError(payload);
+    }
+
+    return this.respond(HttpStatus.OK, serviceCode, '00', 'Successful');
+  }
+
+  async unauthorized(payload: Record<string, any>): Promise<NotifyResult> {
+    return this.respond(
+      HttpStatus.UNAUTHORIZED,
+      await this.serviceCode(payload),
+      '00',
+      'Unauthorized. Invalid Signature',
+    );
+  }
+
+  // a 5xx answer makes DANA deliver the notification again later
+  async serverError(
+    payload: Record<string, any>,
+    responseMessage = 'Internal Server Error',
+  ): Promise<NotifyResult> {
+    return this.respond(
+      HttpStatus.INTERNAL_SERVER_ERROR,
+      await this.serviceCode(payload),
+      '01',
+      responseMessage,
+    );
+  }
+
+  private respond(
+    httpStatus: number,
+    serviceCode: string,
+    caseCode: string,
+    responseMessage: string,
+  ): NotifyResult {
+    return {
+      httpStatus,
+      response: {
+        responseCode: `${httpStatus}${serviceCode}${caseCode}`,
+        responseMessage,
+      },
+    };
+  }
+
+  private async serviceCode(payload: Record<string, any>): Promise<string> {
+    const partnerReferenceNo = payload?.originalPartnerReferenceNo;
+    if (typeof partnerReferenceNo !== 'string') {
+      return DEBIT_NOTIFY_SERVICE;
+    }
+    const order = await this.prisma.order.findUnique({
+      where: { partnerReferenceNo },
+      select: { type: true },
+    });
+    return order?.type === OrderType.QRIS
+      ? QRIS_NOTIFY_SERVICE
+      : DEBIT_NOTIFY_SERVICE;
+  }
+}
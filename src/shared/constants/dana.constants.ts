@@ -0,0 +1,80 @@
+import { OrderStatus } from '@prisma/client';
+
+// switched with DANA_ENV, DANA_BASE_URL overrides both (e.g. the simulator)
+export const DANA_BASE_URLS = {
+  sandbox: 'https://api.sandbox.dana.id',
+  production: 'https://api.saas.dana.id',
+};
+
+// where buyers authorize account binding, DANA_OAUTH_URL overrides both
+export const DANA_OAUTH_URLS = {
+  sandbox: 'https://m.sandbox.dana.id',
+  production: 'https://m.dana.id',
+};
+
+// what a bound account lets us do, DANA_OAUTH_SCOPES overrides it
+export const DANA_DEFAULT_OAUTH_SCOPES = [
+  'CASHIER',
+  'AGREEMENT_PAY',
+  'QUERY_BALANCE',
+  'DEFAULT_BASIC_PROFILE',
+];
+
+// SNAP `latestTransactionStatus` values returned by query and notify APIs
+export const DANA_TRANSACTION_STATUS: Record<string, OrderStatus> = {
+  '00': OrderStatus.PAID, // SUCCESS
+  '01': OrderStatus.PENDING, // INITIATED
+  '02': OrderStatus.PENDING, // PAYING
+  '03': OrderStatus.PENDING, // PENDING
+  '05': OrderStatus.CANCELLED, // CANCELLED
+  '06': OrderStatus.FAILED, // FAILED
+  // '04' REFUNDED follows any refund, partial ones too: REFUNDED is left to
+  // the refund ledger, which sets it once the full amount is refunded.
+  // '07' NOT FOUND is deliberately left out, it must not touch our record
+};
+
+// latestTransactionStatus of an order DANA never received
+export const DANA_NOT_FOUND_STATUS = '07';
+
+// create-order without a chosen pay method
+export const DANA_DEFAULT_PAY_OPTION = {
+  payMethod: 'NETWORK_PAY',
+  payOption: 'NETWORK_PAY_PG_OVO',
+};
+
+// create-order charging a bound account without a chosen pay method
+export const DANA_BOUND_PAY_OPTION = {
+  payMethod: 'BALANCE',
+};
+
+// names shown for consult-pay results, unknown codes are shown as they are
+export const DANA_PAY_METHOD_LABELS: Record<string, string> = {
+  BALANCE: 'DANA balance',
+  COUPON: 'DANA coupon',
+  NETWORK_PAY: 'E-wallet',
+  VIRTUAL_ACCOUNT: 'Virtual account',
+  CREDIT_CARD: 'Credit card',
+  DEBIT_CARD: 'Debit card',
+  DIRECT_DEBIT_CREDIT_CARD: 'Credit card (direct debit)',
+  DIRECT_DEBIT_DEBIT_CARD: 'Debit card (direct debit)',
+  ONLINE_CREDIT: 'Online credit',
+  OTC: 'Over the counter',
+};
+
+export const DANA_PAY_OPTION_LABELS: Record<string, string> = {
+  NETWORK_PAY_PG_OVO: 'OVO',
+  NETWORK_PAY_PG_GOPAY: 'GoPay',
+  NETWORK_PAY_PG_SPAY: 'ShopeePay',
+  NETWORK_PAY_PG_LINKAJA: 'LinkAja',
+  NETWORK_PAY_PG_QRIS: 'QRIS',
+  NETWORK_PAY_PG_CARD: 'Card',
+  VIRTUAL_ACCOUNT_BCA: 'BCA',
+  VIRTUAL_ACCOUNT_BNI: 'BNI',
+  VIRTUAL_ACCOUNT_BRI: 'BRI',
+  VIRTUAL_ACCOUNT_MANDIRI: 'Mandiri',
+  VIRTUAL_ACCOUNT_PERMATA: 'Permata',
+  VIRTUAL_ACCOUNT_CIMB: 'CIMB Niaga',
+  VIRTUAL_ACCOUNT_BTPN: 'BTPN',
+  VIRTUAL_ACCOUNT_PANIN: 'Panin',
+  VIRTUAL_ACCOUNT_BSI: 'BSI',
+};
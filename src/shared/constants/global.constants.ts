@@ -3,6 +3,13 @@ require('dotenv').config();
 
 export const JWT_SECRET = process.env.JWT_ACCESS_TOKEN_SECRET;
 export const JWT_EXPIRY_SECONDS = 3600;
+// shared secret for operational endpoints (webhook replay, job history, ...)
+export const ADMIN_API_KEY = process.env.ADMIN_API_KEY;
+// lets /dana requests without an X-API-KEY act as the default merchant
+export const ALLOW_ANONYMOUS_MERCHANT =
+  process.env.ALLOW_ANONYMOUS_MERCHANT === 'true';
+// 32-byte key (base64) for secrets stored in the database
+export const DATA_ENCRYPTION_KEY = process.env.DATA_ENCRYPTION_KEY;
 
 export enum ROLES_ENUM {
   ADMIN = 'admin',
@@ -22,5 +29,7 @@ export const API_PREFIX = '/api/v1';
 
 //Regex
 export const PHONE_REGEX = /^[0-9\s+-.()]+$/;
+// positive decimal string with at most 2 decimals, e.g. "10000.00"
+export const AMOUNT_REGEX = /^(?!0+(\.0{1,2})?$)\d+(\.\d{1,2})?$/;
 
 export const SLUG_SEPARATOR = '-';
@@ -0,0 +1,42 @@
+import { parseCsv, toCsv } from './csv';
+
+describe('csv', () => {
+  it('should parse quoted fields', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n1,"two\nlines",3\n')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', 'two\nlines', '3'],
+    ]);
+  });
+
+  it('should drop the BOM and blank lines', () => {
+    expect(parseCsv('\uFEFFa,b\n\n , \n1,2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('should keep empty fields', () => {
+    expect(parseCsv('a,,c\n,,x')).toEqual([
+      ['a', '', 'c'],
+      ['', '', 'x'],
+    ]);
+  });
+
+  it('should quote what needs quoting', () => {
+    expect(toCsv([['a,b', 'say "hi"', 10, null]])).toBe(
+      '"a,b","say ""hi""",10,',
+    );
+  });
+
+  it('should defuse spreadsheet formulas', () => {
+    expect(toCsv([['=SUM(A1)', '@cmd', -5]])).toBe("'=SUM(A1),'@cmd,-5");
+  });
+
+  it('should round-trip its own output', () => {
+    const rows = [
+      ['ref', 'note'],
+      ['order-1', 'line one\nline two, "quoted"'],
+    ];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
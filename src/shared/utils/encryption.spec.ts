@@ -0,0 +1,28 @@
+import * as crypto from 'crypto';
+
+import { decrypt, encrypt } from './encryption';
+
+describe('encryption', () => {
+  const key = crypto.randomBytes(32).toString('base64');
+
+  it('should round-trip a secret', () => {
+    const encrypted = encrypt('client-secret', key);
+
+    expect(encrypted).not.toContain('client-secret');
+    expect(decrypt(encrypted, key)).toBe('client-secret');
+  });
+
+  it('should use a fresh IV for every value', () => {
+    expect(encrypt('same', key)).not.toBe(encrypt('same', key));
+  });
+
+  it('should reject a value encrypted with another key', () => {
+    const other = crypto.randomBytes(32).toString('base64');
+    expect(() => decrypt(encrypt('secret', other), key)).toThrow();
+  });
+
+  it('should refuse a missing or short key', () => {
+    expect(() => encrypt('secret', undefined)).toThrow(/DATA_ENCRYPTION_KEY/);
+    expect(() => encrypt('secret', 'c2hvcnQ=')).toThrow(/DATA_ENCRYPTION_KEY/);
+  });
+});
@@ -0,0 +1,64 @@
+import * as crypto from 'crypto';
+
+import { DATA_ENCRYPTION_KEY } from '../constants/global.constants';
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+
+function resolveKey(key: string | undefined): Buffer {
+  const buffer = key ? Buffer.from(key, 'base64') : Buffer.alloc(0);
+  if (buffer.length !== 32) {
+    throw new Error('DATA_ENCRYPTION_KEY must be 32 bytes, base64 encoded');
+  }
+  return buffer;
+}
+
+/**
+ * Fail fast at boot instead of on the first secret we store
+ */
+export function assertEncryptionKey(
+  key: string | undefined = DATA_ENCRYPTION_KEY,
+): void {
+  resolveKey(key);
+}
+
+/**
+ * AES-256-GCM encrypt a secret for storage, as `v1:<iv>:<tag>:<ciphertext>`
+ */
+export function encrypt(
+  plaintext: string,
+  key: string | undefined = DATA_ENCRYPTION_KEY,
+): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, resolveKey(key), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, 'utf8'),
+    cipher.final(),
+  ]);
+  return [
+    VERSION,
+    iv.toString('base64'),
+    cipher.getAuthTag().toString('base64'),
+    ciphertext.toString('base64'),
+  ].join(':');
+}
+
+export function decrypt(
+  value: string,
+  key: string | undefined = DATA_ENCRYPTION_KEY,
+): string {
+  const [version, iv, tag, ciphertext] = value.split(':');
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unsupported encrypted value');
+  }
+  const decipher = crypto.createDecipheriv(
+    ALGORITHM,
+    resolveKey(key),
+    Buffer.from(iv, 'base64'),
+  );
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
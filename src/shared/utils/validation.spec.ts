@@ -0,0 +1,66 @@
+import 'reflect-metadata';
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+
+import { CreateOrderDto } from '../../modules/dana/dana.dto';
+import { toFieldErrors, validationExceptionFactory } from './validation';
+
+describe('validation', () => {
+  const validate = (body: Record<string, any>) =>
+    validateSync(plainToInstance(CreateOrderDto, body));
+
+  it('should accept a valid order', () => {
+    expect(
+      validate({
+        amount: '15000.50',
+        items: [{ sku: 'A1', name: 'Ticket', price: '15000.50', quantity: 1 }],
+        returnUrl: 'https://shop.example/return',
+      }),
+    ).toHaveLength(0);
+  });
+
+  it('should key errors by field', () => {
+    const fields = toFieldErrors(
+      validate({ amount: 'abc', currency: 'USD', validityPeriod: 0 }),
+    );
+
+    expect(Object.keys(fields).sort()).toEqual([
+      'amount',
+      'currency',
+      'validityPeriod',
+    ]);
+    expect(fields.amount).toMatch(/positive amount/);
+  });
+
+  it('should reject amounts with more than 2 decimals or zero', () => {
+    expect(toFieldErrors(validate({ amount: '10.001' }))).toHaveProperty(
+      'amount',
+    );
+    expect(toFieldErrors(validate({ amount: '0.00' }))).toHaveProperty(
+      'amount',
+    );
+  });
+
+  it('should use dotted paths for nested fields', () => {
+    const fields = toFieldErrors(
+      validate({
+        amount: '100',
+        buyer: { externalUserId: 12 },
+        items: [{ sku: 'A1', name: 'Ticket', price: '-1', quantity: 0 }],
+      }),
+    );
+
+    expect(Object.keys(fields).sort()).toEqual([
+      'buyer.externalUserId',
+      'items.0.price',
+      'items.0.quantity',
+    ]);
+  });
+
+  it('should build an InvalidFormException', () => {
+    const exception = validationExceptionFactory(validate({}));
+
+    expect(exception.getStatus()).toBe(400);
+    expect(exception.getFieldErrors()).toHaveProperty('amount');
+  });
+});
@@ -0,0 +1,35 @@
+import { ValidationError } from 'class-validator';
+
+import { InvalidFormException } from '../../exceptions/invalid.form.exception';
+
+/**
+ * Flatten class-validator errors to one message per field, nested fields
+ * keyed by their path, e.g. `items.0.price`
+ */
+export function toFieldErrors(
+  errors: ValidationError[],
+  parent?: string,
+): { [key: string]: string } {
+  return errors.reduce((fields, error) => {
+    const path = parent ? `${parent}.${error.property}` : error.property;
+    if (error.constraints) {
+      // constraints are listed bottom-up, report the first declared one
+      const messages = Object.values(error.constraints);
+      fields[path] = messages[messages.length - 1];
+    }
+    if (error.children?.length) {
+      Object.assign(fields, toFieldErrors(error.children, path));
+    }
+    return fields;
+  }, {});
+}
+
+/**
+ * exceptionFactory of the global ValidationPipe, renders failures through
+ * InvalidFormExceptionFilter
+ */
+export function validationExceptionFactory(
+  errors: ValidationError[],
+): InvalidFormException {
+  return new InvalidFormException(toFieldErrors(errors), 'Invalid request');
+}
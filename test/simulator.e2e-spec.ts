@@ -0,0 +1,322 @@
+import {
+  Controller,
+  HttpCode,
+  INestApplication,
+  Post,
+  RawBodyRequest,
+  Req,
+} from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { HttpModule, HttpService } from '@nestjs/axios';
+import { Test } from '@nestjs/testing';
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { Request } from 'express';
+import { AddressInfo } from 'net';
+import * as request from 'supertest';
+
+import { DanaApiClient } from '../src/modules/dana/dana.api.client';
+import { danaConfig } from '../src/modules/dana/dana.config';
+import { DANA_ENDPOINTS } from '../src/modules/dana/dana.endpoints';
+import { DanaEnvInfo } from '../src/modules/dana/dana.interface';
+import { DanaResilience } from '../src/modules/dana/dana.resilience';
+import { DanaSignatureService } from '../src/modules/dana/dana.signature';
+import { DanaTokenProvider } from '../src/modules/dana/dana.token.provider';
+import { DanaWebhookVerifier } from '../src/modules/dana/dana.webhook.verifier';
+import { MerchantContext } from '../src/modules/merchant/merchant.interface';
+import { MerchantService } from '../src/modules/merchant/merchant.service';
+import { PrismaService } from '../src/modules/prisma/prisma.service';
+import { parseQris } from '../src/modules/qris/qris.parser';
+import { SimulatorController } from '../src/modules/simulator/simulator.controller';
+import { SimulatorService } from '../src/modules/simulator/simulator.service';
+import { API_PREFIX } from '../src/shared/constants/global.constants';
+
+interface CapturedNotify {
+  path: string;
+  rawBody: string;
+  timestamp: string;
+  signature: string;
+}
+
+const notifications: CapturedNotify[] = [];
+
+// stands in for our webhook route, keeps what the simulator pushed
+@Controller('merchant-webhook')
+class NotifyCaptureController {
+  @Post()
+  @HttpCode(200)
+  receive(@Req() req: RawBodyRequest<Request>) {
+    notifications.push({
+      path: req.path,
+      rawBody: req.rawBody.toString(),
+      timestamp: req.get('x-timestamp'),
+      signature: req.get('x-signature'),
+    });
+    return { responseCode: '2005600', responseMessage: 'Successful' };
+  }
+}
+
+describe('DANA simulator (e2e)', () => {
+  const keyPair = () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: 'pkcs8', format: 'der' },
+      publicKeyEncoding: { type: 'spki', format: 'der' },
+    });
+    return {
+      privateKey: privateKey.toString('base64'),
+      publicKey: publicKey.toString('base64'),
+    };
+  };
+  const ours = keyPair();
+  const dana = keyPair();
+  const merchant = {
+    id: 'merchant-1',
+    code: 'brand-a',
+    merchantId: '216620000000000000000',
+    clientId: 'client-a',
+    clientSecret: 'secret-a',
+    privateKey: ours.privateKey,
+    publicKey: ours.publicKey,
+    danaPublicKey: dana.publicKey,
+    channelId: '11111',
+    tokenChannelId: '95221',
+  } as MerchantContext;
+  const signatureService = new DanaSignatureService();
+
+  let app: INestApplication;
+  let config: ConfigType<typeof danaConfig>;
+  let client: DanaApiClient;
+
+  const generateQr = (partnerReferenceNo: string, value = '10000.00') =>
+    client.call(merchant, DANA_ENDPOINTS.qrisGenerate, {
+      merchantId: merchant.merchantId,
+      partnerReferenceNo,
+      amount: { value, currency: 'IDR' },
+      validityPeriod: signatureService.getTimestamp(
+        new Date(Date.now() + 30 * 60 * 1000),
+      ),
+      additionalInfo: { envInfo: {} as DanaEnvInfo },
+    });
+  const query = (partnerReferenceNo: string) =>
+    client.call(merchant, DANA_ENDPOINTS.qrisQuery, {
+      originalPartnerReferenceNo: partnerReferenceNo,
+      originalReferenceNo: '',
+      merchantId: merchant.merchantId,
+      serviceCode: '47',
+    });
+  const refund = (partnerReferenceNo: string, value: string) =>
+    client.call(merchant, DANA_ENDPOINTS.qrisRefund, {
+      originalPartnerReferenceNo: partnerReferenceNo,
+      originalReferenceNo: '',
+      partnerRefundNo: crypto.randomUUID(),
+      merchantId: merchant.merchantId,
+      refundAmount: { value, currency: 'IDR' },
+      reason: '',
+    });
+  const notify = (partnerReferenceNo: string, status = '00') =>
+    request(app.getHttpServer())
+      .post(
+        `${API_PREFIX}/simulator/control/orders/${partnerReferenceNo}/notify`,
+      )
+      .send({ status })
+      .expect(200);
+
+  // a correctly signed SNAP call, for checks the client would never fail
+  const signedCall = (path: string, body: object) => {
+    const timestamp = signatureService.getTimestamp();
+    const rawBody = JSON.stringify(body);
+    return request(app.getHttpServer())
+      .post(`${API_PREFIX}/simulator${path}`)
+      .set('Content-Type', 'application/json')
+      .set('X-TIMESTAMP', timestamp)
+      .set('X-PARTNER-ID', merchant.clientId)
+      .set(
+        'X-SIGNATURE',
+        signatureService.generateSignature(
+          signatureService.prepareSignatureData(
+            'POST',
+            path,
+            rawBody,
+            timestamp,
+          ),
+          merchant.privateKey,
+        ),
+      )
+      .send(rawBody);
+  };
+
+  beforeAll(async () => {
+    process.env.DANA_SIMULATOR_PRIVATE_KEY = dana.privateKey;
+    const moduleFixture = await Test.createTestingModule({
+      imports: [HttpModule],
+      controllers: [SimulatorController, NotifyCaptureController],
+      providers: [
+        SimulatorService,
+        {
+          provide: MerchantService,
+          useValue: {
+            findByClientId: async (clientId: string) =>
+              clientId === merchant.clientId ? merchant : null,
+          },
+        },
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication({ rawBody: true });
+    app.setGlobalPrefix(API_PREFIX);
+    await app.listen(0, '127.0.0.1');
+    const { port } = app.getHttpServer().address() as AddressInfo;
+    const host = `http://127.0.0.1:${port}`;
+    process.env.DANA_SIMULATOR_NOTIFY_URL = `${host}${API_PREFIX}/merchant-webhook`;
+
+    config = {
+      baseUrl: `${host}${API_PREFIX}/simulator`,
+      danaPublickKey: dana.publicKey,
+      tokenStore: 'memory',
+      tokenRefreshAheadSeconds: 60,
+      retryAttempts: 1,
+      retryBaseDelayMs: 1,
+      circuitFailureThreshold: 5,
+      circuitResetSeconds: 30,
+      webhookToleranceSeconds: 300,
+    } as ConfigType<typeof danaConfig>;
+    const httpService = new HttpService(axios.create());
+    const resilience = new DanaResilience(config);
+    client = new DanaApiClient(
+      config,
+      httpService,
+      new DanaTokenProvider(
+        config,
+        httpService,
+        {} as PrismaService,
+        resilience,
+      ),
+      resilience,
+    );
+  });
+
+  afterAll(async () => {
+    delete process.env.DANA_SIMULATOR_PRIVATE_KEY;
+    delete process.env.DANA_SIMULATOR_NOTIFY_URL;
+    await app.close();
+  });
+
+  beforeEach(() => {
+    notifications.length = 0;
+  });
+
+  it('should take an order from creation through payment to refunds', async () => {
+    const created = await generateQr('order-1');
+    expect(created).toMatchObject({
+      responseCode: '2004700',
+      partnerReferenceNo: 'order-1',
+    });
+    expect(parseQris(created.qrContent).amount).toBe('10000.00');
+    await expect(query('order-1')).resolves.toMatchObject({
+      latestTransactionStatus: '01',
+    });
+
+    await notify('order-1');
+    expect(notifications).toHaveLength(1);
+    const [delivered] = notifications;
+    expect(
+      new DanaWebhookVerifier(config).verify(delivered, dana.publicKey),
+    ).toEqual({ valid: true });
+    expect(JSON.parse(delivered.rawBody)).toMatchObject({
+      originalPartnerReferenceNo: 'order-1',
+      originalReferenceNo: created.referenceNo,
+      latestTransactionStatus: '00',
+      amount: { value: '10000.00', currency: 'IDR' },
+    });
+    await expect(query('order-1')).resolves.toMatchObject({
+      latestTransactionStatus: '00',
+      transAmount: { value: '10000.00', currency: 'IDR' },
+    });
+
+    await expect(refund('order-1', '4000.00')).resolves.toMatchObject({
+      responseCode: '2007800',
+      refundAmount: { value: '4000.00', currency: 'IDR' },
+    });
+    await expect(query('order-1')).resolves.toMatchObject({
+      latestTransactionStatus: '04',
+    });
+    await expect(refund('order-1', '6000.01')).rejects.toMatchObject({
+      status: 403,
+    });
+    await expect(refund('order-1', '6000.00')).resolves.toMatchObject({
+      responseCode: '2007800',
+    });
+  });
+
+  it('should not refund an unpaid order', async () => {
+    await generateQr('order-2');
+
+    await expect(refund('order-2', '1000.00')).rejects.toMatchObject({
+      status: 403,
+    });
+  });
+
+  it('should cancel an open order but not a paid one', async () => {
+    const cancel = (partnerReferenceNo: string) =>
+      client.call(merchant, DANA_ENDPOINTS.qrisCancel, {
+        originalPartnerReferenceNo: partnerReferenceNo,
+        originalReferenceNo: '',
+        merchantId: merchant.merchantId,
+        reason: '',
+      });
+    await generateQr('order-3');
+    await generateQr('order-4');
+    await notify('order-4');
+
+    await expect(cancel('order-3')).resolves.toMatchObject({
+      responseCode: '2007700',
+    });
+    await expect(query('order-3')).resolves.toMatchObject({
+      latestTransactionStatus: '05',
+    });
+    await expect(cancel('order-4')).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('should refuse QRIS calls without a token it issued', async () => {
+    const body = {
+      originalPartnerReferenceNo: 'order-1',
+      merchantId: merchant.merchantId,
+      serviceCode: '47',
+    };
+
+    await signedCall('/v1.0/qr/qr-mpm-query.htm', body)
+      .expect(401)
+      .expect(({ body }) => expect(body.responseCode).toBe('4015101'));
+    await signedCall('/v1.0/qr/qr-mpm-query.htm', body)
+      .set('Authorization', 'Bearer forged')
+      .expect(401);
+  });
+
+  it('should refuse a request signed with another key', async () => {
+    const timestamp = signatureService.getTimestamp();
+
+    await request(app.getHttpServer())
+      .post(`${API_PREFIX}/simulator/payment-gateway/v1.0/debit/status.htm`)
+      .set('X-TIMESTAMP', timestamp)
+      .set('X-PARTNER-ID', merchant.clientId)
+      .set(
+        'X-SIGNATURE',
+        signatureService.generateSignature('forged', dana.privateKey),
+      )
+      .send({ originalPartnerReferenceNo: 'order-1' })
+      .expect(401)
+      .expect(({ body }) => expect(body.responseCode).toBe('4015500'));
+  });
+
+  it('should let the client renew a token the simulator forgot', async () => {
+    await generateQr('order-5');
+    await request(app.getHttpServer())
+      .delete(`${API_PREFIX}/simulator/control`)
+      .expect(204);
+
+    await expect(generateQr('order-5')).resolves.toMatchObject({
+      responseCode: '2004700',
+    });
+  });
+});